@@ -3,14 +3,21 @@ import React, { useState } from 'react';
 import { Factory, Circle, Trophy, ArrowRight, Construction } from 'lucide-react';
 import IndustrialApp from './components/IndustrialApp';
 import SportsApp from './components/SportsApp';
+import ProjectBrowser from './components/ProjectBrowser';
 
 type AppMode = 'HOME' | 'INDUSTRIAL' | 'SPORTS';
 
 export default function App() {
   const [mode, setMode] = useState<AppMode>('HOME');
+  const [industrialProjectId, setIndustrialProjectId] = useState<string | null>(null);
+
+  const openIndustrial = (projectId: string | null) => {
+    setIndustrialProjectId(projectId);
+    setMode('INDUSTRIAL');
+  };
 
   if (mode === 'INDUSTRIAL') {
-    return <IndustrialApp onBack={() => setMode('HOME')} />;
+    return <IndustrialApp projectId={industrialProjectId} onBack={() => setMode('HOME')} />;
   }
 
   if (mode === 'SPORTS') {
@@ -51,7 +58,7 @@ export default function App() {
                
                {/* Industrial Card */}
                <button 
-                 onClick={() => setMode('INDUSTRIAL')}
+                 onClick={() => openIndustrial(null)}
                  className="group relative flex-1 bg-silicon-surface border border-gray-800 rounded-3xl p-8 text-left hover:border-silicon-orange transition-all duration-300 hover:shadow-[0_0_30px_rgba(240,50,0,0.15)] flex flex-col items-center justify-center min-h-[320px]"
                >
                    <div className="absolute top-6 right-6 opacity-0 group-hover:opacity-100 transition-opacity transform group-hover:translate-x-1">
@@ -93,6 +100,9 @@ export default function App() {
                </button>
 
            </div>
+
+           {/* Local Project Library */}
+           <ProjectBrowser onOpen={openIndustrial} />
        </main>
        
        <footer className="p-8 text-center text-gray-600 text-xs relative z-10">
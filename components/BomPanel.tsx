@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { FileSpreadsheet, FileText, Receipt } from 'lucide-react';
+import { ProjectData } from '../types';
+import { BomItemKey, PriceCatalog, computeBom, bomTotal, bomToCsv, bomToXlsx, loadPriceCatalog, savePriceCatalog } from '../utils/bom';
+import { downloadBlob, fileBaseName } from '../utils/download';
+
+interface BomPanelProps {
+    data: ProjectData;
+}
+
+const formatNumber = (v: number, decimals: number = 2) =>
+    v.toLocaleString('pt-BR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+// Unit price field: keeps the typed text (decimal comma) and reports parsed numbers
+const PriceInput = ({ value, onChange }: { value: number; onChange: (v: number) => void }) => {
+  const [text, setText] = useState(value ? String(value).replace('.', ',') : '');
+
+  useEffect(() => {
+      const parsed = parseFloat(text.replace(',', '.'));
+      if ((isNaN(parsed) ? 0 : parsed) !== value) setText(value ? String(value).replace('.', ',') : '');
+  }, [value]);
+
+  return (
+      <input
+        type="text"
+        inputMode="decimal"
+        value={text}
+        placeholder="0,00"
+        onChange={(e) => {
+            const val = e.target.value;
+            if (!/^[\d.,]*$/.test(val)) return;
+            setText(val);
+            const parsed = parseFloat(val.replace(',', '.'));
+            onChange(isNaN(parsed) ? 0 : parsed);
+        }}
+        className="w-24 rounded bg-black/40 border border-gray-700 text-white text-right px-2 py-1 focus:border-silicon-orange focus:outline-none"
+      />
+  );
+};
+
+// Bill of materials with an editable unit price catalog (shared across projects)
+export default function BomPanel({ data }: BomPanelProps) {
+  const [catalog, setCatalog] = useState<PriceCatalog>(loadPriceCatalog);
+
+  const lines = computeBom(data, catalog);
+  const total = bomTotal(lines);
+  const baseName = `${fileBaseName(data.projectName)}-materiais`;
+
+  const updatePrice = (key: BomItemKey, price: number) => {
+      const next = { ...catalog, [key]: price };
+      setCatalog(next);
+      savePriceCatalog(next);
+  };
+
+  return (
+    <div className="border-t border-gray-700 pt-4">
+        <p className="font-semibold text-silicon-yellow mb-2 uppercase text-xs tracking-wider flex items-center gap-1">
+            <Receipt size={12} /> Lista de Materiais
+        </p>
+        {lines.length === 0 ? (
+            <p className="text-gray-500 italic text-xs">Nenhum item no projeto.</p>
+        ) : (
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="text-gray-500 uppercase">
+                        <th className="text-left font-bold pb-1">Item</th>
+                        <th className="text-right font-bold pb-1">Qtd.</th>
+                        <th className="text-right font-bold pb-1">Preço Unit. (R$)</th>
+                        <th className="text-right font-bold pb-1">Total (R$)</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {lines.map(line => (
+                        <tr key={line.key} className="border-t border-gray-800">
+                            <td className="py-1 pr-2 text-gray-300">{line.description}</td>
+                            <td className="py-1 text-right text-white whitespace-nowrap">
+                                {formatNumber(line.quantity, line.unit === 'un' ? 0 : 2)} {line.unit}
+                            </td>
+                            <td className="py-1 text-right">
+                                <PriceInput value={line.unitPrice} onChange={(v) => updatePrice(line.key, v)} />
+                            </td>
+                            <td className="py-1 text-right text-white">{formatNumber(line.total)}</td>
+                        </tr>
+                    ))}
+                    <tr className="border-t border-gray-600">
+                        <td colSpan={3} className="py-2 text-right font-bold text-gray-400 uppercase">Total Estimado</td>
+                        <td className="py-2 text-right font-bold text-silicon-yellow">R$ {formatNumber(total)}</td>
+                    </tr>
+                </tbody>
+            </table>
+        )}
+        <div className="flex gap-2 mt-3">
+            <button
+                onClick={() => downloadBlob(new Blob([bomToCsv(data.projectName, lines)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`)}
+                disabled={lines.length === 0}
+                className="flex-1 flex justify-center items-center gap-1 py-2 rounded-lg border border-gray-700 text-xs font-bold text-gray-300 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-40"
+            >
+                <FileText size={14} /> CSV
+            </button>
+            <button
+                onClick={() => downloadBlob(bomToXlsx(data.projectName, lines), `${baseName}.xlsx`)}
+                disabled={lines.length === 0}
+                className="flex-1 flex justify-center items-center gap-1 py-2 rounded-lg border border-gray-700 text-xs font-bold text-gray-300 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-40"
+            >
+                <FileSpreadsheet size={14} /> XLSX
+            </button>
+        </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React, { useState, useEffect } from 'react';
+
+// Wizard text / number field: accepts "," as the decimal separator and keeps what is being
+// typed until it parses
+export default function DarkInput({ label, value, onChange, placeholder, type = "text" }: any) {
+  const [localVal, setLocalVal] = useState(value === 0 ? '' : value?.toString() || '');
+  
+  useEffect(() => {
+      // If it's a number prop but string input
+      if (typeof value === 'number') {
+        const parsedLocal = parseFloat(localVal.replace(',', '.'));
+        if (parsedLocal !== value) {
+            if (value === 0 && (localVal === '' || localVal === '0')) return;
+            setLocalVal(value === 0 ? '' : value?.toString());
+        }
+      } else {
+          // String input (Project Name)
+          if (localVal !== value) {
+              setLocalVal(value || '');
+          }
+      }
+  }, [value]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const val = e.target.value;
+      
+      // If the parent expects a number (based on initial value type check usually, but here we simplify)
+      // We'll rely on the onChange handler passed to parse it if needed, or if it's text just pass it.
+      
+      // Heuristic: If label implies text or value is string in parent
+      const isText = typeof value === 'string';
+
+      if (isText) {
+          setLocalVal(val);
+          onChange(e); // Pass event back
+      } else {
+        // Number logic
+        if (/^[\d.,]*$/.test(val)) {
+            setLocalVal(val);
+            const normalized = val.replace(',', '.');
+            const parsed = parseFloat(normalized);
+            
+            if (!isNaN(parsed)) {
+                onChange({ target: { value: parsed } }); 
+            } else if (val === '') {
+                onChange({ target: { value: 0 } });
+            }
+        }
+      }
+  };
+
+  return (
+      <div>
+        <label className="block text-xs font-semibold text-gray-400 mb-1 tracking-wide">{label}</label>
+        <input
+          type="text"
+          inputMode={typeof value === 'number' ? "decimal" : "text"}
+          value={localVal}
+          onChange={handleChange}
+          className="block w-full rounded-lg bg-silicon-input border border-gray-700 text-white placeholder-gray-500 focus:border-silicon-orange focus:ring-1 focus:ring-silicon-orange sm:text-sm p-3 transition-colors"
+          placeholder={placeholder}
+        />
+      </div>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { Upload, X, Check } from 'lucide-react';
+import {
+  DxfDrawing, DxfUnit, DxfImportResult, DXF_FILE_ACCEPT,
+  readDxfFile, guessDxfUnit, outlineCandidates, buildDxfImport, DXF_UNIT_TO_METERS
+} from '../utils/dxfImport';
+
+interface DxfImportPanelProps {
+    ceilingHeight: number;
+    onImport: (result: DxfImportResult) => void;
+}
+
+const DEFAULT_COLUMN_HEIGHT = 10; // Used while the ceiling height is not defined
+const DEFAULT_OBSTACLE_HEIGHT = 2;
+const MAX_OUTLINE_OPTIONS = 20;
+
+// Step 1 helper: pick the hall outline and the column/obstacle layers from a DXF plan
+export default function DxfImportPanel({ ceilingHeight, onImport }: DxfImportPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [drawing, setDrawing] = useState<DxfDrawing | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unit, setUnit] = useState<DxfUnit>('m');
+  const [outlineId, setOutlineId] = useState<number | null>(null);
+  const [layers, setLayers] = useState<string[]>([]);
+
+  const candidates = useMemo(() => (drawing ? outlineCandidates(drawing).slice(0, MAX_OUTLINE_OPTIONS) : []), [drawing]);
+
+  const preview = useMemo(() => {
+      if (!drawing || outlineId === null) return null;
+      try {
+          return buildDxfImport(drawing, {
+              outlineId, unit, layers,
+              columnHeight: ceilingHeight > 0 ? ceilingHeight : DEFAULT_COLUMN_HEIGHT,
+              obstacleHeight: DEFAULT_OBSTACLE_HEIGHT,
+          });
+      } catch {
+          return null;
+      }
+  }, [drawing, outlineId, unit, layers, ceilingHeight]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const parsed = await readDxfFile(file);
+          const outlines = outlineCandidates(parsed);
+          if (outlines.length === 0) throw new Error('Nenhuma polilinha fechada para usar como contorno do galpão.');
+          setDrawing(parsed);
+          setFileName(file.name);
+          setUnit(guessDxfUnit(parsed));
+          setOutlineId(outlines[0].id);
+          setLayers(parsed.layers);
+          setError(null);
+      } catch (err) {
+          setDrawing(null);
+          setError(err instanceof Error ? err.message : 'Não foi possível importar o DXF.');
+      }
+  };
+
+  const close = () => { setDrawing(null); setError(null); };
+
+  const toggleLayer = (layer: string) =>
+      setLayers(prev => prev.includes(layer) ? prev.filter(l => l !== layer) : [...prev, layer]);
+
+  const columns = preview ? preview.objects.filter(o => o.type === 'COLUMN').length : 0;
+  const obstacles = preview ? preview.objects.length - columns : 0;
+  const f = DXF_UNIT_TO_METERS[unit];
+
+  return (
+    <div className="space-y-3">
+        <button
+            onClick={() => inputRef.current?.click()}
+            className="w-full flex justify-center items-center gap-2 py-2 rounded-lg border border-dashed border-gray-600 text-xs font-bold text-gray-400 hover:text-white hover:border-silicon-orange transition-colors"
+        >
+            <Upload size={14} /> Importar Planta DXF
+        </button>
+        <input ref={inputRef} type="file" accept={DXF_FILE_ACCEPT} onChange={handleFile} className="hidden" />
+
+        {error && (
+            <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/40 rounded-lg p-2">{error}</p>
+        )}
+
+        {drawing && (
+            <div className="bg-black/30 border border-silicon-orange/30 rounded-lg p-3 space-y-3 text-xs">
+                <div className="flex justify-between items-start">
+                    <p className="text-white font-bold truncate">{fileName}</p>
+                    <button onClick={close} className="text-gray-500 hover:text-red-500 transition-colors" title="Cancelar">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                    <div>
+                        <label className="block text-gray-500 font-semibold mb-1">UNIDADE</label>
+                        <select
+                            value={unit}
+                            onChange={(e) => setUnit(e.target.value as DxfUnit)}
+                            className="w-full rounded bg-silicon-input border border-gray-700 text-white p-1.5"
+                        >
+                            {(Object.keys(DXF_UNIT_TO_METERS) as DxfUnit[]).map(u => <option key={u} value={u}>{u}</option>)}
+                        </select>
+                    </div>
+                    <div className="col-span-2">
+                        <label className="block text-gray-500 font-semibold mb-1">CONTORNO DO GALPÃO</label>
+                        <select
+                            value={outlineId ?? ''}
+                            onChange={(e) => setOutlineId(Number(e.target.value))}
+                            className="w-full rounded bg-silicon-input border border-gray-700 text-white p-1.5"
+                        >
+                            {candidates.map(s => (
+                                <option key={s.id} value={s.id}>
+                                    {s.layer} — {((s.bounds.maxX - s.bounds.minX) * f).toFixed(2)} x {((s.bounds.maxY - s.bounds.minY) * f).toFixed(2)} m
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <div>
+                    <label className="block text-gray-500 font-semibold mb-1">CAMADAS DE PILARES / OBSTÁCULOS</label>
+                    <div className="flex flex-wrap gap-1">
+                        {drawing.layers.map(layer => (
+                            <button
+                                key={layer}
+                                onClick={() => toggleLayer(layer)}
+                                className={`px-2 py-1 rounded border transition-colors ${layers.includes(layer) ? 'border-silicon-orange text-white bg-silicon-orange/20' : 'border-gray-700 text-gray-500'}`}
+                            >
+                                {layer}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {preview && (
+                    <p className="text-gray-400">
+                        Galpão <span className="text-white font-bold">{preview.width} x {preview.length} m</span>{preview.outline && ` (poligonal, ${preview.outline.length} vértices)`} | {columns} pilares | {obstacles} obstáculos
+                    </p>
+                )}
+                <button
+                    onClick={() => { if (preview) { onImport(preview); close(); } }}
+                    disabled={!preview || preview.width <= 0 || preview.length <= 0}
+                    className="w-full flex justify-center items-center gap-2 py-2 rounded-lg bg-silicon-orange text-white font-bold hover:bg-red-600 transition-colors disabled:opacity-40"
+                >
+                    <Check size={14} /> Aplicar Importação
+                </button>
+            </div>
+        )}
+    </div>
+  );
+}
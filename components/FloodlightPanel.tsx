@@ -0,0 +1,149 @@
+import React from 'react';
+import { Lightbulb, Plus, Trash2, Crosshair } from 'lucide-react';
+import { SportsProjectData, SportsObject, Floodlight, SportsLightingClass, FixtureSpec } from '../types';
+import { LIGHTING_CLASSES, SportsLightingResult, aimFloodlight, lightingRequirement } from '../utils/sportsLighting';
+import NumberField from './NumberField';
+
+interface FloodlightPanelProps {
+    data: SportsProjectData;
+    result: SportsLightingResult | null;
+    onChange: (next: SportsProjectData) => void;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Step 3: floodlights per pole, aimed by tilt / azimuth, checked against the EN 12193 class
+export default function FloodlightPanel({ data, result, onChange }: FloodlightPanelProps) {
+  const { floodlighting } = data;
+  const posts = data.objects.filter(o => o.type === 'POST').sort((a, b) => a.x - b.x);
+  const requirement = lightingRequirement(data);
+
+  const setFixture = (patch: Partial<FixtureSpec>) =>
+      onChange({ ...data, floodlighting: { ...floodlighting, fixture: { ...floodlighting.fixture, ...patch } } });
+
+  const setFloodlights = (post: SportsObject, floodlights: Floodlight[]) => onChange({
+      ...data,
+      objects: data.objects.map(o => (o.id === post.id ? { ...o, floodlights } : o)),
+  });
+
+  // New floodlights aim at the field center; Crosshair re-aims an existing one there
+  const addFloodlight = (post: SportsObject) =>
+      setFloodlights(post, [...(post.floodlights || []), { id: newId(), ...aimFloodlight(post, data.width / 2, data.length / 2) }]);
+
+  const updateFloodlight = (post: SportsObject, id: string, patch: Partial<Floodlight>) =>
+      setFloodlights(post, (post.floodlights || []).map(f => (f.id === id ? { ...f, ...patch } : f)));
+
+  const removeFloodlight = (post: SportsObject, id: string) =>
+      setFloodlights(post, (post.floodlights || []).filter(f => f.id !== id));
+
+  const resultRow = (label: string, value: string, ok?: boolean) => (
+      <div className="flex justify-between">
+          <span className="text-gray-500">{label}</span>
+          <span className={`font-mono ${ok === undefined ? 'text-white' : ok ? 'text-green-400' : 'text-red-400'}`}>{value}</span>
+      </div>
+  );
+
+  return (
+    <div className="space-y-4 text-xs">
+        <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700 space-y-3">
+            <div className="font-bold uppercase tracking-widest text-silicon-teal flex items-center gap-2">
+                <Lightbulb size={14} /> Refletor
+            </div>
+            <label className="flex flex-col gap-1 text-gray-500">
+                Modelo
+                <input
+                    value={floodlighting.fixture.name}
+                    onChange={(e) => setFixture({ name: e.target.value })}
+                    className="w-full rounded bg-black/40 border border-gray-700 text-white px-2 py-1 focus:border-silicon-teal focus:outline-none"
+                />
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+                <NumberField label="Fluxo (lm)" value={floodlighting.fixture.lumens} step={1000} onChange={(v) => setFixture({ lumens: Math.max(0, v) })} />
+                <NumberField label="Potência (W)" value={floodlighting.fixture.watts} step={10} onChange={(v) => setFixture({ watts: Math.max(0, v) })} />
+                <NumberField label="Facho (°)" value={floodlighting.fixture.beamAngle} step={1} onChange={(v) => setFixture({ beamAngle: Math.max(0, v) })} />
+            </div>
+            <div className="grid grid-cols-3 gap-2 items-end">
+                <label className="col-span-2 flex flex-col gap-1 text-gray-500">
+                    Classe (EN 12193)
+                    <select
+                        value={floodlighting.lightingClass}
+                        onChange={(e) => onChange({ ...data, floodlighting: { ...floodlighting, lightingClass: e.target.value as SportsLightingClass } })}
+                        className="w-full rounded bg-black/40 border border-gray-700 text-white px-2 py-1 focus:border-silicon-teal focus:outline-none"
+                    >
+                        {LIGHTING_CLASSES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                    </select>
+                </label>
+                <NumberField
+                    label="Fator Manut."
+                    value={floodlighting.maintenanceFactor}
+                    step={0.05}
+                    onChange={(v) => onChange({ ...data, floodlighting: { ...floodlighting, maintenanceFactor: Math.min(1, Math.max(0, v)) } })}
+                />
+            </div>
+            <p className="text-gray-500 italic">* Requisito: Eh,méd ≥ {requirement.lux} lux e U2 ≥ {requirement.uniformity.toFixed(2)}.</p>
+        </div>
+
+        <div className="space-y-2">
+            <span className="font-bold text-gray-500 uppercase tracking-widest">Postes: {posts.length}</span>
+            {posts.length === 0 && (
+                <p className="text-gray-600 text-center p-6 border border-dashed border-gray-800 rounded-lg">
+                    Adicione postes na etapa anterior.
+                </p>
+            )}
+            {posts.map(post => (
+                <div key={post.id} className="bg-silicon-input p-3 rounded-lg border border-gray-700 space-y-2">
+                    <div className="flex justify-between items-center">
+                        <span className="font-bold text-sm text-white">{post.label} <span className="text-gray-500 font-normal">• H {post.height}m</span></span>
+                        <button
+                            onClick={() => addFloodlight(post)}
+                            className="flex items-center gap-1 text-silicon-teal hover:text-white transition-colors"
+                        >
+                            <Plus size={14} /> Refletor
+                        </button>
+                    </div>
+                    {(post.floodlights || []).map((f, i) => (
+                        <div key={f.id} className="grid grid-cols-[1.5rem_1fr_1fr_auto_auto] gap-2 items-end">
+                            <span className="text-gray-400 pb-1.5">R{i + 1}</span>
+                            <NumberField label="Inclinação (°)" value={f.tilt} step={1} onChange={(v) => updateFloodlight(post, f.id, { tilt: Math.min(90, Math.max(0, v)) })} />
+                            <NumberField label="Azimute (°)" value={f.azimuth} step={1} onChange={(v) => updateFloodlight(post, f.id, { azimuth: ((v % 360) + 360) % 360 })} />
+                            <button
+                                onClick={() => updateFloodlight(post, f.id, aimFloodlight(post, data.width / 2, data.length / 2))}
+                                className="pb-1.5 text-gray-500 hover:text-silicon-teal transition-colors"
+                                title="Mirar no centro do campo"
+                            >
+                                <Crosshair className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => removeFloodlight(post, f.id)}
+                                className="pb-1.5 text-gray-600 hover:text-red-500 transition-colors"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+
+        <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700 space-y-1">
+            <div className="font-bold uppercase tracking-widest text-silicon-teal mb-2">Resultados</div>
+            {result ? (
+                <>
+                    {resultRow('Refletores / Potência', `${result.floodlightCount} / ${(result.installedWatts / 1000).toFixed(1)} kW`)}
+                    {resultRow('Eh méd. (lux)', result.horizontal.averageLux.toFixed(0), result.horizontal.averageLux >= requirement.lux)}
+                    {resultRow('Eh mín. / máx. (lux)', `${result.horizontal.minLux.toFixed(0)} / ${result.horizontal.maxLux.toFixed(0)}`)}
+                    {resultRow('U1 (Emin/Emax)', result.horizontal.u1.toFixed(2))}
+                    {resultRow('U2 (Emin/Eméd)', result.horizontal.u2.toFixed(2), result.horizontal.u2 >= requirement.uniformity)}
+                    {resultRow('Ev méd. a 1,5m (lux)', result.vertical.averageLux.toFixed(0))}
+                    {resultRow('Ev U1 / U2', `${result.vertical.u1.toFixed(2)} / ${result.vertical.u2.toFixed(2)}`)}
+                    <p className={`pt-2 font-bold ${result.passes ? 'text-green-400' : 'text-red-400'}`}>
+                        {result.passes ? `ATENDE à Classe ${floodlighting.lightingClass}` : `NÃO ATENDE à Classe ${floodlighting.lightingClass}`}
+                    </p>
+                </>
+            ) : (
+                <p className="text-gray-500 italic">Adicione refletores aos postes para calcular a iluminância.</p>
+            )}
+        </div>
+    </div>
+  );
+}
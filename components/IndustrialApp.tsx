@@ -1,5 +1,5 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   ArrowRight, 
   ArrowLeft, 
@@ -16,7 +16,18 @@ import {
   Box,
   Layout,
   Layers,
-  ChevronLeft
+  ChevronLeft,
+  Save,
+  FolderOpen,
+  X,
+  Undo2,
+  Redo2,
+  Upload,
+  Wand2,
+  FileDown,
+  PenTool,
+  Lock,
+  LockOpen
 } from 'lucide-react';
 import { 
   ProjectData, 
@@ -28,96 +39,101 @@ import {
 } from '../types';
 import { STEP_TITLES } from '../constants';
 import { WarehouseCanvas, CanvasHandle } from './WarehouseCanvas';
+import DarkInput from './DarkInput';
+import { downloadProjectFile, readProjectFile, PROJECT_FILE_EXTENSION } from '../utils/projectFile';
+import { createProjectId, loadProject, saveProject } from '../utils/projectLibrary';
+import { useHistory } from '../hooks/useHistory';
+import { computeIlluminance } from '../utils/illuminance';
+import { computeLightingLayout } from '../utils/lightingLayout';
+import { beamAngleOf } from '../utils/photometry';
+import { optimizeLighting, LayoutCandidate } from '../utils/lightingOptimizer';
+import { readPhotometryFile, PHOTOMETRY_FILE_ACCEPT } from '../utils/photometryFile';
+import PolarPlot from './PolarPlot';
+import BomPanel from './BomPanel';
+import DxfImportPanel from './DxfImportPanel';
+import OutlineEditor from './OutlineEditor';
+import StructurePanel from './StructurePanel';
+import { DxfImportResult } from '../utils/dxfImport';
+import { PaperSize, PaperOrientation } from '../utils/pdf';
+import { buildPlanDxf } from '../utils/dxfPlan';
+import { downloadBlob, fileBaseName } from '../utils/download';
+import { transposeHall, withHallOutline, isPolygonalHall, isInsideHall, findFloorSpot, hallArea } from '../utils/floorPlan';
+import { isBuildingElement, overlapsBuildingElement, obstacleKindOf, OBSTACLE_PRESETS } from '../utils/buildingElements';
+import { footprintBounds, normalizeRotation, rotationOf } from '../utils/footprint';
+import { ObjectMove, duplicateRacks } from '../utils/selection';
+import RackArrayPanel from './RackArrayPanel';
+import ValidationPanel from './ValidationPanel';
+import { validateLayout, issueObjectIds, FORKLIFTS, forkliftOf } from '../utils/layoutValidation';
+import SnapPanel from './SnapPanel';
+import PropertiesPanel from './PropertiesPanel';
+import { SnapSettings, loadSnapSettings, saveSnapSettings } from '../utils/snapping';
 
-const DarkInput = ({ label, value, onChange, placeholder, type = "text" }: any) => {
-  const [localVal, setLocalVal] = useState(value === 0 ? '' : value?.toString() || '');
-  
-  useEffect(() => {
-      // If it's a number prop but string input
-      if (typeof value === 'number') {
-        const parsedLocal = parseFloat(localVal.replace(',', '.'));
-        if (parsedLocal !== value) {
-            if (value === 0 && (localVal === '' || localVal === '0')) return;
-            setLocalVal(value === 0 ? '' : value?.toString());
-        }
-      } else {
-          // String input (Project Name)
-          if (localVal !== value) {
-              setLocalVal(value || '');
-          }
-      }
-  }, [value]);
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const val = e.target.value;
-      
-      // If the parent expects a number (based on initial value type check usually, but here we simplify)
-      // We'll rely on the onChange handler passed to parse it if needed, or if it's text just pass it.
-      
-      // Heuristic: If label implies text or value is string in parent
-      const isText = typeof value === 'string';
-
-      if (isText) {
-          setLocalVal(val);
-          onChange(e); // Pass event back
-      } else {
-        // Number logic
-        if (/^[\d.,]*$/.test(val)) {
-            setLocalVal(val);
-            const normalized = val.replace(',', '.');
-            const parsed = parseFloat(normalized);
-            
-            if (!isNaN(parsed)) {
-                onChange({ target: { value: parsed } }); 
-            } else if (val === '') {
-                onChange({ target: { value: 0 } });
-            }
-        }
-      }
-  };
-
-  return (
-      <div>
-        <label className="block text-xs font-semibold text-gray-400 mb-1 tracking-wide">{label}</label>
-        <input
-          type="text"
-          inputMode={typeof value === 'number' ? "decimal" : "text"}
-          value={localVal}
-          onChange={handleChange}
-          className="block w-full rounded-lg bg-silicon-input border border-gray-700 text-white placeholder-gray-500 focus:border-silicon-orange focus:ring-1 focus:ring-silicon-orange sm:text-sm p-3 transition-colors"
-          placeholder={placeholder}
-        />
-      </div>
-  );
-};
+const AUTOSAVE_DELAY_MS = 1000;
+const PASTE_OFFSET = 1; // Pasted copies land this far right and down (m)
 
 interface IndustrialAppProps {
     onBack: () => void;
+    projectId?: string | null; // Library project to reopen (new project when omitted)
 }
 
-export default function IndustrialApp({ onBack }: IndustrialAppProps) {
+export default function IndustrialApp({ onBack, projectId }: IndustrialAppProps) {
   const [currentStep, setCurrentStep] = useState(1);
-  const [data, setData] = useState<ProjectData>(DEFAULT_PROJECT);
+  const history = useHistory<ProjectData>(DEFAULT_PROJECT);
+  const { state: data, set: setData } = history;
   const canvasRef = useRef<CanvasHandle>(null);
+
+  // Local Library / Autosave State
+  const [libraryId, setLibraryId] = useState<string>(() => projectId || createProjectId());
+  const [isLoaded, setIsLoaded] = useState(!projectId);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null); // Autosave waiting for its delay
+  const thumbnailRef = useRef('');
+  const storedRef = useRef<{ data: ProjectData, step: number } | null>(null); // What the library already holds
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const photometryInputRef = useRef<HTMLInputElement>(null);
+  const [photometryError, setPhotometryError] = useState<string | null>(null);
+
+  // Auto-dimensioning State
+  const [uniformityTarget, setUniformityTarget] = useState(0.4);
+  const [candidates, setCandidates] = useState<LayoutCandidate[] | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
   
   // State for Summary View Mode (2D or 3D)
   const [summaryViewMode, setSummaryViewMode] = useState<'2D' | '3D'>('2D');
+
+  // PDF Report Options
+  const [reportPaper, setReportPaper] = useState<PaperSize>('A4');
+  const [reportOrientation, setReportOrientation] = useState<PaperOrientation>('landscape');
   
   // Rack/Mezzanine State
   const [inputMode, setInputMode] = useState<ObjectType>('RACK');
   const [newRackDims, setNewRackDims] = useState({ w: 1.2, d: 1.0, h: 2.0 }); // h is height for rack
   const [newMezzDims, setNewMezzDims] = useState({ w: 5.0, d: 5.0, el: 3.0 }); // el is elevation for mezzanine
 
+  // Objects selected on the plan or in the Step 3 list (edited in the properties inspector)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Plan snapping (a browser preference, like the price catalog)
+  const [snap, setSnap] = useState<SnapSettings>(loadSnapSettings);
+  const updateSnap = (next: SnapSettings) => {
+      setSnap(next);
+      saveSnapSettings(next);
+  };
+
+  // Layout validation (sidebar list + red objects on the plan), rechecked when a drag ends
+  const [isDragging, setIsDragging] = useState(false);
+  const checkedData = useMemo(() => data, [isDragging ? null : data]);
+  const layoutIssues = useMemo(() => validateLayout(checkedData), [checkedData]);
+  const issueIds = useMemo(() => issueObjectIds(layoutIssues), [layoutIssues]);
+
   const totalSteps = 5; 
 
   const nextStep = () => {
     if (currentStep === 1) {
        if (data.length > data.width) {
-         setData(prev => ({
-           ...prev,
-           width: prev.length,
-           length: prev.width,
-         }));
+         setData(prev => transposeHall(prev));
        }
     }
     if (currentStep < totalSteps) {
@@ -137,9 +153,66 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
     }
   };
 
+  const handleDownloadDxf = () => {
+    const blob = new Blob([buildPlanDxf(data)], { type: 'application/dxf' });
+    downloadBlob(blob, `${fileBaseName(data.projectName)}.dxf`);
+  };
+
+  const handleDownloadPdf = () => {
+    if (canvasRef.current) {
+      canvasRef.current.downloadPdf({ paper: reportPaper, orientation: reportOrientation });
+    }
+  };
+
+  // Reopen a project from the local library
+  useEffect(() => {
+      if (!projectId) return;
+      loadProject(projectId)
+        .then(project => {
+            if (project) {
+                storedRef.current = { data: project.data, step: project.entry.currentStep };
+                history.reset(project.data);
+                setCurrentStep(project.entry.currentStep);
+                setLastSavedAt(project.entry.updatedAt);
+                thumbnailRef.current = project.entry.thumbnail;
+            }
+        })
+        .catch(err => setFileError(err instanceof Error ? err.message : 'Não foi possível abrir o projeto.'))
+        .finally(() => setIsLoaded(true));
+  }, [projectId]);
+
+  // Autosave (skips the untouched default project and a project just opened from the library)
+  useEffect(() => {
+      const stored = storedRef.current;
+      if (!isLoaded || data === DEFAULT_PROJECT || (stored && stored.data === data && stored.step === currentStep)) {
+          pendingSaveRef.current = null;
+          return;
+      }
+      const save = () => {
+          pendingSaveRef.current = null;
+          // The canvas is gone when flushing on unmount: keep the last thumbnail
+          if (canvasRef.current) thumbnailRef.current = canvasRef.current.getThumbnail();
+          saveProject(libraryId, data, currentStep, thumbnailRef.current)
+            .then(() => { storedRef.current = { data, step: currentStep }; setLastSavedAt(Date.now()); setSaveError(null); })
+            .catch(err => setSaveError(err instanceof Error ? err.message : 'Erro desconhecido.'));
+      };
+      pendingSaveRef.current = save;
+      const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [data, currentStep, libraryId, isLoaded]);
+
+  // Leaving the builder (Back) writes the edit still waiting for the autosave delay
+  useEffect(() => () => pendingSaveRef.current?.(), []);
+
   // Reset Project State instead of reloading window
   const handleNewProject = () => {
-      setData(DEFAULT_PROJECT);
+      pendingSaveRef.current?.();
+      setLibraryId(createProjectId());
+      setLastSavedAt(null);
+      setSaveError(null);
+      thumbnailRef.current = '';
+      storedRef.current = null;
+      history.reset(DEFAULT_PROJECT);
       setCurrentStep(1);
       setSummaryViewMode('2D');
       setNewRackDims({ w: 1.2, d: 1.0, h: 2.0 });
@@ -147,6 +220,104 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
       setInputMode('RACK');
   };
 
+  // Undo / Redo Shortcuts (Ctrl+Z, Ctrl+Shift+Z, Ctrl+Y)
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const target = e.target as HTMLElement;
+          if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) { e.preventDefault(); history.undo(); }
+          else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); history.redo(); }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
+  // --- Project File (Save / Open) ---
+
+  const handleSaveFile = () => {
+      downloadProjectFile(data);
+  };
+
+  const handleOpenFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow reopening the same file
+      if (!file) return;
+      try {
+          const project = await readProjectFile(file);
+          handleNewProject();
+          history.reset(project);
+          setFileError(null);
+      } catch (err) {
+          setFileError(err instanceof Error ? err.message : 'Não foi possível abrir o arquivo.');
+      }
+  };
+
+  // --- Photometry (IES / LDT) ---
+
+  // DXF plan: hall size and floor polygon from the outline; columns/obstacles replace the current building elements
+  const handleImportDxf = (result: DxfImportResult) => {
+      setData(prev => ({
+          ...prev,
+          width: result.width,
+          length: result.length,
+          outline: result.outline,
+          storage: {
+              ...prev.storage,
+              isActive: prev.storage.isActive || result.objects.length > 0,
+              racks: [
+                  ...prev.storage.racks.filter(r => !isBuildingElement(r)),
+                  ...result.objects,
+              ],
+          },
+      }));
+  };
+
+  const handleImportPhotometry = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          const photometry = await readPhotometryFile(file);
+          setData(prev => ({
+              ...prev,
+              lighting: {
+                  ...prev.lighting,
+                  photometry,
+                  fixture: {
+                      name: photometry.luminaireName,
+                      lumens: Math.round(photometry.lumens),
+                      watts: photometry.watts,
+                      beamAngle: Math.round(beamAngleOf(photometry)),
+                  }
+              }
+          }));
+          setPhotometryError(null);
+      } catch (err) {
+          setPhotometryError(err instanceof Error ? err.message : 'Não foi possível ler o arquivo fotométrico.');
+      }
+  };
+
+  const removePhotometry = () => {
+      setData(prev => ({ ...prev, lighting: { ...prev.lighting, photometry: undefined } }));
+  };
+
+  // --- Auto-dimensioning ---
+
+  const handleOptimize = () => {
+      setIsOptimizing(true);
+      // Let the spinner paint before the (synchronous) search runs
+      setTimeout(() => {
+          setCandidates(optimizeLighting(data, uniformityTarget));
+          setIsOptimizing(false);
+      }, 0);
+  };
+
+  const applyCandidate = (candidate: LayoutCandidate) => {
+      setData(prev => ({ ...prev, lighting: { ...candidate.lighting, photometry: prev.lighting.photometry } }));
+  };
+
   // --- Logic for Racks ---
 
   const handleAddObject = () => {
@@ -157,12 +328,16 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
       const el = isMezzanine ? newMezzDims.el : 0; // Rack on floor
 
       if (w <= 0 || d <= 0) return;
+      // Default corner spot, or the first free one (polygonal halls, columns in the way)
+      const footprint = { type: inputMode, width: w, depth: d, height: h, elevation: el };
+      const isFree = (x: number, y: number) => !overlapsBuildingElement(data.storage.racks, footprint, x, y);
+      const spot = isInsideHall(data, 1, 1, w, d) && isFree(1, 1) ? { x: 1, y: 1 } : (findFloorSpot(data, w, d, 1, isFree) || { x: 1, y: 1 });
 
       const newBlock: RackBlock = {
           id: Math.random().toString(36).substr(2, 9),
           type: inputMode,
-          x: 1, 
-          y: 1, 
+          x: spot.x, 
+          y: spot.y, 
           width: Number(w),
           depth: Number(d),
           height: Number(h),
@@ -181,7 +356,10 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
   };
 
   const handleRackMove = (id: string, x: number, y: number) => {
-      setData(prev => ({
+      setData(prev => {
+        const current = prev.storage.racks.find(r => r.id === id);
+        if (current && current.x === x && current.y === y) return prev; // No-op moves stay out of history
+        return {
           ...prev,
           storage: {
               ...prev.storage,
@@ -189,7 +367,54 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                   r.id === id ? { ...r, x, y } : r
               )
           }
-      }));
+        };
+      });
+  };
+
+  // Selection drags, nudges and align / distribute from the canvas
+  const handleRacksMove = (moves: ObjectMove[]) => {
+      setData(prev => {
+        const targets = new Map(moves.map(m => [m.id, m]));
+        if (prev.storage.racks.every(r => !targets.has(r.id) || (r.x === targets.get(r.id)!.x && r.y === targets.get(r.id)!.y))) return prev;
+        return {
+          ...prev,
+          storage: {
+              ...prev.storage,
+              racks: prev.storage.racks.map(r => {
+                  const move = targets.get(r.id);
+                  return move ? { ...r, x: move.x, y: move.y } : r;
+              })
+          }
+        };
+      });
+  };
+
+  // Ctrl+V on the canvas: copies land offset from the originals
+  const handleDuplicate = (ids: string[]): string[] => {
+      const copies = duplicateRacks(data.storage.racks, ids, PASTE_OFFSET);
+      if (copies.length === 0) return [];
+      setData(prev => ({ ...prev, storage: { ...prev.storage, isActive: true, racks: [...prev.storage.racks, ...copies] } }));
+      return copies.map(r => r.id);
+  };
+
+  // Row click in the Step 3 list: selects the object (Shift adds / removes it). The row's own
+  // inputs and buttons stop the click so editing a label or deleting does not change the selection
+  const selectFromList = (id: string, additive: boolean) => {
+      if (!additive) { setSelectedIds([id]); return; }
+      setSelectedIds(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  // Outline vertex dragged on the plan (Step 1)
+  const handleVertexMove = (index: number, x: number, y: number) => {
+      setData(prev => {
+        if (!prev.outline) return prev;
+        const current = prev.outline[index];
+        if (!current || (current.x === x && current.y === y)) return prev;
+        // Landing on a neighbour would merge the two vertices mid-drag
+        const n = prev.outline.length;
+        if ([prev.outline[(index + 1) % n], prev.outline[(index + n - 1) % n]].some(p => p.x === x && p.y === y)) return prev;
+        return withHallOutline(prev, prev.outline.map((p, i) => (i === index ? { x, y } : p)));
+      });
   };
 
   const removeRack = (id: string) => {
@@ -203,6 +428,29 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
       }));
   };
 
+  const isOnFloor = (r: RackBlock) => {
+    const box = footprintBounds(r);
+    return isInsideHall(data, box.x, box.y, box.width, box.depth);
+  };
+
+  // Turns about the block center, then pushes it back between the walls when the new bounding box allows
+  const setRackRotation = (id: string, degrees: number) => {
+    setData(prev => ({
+        ...prev,
+        storage: {
+            ...prev.storage,
+            racks: prev.storage.racks.map(r => {
+                if (r.id !== id) return r;
+                const turned = { ...r, rotation: normalizeRotation(degrees) || undefined };
+                const box = footprintBounds(turned);
+                const shiftX = box.width <= prev.width ? Math.min(Math.max(0, -box.x), prev.width - box.x - box.width) : 0;
+                const shiftY = box.depth <= prev.length ? Math.min(Math.max(0, -box.y), prev.length - box.y - box.depth) : 0;
+                return { ...turned, x: r.x + shiftX, y: r.y + shiftY };
+            })
+        }
+    }));
+  };
+
   const updateRackLabel = (id: string, newLabel: string) => {
     setData(prev => ({
         ...prev,
@@ -215,6 +463,17 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
     }));
   };
 
+  // Unlocked building elements can be dragged on the plan; locking them again keeps them in place
+  const toggleLock = (id: string) => {
+    setData(prev => ({
+        ...prev,
+        storage: {
+            ...prev.storage,
+            racks: prev.storage.racks.map(r => (r.id === id ? { ...r, locked: !r.locked } : r))
+        }
+    }));
+  };
+
   const resetStorage = () => {
       setData({
           ...data,
@@ -231,7 +490,7 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
   };
   
   const handleSwapStep1 = () => {
-      setData({ ...data, width: data.length, length: data.width });
+      setData(transposeHall(data));
   };
 
   // --- Step Renderers ---
@@ -255,24 +514,30 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
          />
       </div>
 
-      <div className="flex items-center gap-2">
-          <div className="flex-1">
-             <DarkInput 
-                label="MAIOR DIMENSÃO (m)"
-                value={data.width || ''}
-                onChange={(e: any) => setData({ ...data, width: Number(e.target.value) })}
-                placeholder="Ex: 100"
-            />
+      {isPolygonalHall(data) ? (
+          <div className="p-3 rounded-lg bg-black/30 border border-gray-700 text-xs text-gray-400">
+              Dimensões envolventes: <span className="text-white font-bold">{data.width}m x {data.length}m</span> (definidas pelos vértices da planta)
           </div>
-          <div className="flex-1">
-            <DarkInput 
-                label="MENOR DIMENSÃO (m)"
-                value={data.length || ''}
-                onChange={(e: any) => setData({ ...data, length: Number(e.target.value) })}
-                placeholder="Ex: 50"
-            />
+      ) : (
+          <div className="flex items-center gap-2">
+              <div className="flex-1">
+                 <DarkInput 
+                    label="MAIOR DIMENSÃO (m)"
+                    value={data.width || ''}
+                    onChange={(e: any) => setData({ ...data, width: Number(e.target.value) })}
+                    placeholder="Ex: 100"
+                />
+              </div>
+              <div className="flex-1">
+                <DarkInput 
+                    label="MENOR DIMENSÃO (m)"
+                    value={data.length || ''}
+                    onChange={(e: any) => setData({ ...data, length: Number(e.target.value) })}
+                    placeholder="Ex: 50"
+                />
+              </div>
           </div>
-      </div>
+      )}
       <div className="pt-2">
          <DarkInput 
             label="PÉ DIREITO (m)"
@@ -281,6 +546,9 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
             placeholder="Ex: 12"
         />
       </div>
+      <OutlineEditor data={data} onChange={setData} />
+      <StructurePanel data={data} onChange={setData} />
+      <DxfImportPanel ceilingHeight={data.ceilingHeight} onImport={handleImportDxf} />
     </div>
   );
 
@@ -316,6 +584,69 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                  placeholder="Ex: 5"
               />
           </div>
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+                <label className="block text-xs font-semibold text-gray-400 tracking-wide">LUMINÁRIA</label>
+                <button
+                    onClick={() => photometryInputRef.current?.click()}
+                    className="text-xs text-silicon-teal hover:text-white flex items-center gap-1 transition-colors"
+                >
+                    <Upload size={12} /> Importar IES / LDT
+                </button>
+                <input
+                    ref={photometryInputRef}
+                    type="file"
+                    accept={PHOTOMETRY_FILE_ACCEPT}
+                    onChange={handleImportPhotometry}
+                    className="hidden"
+                />
+            </div>
+            {photometryError && (
+                <p className="text-xs text-red-400 bg-red-500/10 border border-red-500/40 rounded-lg p-2">{photometryError}</p>
+            )}
+            {data.lighting.photometry && (
+                <div className="bg-black/30 border border-silicon-teal/30 rounded-lg p-3">
+                    <div className="flex justify-between items-start mb-2">
+                        <div className="text-xs">
+                            <p className="text-white font-bold">{data.lighting.photometry.luminaireName}</p>
+                            <p className="text-gray-500">{data.lighting.photometry.manufacturer} • {data.lighting.photometry.fileName}</p>
+                        </div>
+                        <button onClick={removePhotometry} className="text-gray-500 hover:text-red-500 transition-colors" title="Remover fotometria">
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-xs mb-3">
+                        <div><p className="text-gray-500">Fluxo</p><p className="text-white font-mono">{data.lighting.photometry.lumens.toFixed(0)} lm</p></div>
+                        <div><p className="text-gray-500">Potência</p><p className="text-white font-mono">{data.lighting.photometry.watts} W</p></div>
+                        <div><p className="text-gray-500">Eficiência</p><p className="text-white font-mono">{data.lighting.photometry.watts > 0 ? (data.lighting.photometry.lumens / data.lighting.photometry.watts).toFixed(0) : '-'} lm/W</p></div>
+                    </div>
+                    <PolarPlot photometry={data.lighting.photometry} />
+                </div>
+            )}
+            <DarkInput
+                label="MODELO"
+                value={data.lighting.fixture.name}
+                onChange={(e: any) => setData({ ...data, lighting: { ...data.lighting, fixture: { ...data.lighting.fixture, name: e.target.value } } })}
+                placeholder="Ex: High Bay LED 150W"
+            />
+            <div className="grid grid-cols-3 gap-3">
+                <DarkInput
+                    label="FLUXO (lm)"
+                    value={data.lighting.fixture.lumens}
+                    onChange={(e: any) => setData({ ...data, lighting: { ...data.lighting, fixture: { ...data.lighting.fixture, lumens: Number(e.target.value) } } })}
+                />
+                <DarkInput
+                    label="POTÊNCIA (W)"
+                    value={data.lighting.fixture.watts}
+                    onChange={(e: any) => setData({ ...data, lighting: { ...data.lighting, fixture: { ...data.lighting.fixture, watts: Number(e.target.value) } } })}
+                />
+                <DarkInput
+                    label="FACHO (°)"
+                    value={data.lighting.fixture.beamAngle}
+                    onChange={(e: any) => setData({ ...data, lighting: { ...data.lighting, fixture: { ...data.lighting.fixture, beamAngle: Number(e.target.value) } } })}
+                />
+            </div>
+          </div>
           <div>
             <label className="block text-xs font-semibold text-gray-400 mb-2 tracking-wide">ORIENTAÇÃO DOS PERFILADOS</label>
             <div className="flex gap-4">
@@ -444,6 +775,12 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
           )}
       </div>
 
+      {inputMode === 'RACK' && <RackArrayPanel data={data} onChange={setData} />}
+
+      <PropertiesPanel data={data} selectedIds={selectedIds} onChange={setData} />
+
+      <SnapPanel settings={snap} onChange={updateSnap} suggestedAisle={FORKLIFTS[forkliftOf(data)].minAisle} />
+
       <div className="mt-4">
           <div className="flex justify-between items-center mb-2">
             <span className="text-xs font-bold text-gray-500 uppercase tracking-widest">Itens: {data.storage.racks.length}</span>
@@ -464,24 +801,63 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                   </li>
               )}
               {data.storage.racks.map((rack, idx) => (
-                  <li key={rack.id} className={`text-xs bg-silicon-input p-3 rounded-lg border flex justify-between items-center group transition-colors ${rack.type === 'MEZZANINE' ? 'border-silicon-teal/30 hover:border-silicon-teal/50' : 'border-gray-700 hover:border-silicon-orange/50'}`}>
+                  <li
+                      key={rack.id}
+                      onClick={(e) => selectFromList(rack.id, e.shiftKey)}
+                      className={`text-xs bg-silicon-input p-3 rounded-lg border flex justify-between items-center group transition-colors cursor-pointer ${selectedIds.includes(rack.id) ? 'ring-1 ring-silicon-orange' : ''} ${rack.type === 'MEZZANINE' ? 'border-silicon-teal/30 hover:border-silicon-teal/50' : 'border-gray-700 hover:border-silicon-orange/50'}`}
+                  >
                       <div className="flex flex-col flex-1 mr-4">
                         <input 
                             value={rack.label}
+                            onClick={(e) => e.stopPropagation()}
                             onChange={(e) => updateRackLabel(rack.id, e.target.value)}
                             className={`font-bold text-sm bg-transparent border-b border-transparent focus:border-gray-500 focus:outline-none w-full ${rack.type === 'MEZZANINE' ? 'text-silicon-teal' : 'text-white'}`}
                         />
-                        <span className="text-gray-500 mt-1">Pos: {rack.x.toFixed(2)}m, {rack.y.toFixed(2)}m</span>
+                        <span className="text-gray-500 mt-1">
+                            {rack.type === 'COLUMN' && 'Pilar • '}
+                            {rack.type === 'BEAM' && 'Viga • '}
+                            {rack.type === 'OBSTACLE' && `${OBSTACLE_PRESETS[obstacleKindOf(rack)].label} • `}
+                            Pos: {rack.x.toFixed(2)}m, {rack.y.toFixed(2)}m
+                            {rack.locked && <span className="text-gray-400"> • Fixo</span>}
+                            {!rack.locked && !isOnFloor(rack) && <span className="text-red-400"> • Fora do galpão</span>}
+                        </span>
+                        <span className="text-gray-500 mt-1 flex items-center gap-1">
+                            Giro:
+                            <input
+                                type="number"
+                                step="15"
+                                value={rotationOf(rack)}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={(e) => setRackRotation(rack.id, Number(e.target.value))}
+                                className="w-14 bg-transparent border-b border-gray-700 focus:border-gray-500 focus:outline-none text-gray-300 text-right"
+                            />°
+                            <button
+                                onClick={(e) => { e.stopPropagation(); setRackRotation(rack.id, rotationOf(rack) + 90); }}
+                                className="ml-1 text-gray-600 hover:text-white transition-colors"
+                                title="Girar 90°"
+                            >
+                                <RotateCw className="w-3 h-3" />
+                            </button>
+                        </span>
                       </div>
                       <div className="flex items-center gap-3">
                         <div className="flex flex-col items-end">
                             <span className="text-gray-300 font-mono">{rack.width}x{rack.depth}m</span>
-                            <span className={`${rack.type === 'MEZZANINE' ? 'text-silicon-teal' : 'text-silicon-orange'} text-[10px]`}>
-                                {rack.type === 'MEZZANINE' ? `Elev: ${rack.elevation}m` : `H: ${rack.height}m`}
+                            <span className={`${rack.type === 'MEZZANINE' ? 'text-silicon-teal' : (rack.locked ? 'text-gray-400' : 'text-silicon-orange')} text-[10px]`}>
+                                {rack.type === 'MEZZANINE' || (isBuildingElement(rack) && rack.elevation) ? `Elev: ${rack.elevation}m` : `H: ${rack.height}m`}
                             </span>
                         </div>
+                        {isBuildingElement(rack) && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); toggleLock(rack.id); }}
+                                className="text-gray-600 hover:text-white transition-colors"
+                                title={rack.locked ? 'Destravar para mover' : 'Travar posição'}
+                            >
+                                {rack.locked ? <Lock className="w-4 h-4" /> : <LockOpen className="w-4 h-4" />}
+                            </button>
+                        )}
                         <button 
-                            onClick={() => removeRack(rack.id)}
+                            onClick={(e) => { e.stopPropagation(); removeRack(rack.id); }}
                             className="text-gray-600 hover:text-red-500 transition-colors"
                         >
                             <Trash2 className="w-4 h-4" />
@@ -491,6 +867,8 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
               ))}
           </ul>
       </div>
+
+      <ValidationPanel data={data} issues={layoutIssues} onChange={setData} />
     </div>
   );
 
@@ -508,9 +886,76 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
         onChange={(e: any) => setData({ ...data, luxRequired: Number(e.target.value) })}
         placeholder="Ex: 300"
       />
+      <DarkInput
+        label="FATOR DE MANUTENÇÃO (0 - 1)"
+        value={data.lighting.maintenanceFactor}
+        onChange={(e: any) => setData({ ...data, lighting: { ...data.lighting, maintenanceFactor: Math.min(1, Number(e.target.value)) } })}
+        placeholder="Ex: 0.8"
+      />
+
+      {/* Auto-dimensioning */}
+      <div className="border-t border-gray-800 pt-6 space-y-4">
+          <div className="flex items-end gap-3">
+              <div className="w-32">
+                  <DarkInput
+                    label="UNIFORMIDADE MÍN."
+                    value={uniformityTarget}
+                    onChange={(e: any) => setUniformityTarget(Math.min(1, Number(e.target.value)))}
+                    placeholder="Ex: 0.4"
+                  />
+              </div>
+              <button
+                onClick={handleOptimize}
+                disabled={isOptimizing || data.ceilingHeight <= 0}
+                className="flex-1 h-[46px] flex items-center justify-center gap-2 rounded-lg text-sm font-bold text-white bg-silicon-sub-led hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Wand2 className="w-4 h-4" /> {isOptimizing ? 'Calculando...' : 'Auto-dimensionar'}
+              </button>
+          </div>
+          {data.ceilingHeight <= 0 && (
+              <p className="text-[10px] text-gray-500 italic">* Defina o pé direito na Etapa 1 para dimensionar.</p>
+          )}
+
+          {candidates && candidates.length === 0 && (
+              <p className="text-xs text-gray-400 italic bg-silicon-input border border-dashed border-gray-700 p-4 rounded-lg">
+                  Nenhuma solução atinge {data.luxRequired} lux com a luminária atual. Tente uma luminária mais potente.
+              </p>
+          )}
+          {candidates && candidates.length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                  {candidates.map((c, idx) => {
+                      const isApplied = c.lighting.orientation === data.lighting.orientation && c.lighting.mode === data.lighting.mode &&
+                          c.lighting.value === data.lighting.value && c.lighting.offset === data.lighting.offset &&
+                          c.lighting.fixturesPerProfile === data.lighting.fixturesPerProfile;
+                      return (
+                          <div key={idx} className={`bg-silicon-input p-3 rounded-lg border text-xs flex flex-col gap-1 ${isApplied ? 'border-silicon-teal' : 'border-gray-700'}`}>
+                              <p className="text-[10px] font-bold text-gray-500 uppercase">Opção {idx + 1}</p>
+                              <p className="text-white font-bold text-lg leading-none">{c.fixtureCount} <span className="text-[10px] text-gray-400 font-normal">lum.</span></p>
+                              <p className="text-gray-400">{c.profileCount} × {c.lighting.fixturesPerProfile} ({c.lighting.orientation === LightingOrientation.Longitudinal ? 'Long.' : 'Transv.'})</p>
+                              {c.lighting.mode === LightingMode.Distance && <p className="text-gray-400">Linhas a cada {String(c.lighting.value).replace('.', ',')} m</p>}
+                              <p className="text-gray-400">{(c.installedWatts / 1000).toFixed(1)} kW</p>
+                              <p className="text-silicon-yellow font-bold">{c.averageLux.toFixed(0)} lux</p>
+                              <p className={c.meetsUniformity ? 'text-silicon-teal' : 'text-red-400'}>U0 {c.uniformity.toFixed(2)}</p>
+                              <button
+                                onClick={() => applyCandidate(c)}
+                                className={`mt-1 py-1 rounded font-bold transition-colors ${isApplied ? 'bg-silicon-teal text-white' : 'bg-black/40 text-gray-300 hover:text-white border border-gray-700'}`}
+                              >
+                                {isApplied ? 'Aplicado' : 'Aplicar'}
+                              </button>
+                          </div>
+                      );
+                  })}
+              </div>
+          )}
+      </div>
     </div>
   );
 
+  const lightingLayout = computeLightingLayout(data);
+  // Point-by-point grid for the summary: recomputed only when the project changes
+  const isSummary = currentStep === totalSteps;
+  const illuminance = useMemo(() => (isSummary ? computeIlluminance(data) : null), [data, isSummary]);
+
   const renderSummary = () => (
     <div className="space-y-6">
         <div className="bg-silicon-input p-6 rounded-xl border border-gray-700 text-sm text-gray-300 space-y-4 shadow-2xl">
@@ -546,6 +991,7 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                 <div className="bg-black/50 p-3 rounded border border-gray-800">
                     <p className="text-xs text-gray-500 uppercase font-bold">Dimensões</p>
                     <p className="text-lg text-white font-semibold">{data.width}m x {data.length}m</p>
+                    {isPolygonalHall(data) && <p className="text-[10px] text-gray-500">Planta poligonal: {hallArea(data).toFixed(0)} m²</p>}
                 </div>
                 <div className="bg-black/50 p-3 rounded border border-gray-800">
                     <p className="text-xs text-gray-500 uppercase font-bold">Pé Direito</p>
@@ -564,6 +1010,11 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                         <p>Orientação: <span className="text-white">{data.lighting.orientation}</span></p>
                         <p>Modo: <span className="text-white">{data.lighting.mode === 'QUANTITY' ? 'Por Quantidade' : 'Por Distância'}</span></p>
                         <p>Valor: <span className="text-white">{data.lighting.value}</span> | Offset: <span className="text-white">{data.lighting.offset}m</span></p>
+                        <p>
+                            Perfilados: <span className="text-white">{lightingLayout.profiles.length}</span>
+                            {lightingLayout.profileSpacing > 0 && <> (a cada <span className="text-white">{lightingLayout.profileSpacing.toFixed(2)}m</span>)</>}
+                            {' '}| Luminárias: <span className="text-white">{lightingLayout.fixtures.length}</span>
+                        </p>
                         </>
                     ) : (
                         <p className="text-gray-500 italic">Sem perfilado (Nenhuma sugestão gerada).</p>
@@ -577,14 +1028,35 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                     <div className="space-y-1 pl-2 border-l border-silicon-orange/30">
                         <p>Racks: <span className="text-white">{data.storage.racks.filter(r => r.type === 'RACK').length}</span></p>
                         <p>Mezaninos: <span className="text-white">{data.storage.racks.filter(r => r.type === 'MEZZANINE').length}</span></p>
+                        {data.storage.racks.some(isBuildingElement) && (
+                            <p>Pilares / Vigas / Obstáculos: <span className="text-white">
+                                {data.storage.racks.filter(r => r.type === 'COLUMN').length} / {data.storage.racks.filter(r => r.type === 'BEAM').length} / {data.storage.racks.filter(r => r.type === 'OBSTACLE').length}
+                            </span></p>
+                        )}
                     </div>
                 </div>
             )}
             
             <div className="border-t border-gray-700 pt-4">
                 <p className="text-gray-400">Lux Alvo: <span className="text-silicon-yellow font-bold text-lg">{data.luxRequired} lux</span></p>
+                {illuminance ? (
+                    <div className="mt-3 space-y-1 pl-2 border-l border-silicon-yellow/30">
+                        <p>Iluminância Média (Grade): <span className="text-white font-bold">{illuminance.averageLux.toFixed(0)} lux</span></p>
+                        <p>Método dos Lúmens: <span className="text-white">{illuminance.lumenMethodLux.toFixed(0)} lux</span> <span className="text-gray-500">(K={illuminance.roomIndex.toFixed(2)}, FU={illuminance.utilizationFactor.toFixed(2)})</span></p>
+                        <p>Emin / Emax: <span className="text-white">{illuminance.minLux.toFixed(0)} / {illuminance.maxLux.toFixed(0)} lux</span></p>
+                        <p>Uniformidade (Emin/Emed): <span className="text-white">{illuminance.uniformity.toFixed(2)}</span></p>
+                        <p>Luminárias: <span className="text-white">{illuminance.fixtureCount}</span> | Potência: <span className="text-white">{(illuminance.installedWatts / 1000).toFixed(1)} kW</span></p>
+                        <p className={`font-bold ${illuminance.passes ? 'text-silicon-teal' : 'text-red-500'}`}>
+                            {illuminance.passes ? '✓ Atende ao requisito' : '✗ Não atende ao requisito'}
+                        </p>
+                    </div>
+                ) : (
+                    <p className="text-gray-500 italic text-xs mt-2">Defina pé direito, perfilados e luminárias para calcular a iluminância.</p>
+                )}
             </div>
 
+            <BomPanel data={data} />
+
             <div className="border-t border-gray-700 pt-4">
                 <p className="font-semibold text-gray-400 mb-2 uppercase text-xs tracking-wider">Observações</p>
                 <textarea
@@ -595,17 +1067,57 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                 />
             </div>
         </div>
+        {/* PDF REPORT OPTIONS */}
+        <div className="flex gap-2">
+            <div className="flex flex-1 bg-black/40 rounded-lg p-1 border border-gray-700">
+                {(['A4', 'A3'] as PaperSize[]).map(paper => (
+                    <button
+                        key={paper}
+                        onClick={() => setReportPaper(paper)}
+                        className={`flex-1 py-1 text-xs font-bold rounded transition-colors ${reportPaper === paper ? 'bg-silicon-orange text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {paper}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-1 bg-black/40 rounded-lg p-1 border border-gray-700">
+                {([['portrait', 'Retrato'], ['landscape', 'Paisagem']] as [PaperOrientation, string][]).map(([orientation, label]) => (
+                    <button
+                        key={orientation}
+                        onClick={() => setReportOrientation(orientation)}
+                        className={`flex-1 py-1 text-xs font-bold rounded transition-colors ${reportOrientation === orientation ? 'bg-silicon-orange text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+        </div>
         <button
-            onClick={handleDownload}
+            onClick={handleDownloadPdf}
             className="w-full flex justify-center items-center gap-2 py-4 px-6 rounded-lg shadow-lg text-sm font-bold text-white bg-silicon-gradient hover:opacity-90 transition-opacity transform active:scale-[0.99]"
         >
-            <Download className="w-5 h-5" /> BAIXAR IMAGEM + RESUMO
+            <FileDown className="w-5 h-5" /> BAIXAR RELATÓRIO PDF
         </button>
+        <div className="flex gap-2">
+            <button
+                onClick={handleDownload}
+                className="flex-1 flex justify-center items-center gap-2 py-2 px-4 rounded-lg border border-gray-700 text-xs font-bold text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+            >
+                <Download className="w-4 h-4" /> Imagem (PNG)
+            </button>
+            <button
+                onClick={handleDownloadDxf}
+                disabled={data.width <= 0 || data.length <= 0}
+                className="flex-1 flex justify-center items-center gap-2 py-2 px-4 rounded-lg border border-gray-700 text-xs font-bold text-gray-400 hover:text-white hover:border-gray-500 transition-colors disabled:opacity-40"
+            >
+                <PenTool className="w-4 h-4" /> Planta CAD (DXF)
+            </button>
+        </div>
     </div>
   );
   
-  // Decide View Mode based on Step
-  const canvasViewMode = currentStep === 1 ? '3D' : (currentStep === 5 ? summaryViewMode : '2D');
+  // Decide View Mode based on Step (a polygonal hall is edited on the plan: its vertices are dragged in 2D)
+  const canvasViewMode = currentStep === 1 ? (isPolygonalHall(data) ? '2D' : '3D') : (currentStep === 5 ? summaryViewMode : '2D');
 
   return (
     <div className="min-h-screen flex flex-col lg:flex-row overflow-hidden bg-silicon-dark font-sans">
@@ -621,6 +1133,49 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
             >
                 <ChevronLeft size={20} />
             </button>
+            {/* Undo / Redo + Save / Open */}
+            <div className="absolute top-4 right-4 z-20 flex items-center gap-3">
+                <button
+                    onClick={history.undo}
+                    disabled={!history.canUndo}
+                    className="text-white/80 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed flex items-center gap-1"
+                    title="Desfazer (Ctrl+Z)"
+                >
+                    <Undo2 size={18} />
+                    <span className="text-[10px] font-bold font-mono">{history.undoCount}</span>
+                </button>
+                <button
+                    onClick={history.redo}
+                    disabled={!history.canRedo}
+                    className="text-white/80 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed flex items-center gap-1"
+                    title="Refazer (Ctrl+Shift+Z)"
+                >
+                    <Redo2 size={18} />
+                    <span className="text-[10px] font-bold font-mono">{history.redoCount}</span>
+                </button>
+                <div className="w-px h-4 bg-white/30"></div>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-white/80 hover:text-white transition-colors"
+                    title="Abrir Projeto"
+                >
+                    <FolderOpen size={18} />
+                </button>
+                <button
+                    onClick={handleSaveFile}
+                    className="text-white/80 hover:text-white transition-colors"
+                    title="Salvar Projeto"
+                >
+                    <Save size={18} />
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                    onChange={handleOpenFile}
+                    className="hidden"
+                />
+            </div>
             <div className="absolute top-0 right-0 w-32 h-32 bg-white opacity-10 rounded-full blur-2xl transform translate-x-10 -translate-y-10"></div>
             <div className="relative z-10 pt-4">
                 <h1 className="text-3xl font-bold flex items-center gap-2 text-white tracking-tight">
@@ -628,10 +1183,25 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                     Schema
                 </h1>
                 <p className="text-white/80 text-xs mt-1 font-medium tracking-widest uppercase">Industrial Builder</p>
+                {saveError ? (
+                    <p className="text-white text-[10px] mt-1 font-bold">Falha ao salvar localmente: {saveError}</p>
+                ) : lastSavedAt && (
+                    <p className="text-white/60 text-[10px] mt-1">Salvo localmente às {new Date(lastSavedAt).toLocaleTimeString()}</p>
+                )}
             </div>
         </div>
         
         <div className="flex-1 overflow-y-auto p-8 custom-scrollbar">
+           {/* File Error */}
+           {fileError && (
+             <div className="mb-6 p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-red-300 text-xs flex justify-between items-start gap-3">
+                <span><strong className="text-red-400">Erro ao abrir projeto:</strong> {fileError}</span>
+                <button onClick={() => setFileError(null)} className="text-red-400 hover:text-white transition-colors">
+                    <X size={14} />
+                </button>
+             </div>
+           )}
+
            {/* Progress Indicator */}
            {currentStep <= totalSteps ? (
              <div className="mb-8">
@@ -706,6 +1276,15 @@ export default function IndustrialApp({ onBack }: IndustrialAppProps) {
                 isInteractive={currentStep === 3}
                 viewMode={canvasViewMode}
                 onRackMove={handleRackMove}
+                onRacksMove={handleRacksMove}
+                onDuplicate={handleDuplicate}
+                onVertexMove={currentStep === 1 && isPolygonalHall(data) ? handleVertexMove : undefined}
+                issueIds={currentStep === 3 ? issueIds : undefined}
+                snap={snap}
+                selectedIds={selectedIds}
+                onSelectionChange={setSelectedIds}
+                onDragStart={() => { history.beginBatch(); setIsDragging(true); }}
+                onDragEnd={() => { history.endBatch(); setIsDragging(false); }}
             />
         </div>
       </div>
@@ -0,0 +1,40 @@
+import React, { useState, useEffect } from 'react';
+
+interface NumberFieldProps {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+    step?: number;
+    disabled?: boolean;
+}
+
+// Compact labeled number input for the side panels. Keeps what is being typed (an empty field,
+// "-", "1.") until it parses; leaving the field shows the current value again.
+export default function NumberField({ label, value, onChange, step = 0.1, disabled = false }: NumberFieldProps) {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+      if (Number(text) !== value) setText(String(value));
+  }, [value]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const next = e.target.value;
+      setText(next);
+      if (next.trim() !== '' && Number.isFinite(Number(next))) onChange(Number(next));
+  };
+
+  return (
+    <label className="flex flex-col gap-1 text-gray-500">
+        {label}
+        <input
+            type="number"
+            step={step}
+            value={text}
+            disabled={disabled}
+            onChange={handleChange}
+            onBlur={() => setText(String(value))}
+            className="w-full rounded bg-black/40 border border-gray-700 text-white text-right px-2 py-1 focus:border-silicon-orange focus:outline-none disabled:opacity-50"
+        />
+    </label>
+  );
+}
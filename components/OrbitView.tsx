@@ -0,0 +1,223 @@
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { ProjectData, SportsProjectData } from '../types';
+import { Scene3D, VERTEX_FLOATS, buildScene3D } from '../utils/scene3d';
+import { OrbitCamera, CameraPreset, CAMERA_PRESETS, presetCamera, orbit, zoom, pan, viewProjection } from '../utils/orbitCamera';
+
+interface OrbitViewProps {
+    data: ProjectData | SportsProjectData;
+    mode: 'INDUSTRIAL' | 'SPORTS';
+    width: number;
+    height: number;
+    onUnavailable: () => void; // No WebGL (or context lost): the caller falls back to the isometric drawing
+}
+
+const ORBIT_SPEED = 0.008; // Radians per pixel
+const ZOOM_STEP = 1.1;
+
+const VERTEX_SHADER = `
+attribute vec3 aPosition;
+attribute vec3 aNormal;
+attribute vec4 aColor;
+attribute float aEmissive;
+uniform mat4 uViewProjection;
+varying vec4 vColor;
+void main() {
+  gl_Position = uViewProjection * vec4(aPosition, 1.0);
+  vec3 light = normalize(vec3(0.4, 1.0, 0.6));
+  float diffuse = abs(dot(aNormal, light)); // Two-sided: walls are seen from both sides
+  float shade = aEmissive > 0.5 ? 1.0 : 0.45 + 0.55 * diffuse;
+  vColor = vec4(aColor.rgb * shade, aColor.a);
+}`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+varying vec4 vColor;
+void main() {
+  gl_FragColor = vColor;
+}`;
+
+interface GlState {
+  gl: WebGLRenderingContext;
+  program: WebGLProgram;
+  buffers: Record<'opaque' | 'transparent' | 'lines', { buffer: WebGLBuffer; count: number }>;
+}
+
+const compile = (gl: WebGLRenderingContext, type: number, source: string): WebGLShader | null => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  return gl.getShaderParameter(shader, gl.COMPILE_STATUS) ? shader : null;
+};
+
+const initGl = (canvas: HTMLCanvasElement): GlState | null => {
+  const gl = canvas.getContext('webgl', { antialias: true, preserveDrawingBuffer: true });
+  if (!gl) return null;
+  const vs = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fs = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vs || !fs || !program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) return null;
+  // Flagged only: freed together with the program
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+  const makeBuffer = () => ({ buffer: gl.createBuffer()!, count: 0 });
+  return { gl, program, buffers: { opaque: makeBuffer(), transparent: makeBuffer(), lines: makeBuffer() } };
+};
+
+// Frees the GPU objects. The context itself goes only once the canvas has left the page (browsers
+// cap the live WebGL contexts, and every 2D ↔ 3D toggle mounts a new canvas); a canvas still
+// attached is being set up again (StrictMode re-runs effects) and keeps its context.
+const release = (state: GlState, canvas: HTMLCanvasElement) => {
+  const { gl, program, buffers } = state;
+  Object.values(buffers).forEach(({ buffer }) => gl.deleteBuffer(buffer));
+  gl.deleteProgram(program);
+  setTimeout(() => {
+    if (!canvas.isConnected) gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }, 0);
+};
+
+const upload = (state: GlState, scene: Scene3D) => {
+  const { gl, buffers } = state;
+  (['opaque', 'transparent', 'lines'] as const).forEach(key => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffers[key].buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, scene[key], gl.STATIC_DRAW);
+    buffers[key].count = scene[key].length / VERTEX_FLOATS;
+  });
+};
+
+const draw = (state: GlState, camera: OrbitCamera, scene: Scene3D) => {
+  const { gl, program, buffers } = state;
+  gl.viewport(0, 0, gl.drawingBufferWidth, gl.drawingBufferHeight);
+  gl.clearColor(10 / 255, 10 / 255, 10 / 255, 1);
+  gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+  gl.useProgram(program);
+  gl.uniformMatrix4fv(
+      gl.getUniformLocation(program, 'uViewProjection'), false,
+      viewProjection(camera, gl.drawingBufferWidth / gl.drawingBufferHeight, scene.bounds)
+  );
+
+  const stride = VERTEX_FLOATS * 4;
+  const attributes: [string, number, number][] = [['aPosition', 3, 0], ['aNormal', 3, 12], ['aColor', 4, 24], ['aEmissive', 1, 40]];
+  const drawBatch = (key: keyof GlState['buffers'], primitive: number) => {
+      const { buffer, count } = buffers[key];
+      if (count === 0) return;
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      attributes.forEach(([name, size, offset]) => {
+          const location = gl.getAttribLocation(program, name);
+          gl.enableVertexAttribArray(location);
+          gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset);
+      });
+      gl.drawArrays(primitive, 0, count);
+  };
+
+  gl.enable(gl.DEPTH_TEST);
+  gl.disable(gl.CULL_FACE);
+  gl.disable(gl.BLEND);
+  drawBatch('opaque', gl.TRIANGLES);
+  drawBatch('lines', gl.LINES);
+  // See-through surfaces last, tested against the depth of the solids but not hiding each other
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+  gl.depthMask(false);
+  drawBatch('transparent', gl.TRIANGLES);
+  gl.depthMask(true);
+};
+
+// Perspective 3D viewport: drag to orbit, right button (or Shift) + drag to pan, wheel to zoom
+export default function OrbitView({ data, mode, width, height, onUnavailable }: OrbitViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const glRef = useRef<GlState | null>(null);
+  const dragRef = useRef<{ x: number, y: number, panning: boolean } | null>(null);
+
+  const scene = useMemo(() => buildScene3D(data, mode), [data, mode]);
+  const [preset, setPreset] = useState<CameraPreset>('ISO');
+  const [camera, setCamera] = useState<OrbitCamera>(() => presetCamera('ISO', scene.bounds));
+
+  useEffect(() => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    const state = initGl(canvas);
+    if (!state) { onUnavailable(); return; }
+    glRef.current = state;
+    const handleLost = (e: Event) => { e.preventDefault(); glRef.current = null; onUnavailable(); };
+    canvas.addEventListener('webglcontextlost', handleLost);
+    return () => {
+      // Listener first: losing the context on purpose is not a fallback
+      canvas.removeEventListener('webglcontextlost', handleLost);
+      if (glRef.current) release(glRef.current, canvas);
+      glRef.current = null;
+    };
+  }, []);
+
+  // New scene extents (hall resized, objects out of the old box): frame them again from the current preset
+  const { min, max } = scene.bounds;
+  const boundsKey = [...min, ...max].join(',');
+  useEffect(() => {
+    setCamera(presetCamera(preset, scene.bounds));
+  }, [boundsKey]);
+
+  useEffect(() => {
+    if (glRef.current) upload(glRef.current, scene);
+  }, [scene]);
+
+  useEffect(() => {
+    if (glRef.current) draw(glRef.current, camera, scene);
+  }, [scene, camera, width, height]);
+
+  const applyPreset = (next: CameraPreset) => {
+      setPreset(next);
+      setCamera(presetCamera(next, scene.bounds));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+      dragRef.current = { x: e.clientX, y: e.clientY, panning: e.button === 2 || e.shiftKey };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+      const drag = dragRef.current; if (!drag) return;
+      const canvas = canvasRef.current; if (!canvas) return;
+      // Screen pixels → canvas pixels (the canvas is scaled down to fit its panel)
+      const ratio = canvas.width / canvas.getBoundingClientRect().width;
+      const dx = (e.clientX - drag.x) * ratio, dy = (e.clientY - drag.y) * ratio;
+      dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+      setCamera(c => (drag.panning ? pan(c, dx, dy, canvas.height) : orbit(c, -dx * ORBIT_SPEED, dy * ORBIT_SPEED)));
+  };
+
+  const handleMouseUp = () => { dragRef.current = null; };
+
+  const handleWheel = (e: React.WheelEvent) => {
+      setCamera(c => zoom(c, e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, scene.bounds));
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseUp}
+        onWheel={handleWheel}
+        onContextMenu={(e) => e.preventDefault()}
+        className="max-w-full h-auto cursor-grab active:cursor-grabbing"
+      />
+      <div className="absolute bottom-4 left-4 flex items-center gap-2">
+          {CAMERA_PRESETS.map(p => (
+              <button
+                  key={p.id}
+                  onClick={() => applyPreset(p.id)}
+                  className={`px-3 py-1 rounded-full text-[10px] font-bold transition-colors ${preset === p.id ? 'bg-silicon-orange text-white' : 'bg-gray-800/80 text-white hover:bg-gray-700'}`}
+              >
+                  {p.label}
+              </button>
+          ))}
+          <span className="text-[10px] text-gray-400 ml-2">Arraste: girar • Botão direito / Shift: mover • Roda: zoom</span>
+      </div>
+    </>
+  );
+}
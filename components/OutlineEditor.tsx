@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Shapes } from 'lucide-react';
+import { ProjectData, FloorPoint } from '../types';
+import { withHallOutline, presetOutline, OutlinePreset, hallArea, isPolygonalHall } from '../utils/floorPlan';
+
+interface OutlineEditorProps {
+    data: ProjectData;
+    onChange: (next: ProjectData) => void;
+}
+
+const PRESETS: { id: OutlinePreset; label: string }[] = [
+    { id: 'RECTANGLE', label: 'Retângulo' },
+    { id: 'L_SHAPE', label: 'Forma em L' },
+    { id: 'CUT_CORNER', label: 'Canto Chanfrado' },
+];
+
+// Vertex coordinate: committed on blur / Enter, since the outline is re-normalized on every change
+const CoordInput = ({ value, onCommit }: { value: number; onCommit: (v: number) => void }) => {
+  const [text, setText] = useState(String(value).replace('.', ','));
+
+  useEffect(() => { setText(String(value).replace('.', ',')); }, [value]);
+
+  const commit = () => {
+      const parsed = parseFloat(text.replace(',', '.'));
+      if (isNaN(parsed) || parsed === value) setText(String(value).replace('.', ','));
+      else onCommit(parsed);
+  };
+
+  return (
+      <input
+        type="text"
+        inputMode="decimal"
+        value={text}
+        onChange={(e) => { if (/^-?[\d.,]*$/.test(e.target.value)) setText(e.target.value); }}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        className="w-full rounded bg-black/40 border border-gray-700 text-white text-right px-2 py-1 focus:border-silicon-orange focus:outline-none"
+      />
+  );
+};
+
+// Step 1: polygonal floor (L-shapes, cut corners) with editable vertices
+export default function OutlineEditor({ data, onChange }: OutlineEditorProps) {
+  const isActive = isPolygonalHall(data);
+  const canEnable = data.width > 0 && data.length > 0;
+  const points = data.outline || [];
+
+  const setPoints = (next: FloorPoint[]) => onChange(withHallOutline(data, next));
+
+  const toggle = (enabled: boolean) => {
+      if (enabled) setPoints(presetOutline('RECTANGLE', data.width, data.length));
+      else onChange({ ...data, outline: undefined });
+  };
+
+  const updatePoint = (index: number, key: 'x' | 'y', value: number) =>
+      setPoints(points.map((p, i) => (i === index ? { ...p, [key]: value } : p)));
+
+  // New vertex halfway to the next one, ready to be dragged
+  const insertAfter = (index: number) => {
+      const a = points[index], b = points[(index + 1) % points.length];
+      setPoints([...points.slice(0, index + 1), { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, ...points.slice(index + 1)]);
+  };
+
+  const removePoint = (index: number) => setPoints(points.filter((_, i) => i !== index));
+
+  return (
+    <div className="p-3 bg-silicon-input rounded-lg border border-gray-700 space-y-3">
+        <div className="flex items-center gap-3">
+            <input
+                type="checkbox"
+                id="polygonalHall"
+                checked={isActive}
+                disabled={!canEnable}
+                onChange={(e) => toggle(e.target.checked)}
+                className="h-5 w-5 text-silicon-orange focus:ring-silicon-orange bg-black border-gray-600 rounded cursor-pointer disabled:opacity-40"
+            />
+            <label htmlFor="polygonalHall" className="text-sm font-medium text-white cursor-pointer select-none flex items-center gap-2">
+                <Shapes size={14} className="text-silicon-orange" /> Planta não retangular
+            </label>
+        </div>
+
+        {isActive && (
+            <div className="space-y-3 text-xs animate-fade-in">
+                <div className="flex gap-1">
+                    {PRESETS.map(preset => (
+                        <button
+                            key={preset.id}
+                            onClick={() => setPoints(presetOutline(preset.id, data.width, data.length))}
+                            className="flex-1 py-1.5 rounded border border-gray-700 text-gray-400 hover:text-white hover:border-silicon-orange transition-colors"
+                        >
+                            {preset.label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="space-y-1 max-h-60 overflow-y-auto custom-scrollbar pr-1">
+                    <div className="grid grid-cols-[1.5rem_1fr_1fr_3.5rem] gap-2 text-gray-500 font-semibold">
+                        <span>#</span><span>X (m)</span><span>Y (m)</span><span />
+                    </div>
+                    {points.map((p, i) => (
+                        <div key={i} className="grid grid-cols-[1.5rem_1fr_1fr_3.5rem] gap-2 items-center">
+                            <span className="text-gray-500 font-mono">{i + 1}</span>
+                            <CoordInput value={p.x} onCommit={(v) => updatePoint(i, 'x', v)} />
+                            <CoordInput value={p.y} onCommit={(v) => updatePoint(i, 'y', v)} />
+                            <div className="flex justify-end gap-1">
+                                <button onClick={() => insertAfter(i)} className="text-gray-500 hover:text-silicon-teal transition-colors" title="Inserir vértice após">
+                                    <Plus size={14} />
+                                </button>
+                                <button
+                                    onClick={() => removePoint(i)}
+                                    disabled={points.length <= 3}
+                                    className="text-gray-500 hover:text-red-500 transition-colors disabled:opacity-30"
+                                    title="Remover vértice"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <p className="text-gray-500">
+                    Área: <span className="text-white font-bold">{hallArea(data).toFixed(2)} m²</span> — arraste os vértices na planta para ajustar.
+                </p>
+            </div>
+        )}
+    </div>
+  );
+}
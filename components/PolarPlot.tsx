@@ -0,0 +1,63 @@
+
+import React from 'react';
+import { Photometry } from '../types';
+import { candelaAt } from '../utils/photometry';
+import { PALLET_STROKE, MEZZANINE_STROKE } from '../constants';
+
+interface PolarPlotProps {
+    photometry: Photometry;
+    size?: number;
+}
+
+// Classic polar intensity diagram: C0-C180 and C90-C270 half-planes, nadir pointing down
+export default function PolarPlot({ photometry, size = 220 }: PolarPlotProps) {
+  const center = size / 2;
+  const radius = size / 2 - 16;
+
+  let peak = 0;
+  for (let g = 0; g <= 180; g += 2) {
+      peak = Math.max(peak, candelaAt(photometry, g, 0), candelaAt(photometry, g, 90), candelaAt(photometry, g, 180), candelaAt(photometry, g, 270));
+  }
+  const scale = peak > 0 ? radius / peak : 0;
+
+  // Right half plots plane cA, left half plots the opposite plane cB
+  const curve = (cA: number, cB: number) => {
+      const points: string[] = [];
+      for (let g = 0; g <= 180; g += 2) {
+          const r = candelaAt(photometry, g, cA) * scale;
+          const a = g * Math.PI / 180;
+          points.push(`${center + r * Math.sin(a)},${center + r * Math.cos(a)}`);
+      }
+      for (let g = 180; g >= 0; g -= 2) {
+          const r = candelaAt(photometry, g, cB) * scale;
+          const a = g * Math.PI / 180;
+          points.push(`${center - r * Math.sin(a)},${center + r * Math.cos(a)}`);
+      }
+      return points.join(' ');
+  };
+
+  const rings = [0.25, 0.5, 0.75, 1];
+  const spokes = [0, 30, 60, 90, 120, 150];
+
+  return (
+    <div className="flex flex-col items-center">
+        <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`}>
+            {rings.map(f => (
+                <circle key={f} cx={center} cy={center} r={radius * f} fill="none" stroke="#374151" strokeWidth={0.5} />
+            ))}
+            {spokes.map(a => {
+                const rad = a * Math.PI / 180;
+                return <line key={a} x1={center - radius * Math.sin(rad)} y1={center - radius * Math.cos(rad)} x2={center + radius * Math.sin(rad)} y2={center + radius * Math.cos(rad)} stroke="#374151" strokeWidth={0.5} />;
+            })}
+            <polyline points={curve(0, 180)} fill="rgba(240, 50, 0, 0.15)" stroke={PALLET_STROKE} strokeWidth={1.5} />
+            <polyline points={curve(90, 270)} fill="rgba(66, 192, 181, 0.15)" stroke={MEZZANINE_STROKE} strokeWidth={1.5} strokeDasharray="4 2" />
+            <text x={center + 4} y={center + radius * 0.5 - 2} fill="#9ca3af" fontSize={8}>{(peak * 0.5).toFixed(0)} cd</text>
+            <text x={center + 4} y={center + radius - 2} fill="#9ca3af" fontSize={8}>{peak.toFixed(0)} cd</text>
+        </svg>
+        <div className="flex gap-4 text-[10px] mt-1">
+            <span className="text-silicon-orange font-bold">— C0-C180</span>
+            <span className="text-silicon-teal font-bold">- - C90-C270</span>
+        </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { FlipVertical } from 'lucide-react';
+import { SportsProjectData } from '../types';
+import { PoleCount, PoleLayoutOptions, POLE_COUNTS, suggestedPoleLayout, generatePoleLayout } from '../utils/poleLayout';
+import { fieldTemplateLabel } from '../utils/fieldTemplates';
+import NumberField from './NumberField';
+
+interface PoleLayoutPanelProps {
+    data: SportsProjectData;
+    onChange: (next: SportsProjectData) => void;
+}
+
+// Step 2: symmetric poles along both sidelines, sized from the field template and lighting class
+export default function PoleLayoutPanel({ data, onChange }: PoleLayoutPanelProps) {
+  const [options, setOptions] = useState<PoleLayoutOptions>(() => suggestedPoleLayout(data));
+  const [message, setMessage] = useState<string | null>(null);
+
+  // A new field size, sport or class brings a new suggestion
+  useEffect(() => {
+      setOptions(prev => suggestedPoleLayout(data, prev.count));
+  }, [data.width, data.length, data.template, data.floodlighting.lightingClass]);
+
+  const set = (patch: Partial<PoleLayoutOptions>) => { setOptions({ ...options, ...patch }); setMessage(null); };
+  const valid = options.height > 0 && options.diameter > 0 && options.setback >= 0 && data.width > 0 && data.length > 0;
+
+  // Replaces the current poles; coverings stay
+  const generate = () => {
+      const poles = generatePoleLayout(data, options);
+      onChange({ ...data, objects: [...data.objects.filter(o => o.type !== 'POST'), ...poles] });
+      setMessage(`${poles.length} postes gerados em ${poles.length / 2} pares espelhados.`);
+  };
+
+  return (
+    <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700 space-y-3 text-xs">
+        <div className="flex justify-between items-center">
+            <span className="font-bold uppercase tracking-widest text-silicon-teal flex items-center gap-2">
+                <FlipVertical size={14} /> Layout Simétrico
+            </span>
+            <span className="text-gray-500">{fieldTemplateLabel(data)} • Classe {data.floodlighting.lightingClass}</span>
+        </div>
+        <div className="flex bg-black/40 rounded-lg p-1 border border-gray-700">
+            {POLE_COUNTS.map(count => (
+                <button
+                    key={count}
+                    onClick={() => set({ count: count as PoleCount })}
+                    className={`flex-1 py-1 font-bold rounded transition-colors ${options.count === count ? 'bg-silicon-teal text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                    {count} postes
+                </button>
+            ))}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+            <NumberField label="Recuo lateral (m)" value={options.setback} onChange={(v) => set({ setback: v })} />
+            <NumberField label="Altura (m)" value={options.height} step={0.5} onChange={(v) => set({ height: v })} />
+            <NumberField label="Diâmetro (m)" value={options.diameter} step={0.05} onChange={(v) => set({ diameter: v })} />
+        </div>
+        <div className="flex gap-2">
+            <button
+                onClick={() => { setOptions(suggestedPoleLayout(data, options.count)); setMessage(null); }}
+                className="flex-1 py-2 rounded-lg border border-gray-700 text-gray-400 hover:text-white hover:border-silicon-teal transition-colors"
+            >
+                Sugerido
+            </button>
+            <button
+                onClick={generate}
+                disabled={!valid}
+                className="flex-1 py-2 rounded-lg font-bold text-white bg-silicon-teal hover:bg-teal-600 transition-colors disabled:opacity-40"
+            >
+                Gerar Postes
+            </button>
+        </div>
+        {message && <p className="text-silicon-teal">{message}</p>}
+        <p className="text-gray-500 italic">* Substitui os postes atuais. Cada par fica espelhado: mover, alterar a altura ou mirar um poste ajusta o outro.</p>
+    </div>
+  );
+}
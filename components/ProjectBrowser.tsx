@@ -0,0 +1,143 @@
+
+import React, { useState, useEffect } from 'react';
+import { Copy, Pencil, Trash2, FolderOpen, Check, X, Warehouse } from 'lucide-react';
+import {
+  LibraryEntry,
+  listProjects,
+  deleteProject,
+  renameProject,
+  duplicateProject
+} from '../utils/projectLibrary';
+
+interface ProjectBrowserProps {
+    onOpen: (id: string) => void;
+}
+
+export default function ProjectBrowser({ onOpen }: ProjectBrowserProps) {
+  const [projects, setProjects] = useState<LibraryEntry[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null); // Failed rename / duplicate / delete
+
+  const refresh = () => {
+      listProjects()
+        .then(setProjects)
+        .catch(() => setError('Armazenamento local indisponível neste navegador.'));
+  };
+
+  useEffect(refresh, []);
+
+  const startRename = (entry: LibraryEntry) => {
+      setRenamingId(entry.id);
+      setRenameValue(entry.name);
+  };
+
+  const failureMessage = (action: string, err: unknown) =>
+      `Não foi possível ${action} o projeto: ${err instanceof Error ? err.message : 'erro no armazenamento local.'}`;
+
+  const confirmRename = async () => {
+      try {
+          if (renamingId && renameValue.trim()) {
+              await renameProject(renamingId, renameValue.trim());
+          }
+          setActionError(null);
+      } catch (err) {
+          setActionError(failureMessage('renomear', err));
+      }
+      setRenamingId(null);
+      refresh();
+  };
+
+  const handleDuplicate = async (id: string) => {
+      try {
+          await duplicateProject(id);
+          setActionError(null);
+      } catch (err) {
+          setActionError(failureMessage('duplicar', err));
+      }
+      refresh();
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+      if (!window.confirm(`Excluir o projeto "${entry.name}"? Esta ação não pode ser desfeita.`)) return;
+      try {
+          await deleteProject(entry.id);
+          setActionError(null);
+      } catch (err) {
+          setActionError(failureMessage('excluir', err));
+      }
+      refresh();
+  };
+
+  if (error) {
+      return <p className="text-xs text-gray-600 text-center">{error}</p>;
+  }
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-4xl mt-16">
+        <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xs font-bold text-gray-500 uppercase tracking-widest">Projetos Salvos ({projects.length})</h3>
+        </div>
+
+        {actionError && (
+            <div className="mb-4 p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-red-300 text-xs flex justify-between items-start gap-3">
+                <span>{actionError}</span>
+                <button onClick={() => setActionError(null)} className="text-red-400 hover:text-white transition-colors">
+                    <X size={14} />
+                </button>
+            </div>
+        )}
+
+        <ul className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            {projects.map(entry => (
+                <li key={entry.id} className="group bg-silicon-surface border border-gray-800 rounded-2xl overflow-hidden hover:border-silicon-orange/50 transition-colors">
+                    <button
+                        onClick={() => onOpen(entry.id)}
+                        className="block w-full aspect-[16/10] bg-white relative"
+                        title="Abrir Projeto"
+                    >
+                        {entry.thumbnail ? (
+                            <img src={entry.thumbnail} alt={entry.name} className="w-full h-full object-contain" />
+                        ) : (
+                            <Warehouse className="w-10 h-10 text-gray-300 absolute inset-0 m-auto" />
+                        )}
+                        <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                            <FolderOpen className="text-white" />
+                        </div>
+                    </button>
+
+                    <div className="p-4">
+                        {renamingId === entry.id ? (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    autoFocus
+                                    value={renameValue}
+                                    onChange={(e) => setRenameValue(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') confirmRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                                    className="flex-1 min-w-0 bg-silicon-input border border-gray-700 rounded px-2 py-1 text-sm text-white focus:border-silicon-orange focus:outline-none"
+                                />
+                                <button onClick={confirmRename} className="text-silicon-teal hover:text-white"><Check size={14} /></button>
+                                <button onClick={() => setRenamingId(null)} className="text-gray-500 hover:text-white"><X size={14} /></button>
+                            </div>
+                        ) : (
+                            <p className="text-white font-bold text-sm truncate">{entry.name || 'Sem Título'}</p>
+                        )}
+                        <p className="text-gray-500 text-xs mt-1">{entry.width}m x {entry.length}m</p>
+                        <div className="flex justify-between items-center mt-3">
+                            <span className="text-gray-600 text-[10px]">{new Date(entry.updatedAt).toLocaleString()}</span>
+                            <div className="flex gap-3 text-gray-500">
+                                <button onClick={() => startRename(entry)} className="hover:text-white transition-colors" title="Renomear"><Pencil size={14} /></button>
+                                <button onClick={() => handleDuplicate(entry.id)} className="hover:text-white transition-colors" title="Duplicar"><Copy size={14} /></button>
+                                <button onClick={() => handleDelete(entry)} className="hover:text-red-500 transition-colors" title="Excluir"><Trash2 size={14} /></button>
+                            </div>
+                        </div>
+                    </div>
+                </li>
+            ))}
+        </ul>
+    </div>
+  );
+}
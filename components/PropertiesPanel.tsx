@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { ProjectData, RackBlock } from '../types';
+import { isBuildingElement, obstacleKindOf, OBSTACLE_PRESETS } from '../utils/buildingElements';
+import { footprintBounds, unionBounds } from '../utils/footprint';
+import NumberField from './NumberField';
+
+interface PropertiesPanelProps {
+    data: ProjectData;
+    selectedIds: string[]; // Shared with the canvas selection
+    onChange: (next: ProjectData) => void;
+}
+
+type XReference = 'LEFT' | 'RIGHT';
+type YReference = 'TOP' | 'BOTTOM';
+
+const PLACED_TYPES: { id: RackBlock['type']; label: string }[] = [
+    { id: 'RACK', label: 'Rack / Porta-palete' },
+    { id: 'MEZZANINE', label: 'Mezanino' },
+];
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+const elementLabel = (obj: RackBlock): string =>
+    obj.type === 'COLUMN' ? 'Pilar' : obj.type === 'BEAM' ? 'Viga' : OBSTACLE_PRESETS[obstacleKindOf(obj)].label;
+
+// Step 3: exact position (from either wall) and size of the selected objects. Positions use the
+// bounding box, as the dimensions drawn while dragging; a selection moves as a whole.
+export default function PropertiesPanel({ data, selectedIds, onChange }: PropertiesPanelProps) {
+  const [xRef, setXRef] = useState<XReference>('LEFT');
+  const [yRef, setYRef] = useState<YReference>('TOP');
+
+  const selected = data.storage.racks.filter(r => selectedIds.includes(r.id));
+  const single = selected.length === 1 ? selected[0] : null;
+
+  const setRacks = (update: (r: RackBlock) => RackBlock) => onChange({
+      ...data,
+      storage: { ...data.storage, racks: data.storage.racks.map(r => (selectedIds.includes(r.id) ? update(r) : r)) },
+  });
+
+  if (selected.length === 0) {
+      return (
+        <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700 space-y-2 text-xs">
+            <div className="text-xs font-bold uppercase tracking-widest text-silicon-orange flex items-center gap-2">
+                <SlidersHorizontal size={14} /> Propriedades
+            </div>
+            <p className="text-gray-500 italic">Selecione um objeto na planta ou na lista para editar suas medidas.</p>
+        </div>
+      );
+  }
+
+  const box = unionBounds(selected.map(footprintBounds));
+  const xValue = xRef === 'LEFT' ? box.x : data.width - box.x - box.width;
+  const yValue = yRef === 'TOP' ? box.y : data.length - box.y - box.depth;
+
+  // Fixed building elements stay put; the box stays between the walls
+  const isLocked = selected.some(r => r.locked);
+  const clampTo = (v: number, size: number, room: number) => (size <= room ? Math.max(0, Math.min(v, room - size)) : v);
+
+  const setX = (value: number) => {
+      if (isLocked) return;
+      const dx = clampTo(xRef === 'LEFT' ? value : data.width - value - box.width, box.width, data.width) - box.x;
+      setRacks(r => ({ ...r, x: round3(r.x + dx) }));
+  };
+  const setY = (value: number) => {
+      if (isLocked) return;
+      const dy = clampTo(yRef === 'TOP' ? value : data.length - value - box.depth, box.depth, data.length) - box.y;
+      setRacks(r => ({ ...r, y: round3(r.y + dy) }));
+  };
+
+  // Switching type keeps the block where it is: a mezzanine slab goes on top of the former rack,
+  // a rack stands up to the former slab level
+  const setType = (type: RackBlock['type']) => setRacks(r => {
+      if (r.type === type) return r;
+      return type === 'MEZZANINE'
+          ? { ...r, type, height: 0.2, elevation: r.height, groupId: undefined }
+          : { ...r, type, height: r.elevation > 0 ? r.elevation : 2, elevation: 0, groupId: undefined };
+  });
+
+  const refButton = (active: boolean, label: string, onClick: () => void) => (
+      <button
+          onClick={onClick}
+          className={`px-2 py-0.5 rounded transition-colors ${active ? 'bg-silicon-orange text-white' : 'text-gray-500 hover:text-white'}`}
+      >
+          {label}
+      </button>
+  );
+
+  return (
+    <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700 space-y-3 text-xs">
+        <div className="flex justify-between items-center">
+            <span className="font-bold uppercase tracking-widest text-silicon-orange flex items-center gap-2">
+                <SlidersHorizontal size={14} /> Propriedades
+            </span>
+            <span className="text-gray-400">{single ? single.label : `${selected.length} objetos`}</span>
+        </div>
+
+        {single && (isBuildingElement(single) ? (
+            <p className="text-gray-500">Tipo: <span className="text-gray-300">{elementLabel(single)}</span>{single.locked && ' • Fixo'}</p>
+        ) : (
+            <label className="flex items-center gap-2 text-gray-500">
+                Tipo:
+                <select
+                    value={single.type}
+                    onChange={(e) => setType(e.target.value as RackBlock['type'])}
+                    className="flex-1 rounded bg-black/40 border border-gray-700 text-white px-2 py-1 focus:border-silicon-orange focus:outline-none"
+                >
+                    {PLACED_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                </select>
+            </label>
+        ))}
+
+        <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+                <div className="flex gap-1">
+                    {refButton(xRef === 'LEFT', 'Da esquerda', () => setXRef('LEFT'))}
+                    {refButton(xRef === 'RIGHT', 'Da direita', () => setXRef('RIGHT'))}
+                </div>
+                <NumberField label="X (m)" value={round3(xValue)} onChange={setX} disabled={isLocked} />
+            </div>
+            <div className="space-y-1">
+                <div className="flex gap-1">
+                    {refButton(yRef === 'TOP', 'Do topo', () => setYRef('TOP'))}
+                    {refButton(yRef === 'BOTTOM', 'Do fundo', () => setYRef('BOTTOM'))}
+                </div>
+                <NumberField label="Y (m)" value={round3(yValue)} onChange={setY} disabled={isLocked} />
+            </div>
+        </div>
+
+        {single && (
+            <div className="grid grid-cols-2 gap-2">
+                <NumberField label="Largura (m)" value={single.width} onChange={(v) => { if (v > 0) setRacks(r => ({ ...r, width: v })); }} />
+                <NumberField label="Profundidade (m)" value={single.depth} onChange={(v) => { if (v > 0) setRacks(r => ({ ...r, depth: v })); }} />
+                <NumberField label={single.type === 'MEZZANINE' ? 'Espessura (m)' : 'Altura (m)'} value={single.height} onChange={(v) => { if (v >= 0) setRacks(r => ({ ...r, height: v })); }} />
+                <NumberField label="Elevação (m)" value={single.elevation || 0} onChange={(v) => { if (v >= 0) setRacks(r => ({ ...r, elevation: v })); }} />
+            </div>
+        )}
+        {!single && <p className="text-gray-500 italic">* Medidas individuais: selecione um único objeto.</p>}
+        {isLocked && <p className="text-gray-500 italic">* Elementos fixos não podem ser movidos.</p>}
+    </div>
+  );
+}
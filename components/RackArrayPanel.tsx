@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Grid3x3, Trash2, Ungroup } from 'lucide-react';
+import { ProjectData } from '../types';
+import {
+  RackArrayOptions, RackRowDirection, DEFAULT_RACK_ARRAY,
+  generateRackArray, rackArraySize, rackGroups
+} from '../utils/rackArray';
+import NumberField from './NumberField';
+
+interface RackArrayPanelProps {
+    data: ProjectData;
+    onChange: (next: ProjectData) => void;
+}
+
+const DIRECTIONS: { id: RackRowDirection; label: string }[] = [
+    { id: 'X', label: 'Linhas em X' },
+    { id: 'Y', label: 'Linhas em Y' },
+];
+
+// Step 3: rows × bays of racks with aisles, placed and moved as one group
+export default function RackArrayPanel({ data, onChange }: RackArrayPanelProps) {
+  const [options, setOptions] = useState<RackArrayOptions>(DEFAULT_RACK_ARRAY);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const set = (patch: Partial<RackArrayOptions>) => { setOptions({ ...options, ...patch }); setMessage(null); };
+  const size = rackArraySize(options);
+  const fits = options.x >= 0 && options.y >= 0 && options.x + size.width <= data.width && options.y + size.depth <= data.length;
+  const groups = rackGroups(data.storage.racks);
+
+  const generate = () => {
+      const { racks, skipped, occupied } = generateRackArray(data, options);
+      if (racks.length === 0) {
+          setMessage(occupied > 0 ? 'Nenhuma baia cabe nesta posição: a área já está ocupada.' : 'Nenhuma baia cabe nesta posição.');
+          return;
+      }
+      onChange({ ...data, storage: { ...data.storage, isActive: true, racks: [...data.storage.racks, ...racks] } });
+      const left = [
+          ...(skipped > 0 ? [`${skipped} omitidas por paredes ou pilares`] : []),
+          ...(occupied > 0 ? [`${occupied} sobre objetos existentes`] : []),
+      ];
+      setMessage(`${racks.length} baias geradas${left.length > 0 ? ` (${left.join(', ')})` : ''}.`);
+  };
+
+  const ungroup = (groupId: string) => onChange({
+      ...data,
+      storage: { ...data.storage, racks: data.storage.racks.map(r => (r.groupId === groupId ? { ...r, groupId: undefined } : r)) },
+  });
+
+  const removeGroup = (groupId: string) => {
+      const racks = data.storage.racks.filter(r => r.groupId !== groupId);
+      onChange({ ...data, storage: { ...data.storage, racks, isActive: racks.length > 0 } });
+  };
+
+  return (
+    <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700 space-y-3 text-xs">
+        <div className="text-xs font-bold uppercase tracking-widest text-silicon-orange flex items-center gap-2">
+            <Grid3x3 size={14} /> Gerar Arranjo de Racks
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+            <NumberField label="Linhas" value={options.rows} step={1} onChange={(v) => set({ rows: Math.max(1, Math.floor(v)) })} />
+            <NumberField label="Baias/linha" value={options.baysPerRow} step={1} onChange={(v) => set({ baysPerRow: Math.max(1, Math.floor(v)) })} />
+            <NumberField label="Corredor (m)" value={options.aisleWidth} onChange={(v) => set({ aisleWidth: v })} />
+            <NumberField label="Larg. baia (m)" value={options.bayWidth} onChange={(v) => set({ bayWidth: v })} />
+            <NumberField label="Prof. baia (m)" value={options.bayDepth} onChange={(v) => set({ bayDepth: v })} />
+            <NumberField label="Altura (m)" value={options.height} onChange={(v) => set({ height: v })} />
+            <NumberField label="X (m)" value={options.x} onChange={(v) => set({ x: v })} />
+            <NumberField label="Y (m)" value={options.y} onChange={(v) => set({ y: v })} />
+            <label className="flex flex-col gap-1 text-gray-500">
+                Direção
+                <select
+                    value={options.direction}
+                    onChange={(e) => set({ direction: e.target.value as RackRowDirection })}
+                    className="w-full rounded bg-black/40 border border-gray-700 text-white px-2 py-1 focus:border-silicon-orange focus:outline-none"
+                >
+                    {DIRECTIONS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                </select>
+            </label>
+        </div>
+        <label className="flex items-center gap-2 text-gray-400 cursor-pointer select-none">
+            <input
+                type="checkbox"
+                checked={options.backToBack}
+                onChange={(e) => set({ backToBack: e.target.checked })}
+                className="h-4 w-4 text-silicon-orange focus:ring-silicon-orange bg-black border-gray-600 rounded"
+            />
+            Linhas costas com costas
+        </label>
+        <p className={fits ? 'text-gray-500' : 'text-red-400'}>
+            {Math.floor(options.rows) * Math.floor(options.baysPerRow)} baias em {size.width.toFixed(2)} × {size.depth.toFixed(2)} m
+            {!fits && ' — ultrapassa as paredes'}
+        </p>
+        <button
+            onClick={generate}
+            disabled={!(data.width > 0 && data.length > 0)}
+            className="w-full py-2 rounded-lg bg-silicon-orange hover:bg-red-600 text-white font-bold transition-colors disabled:opacity-40"
+        >
+            Gerar Arranjo
+        </button>
+        {message && <p className="text-gray-400 italic">{message}</p>}
+
+        {groups.length > 0 && (
+            <ul className="space-y-1 border-t border-gray-700 pt-2">
+                {groups.map(group => (
+                    <li key={group.id} className="flex justify-between items-center">
+                        <span className="text-gray-300">{group.label} <span className="text-gray-500">({group.count} baias)</span></span>
+                        <span className="flex gap-2">
+                            <button onClick={() => ungroup(group.id)} className="text-gray-500 hover:text-white transition-colors" title="Desagrupar (mover baias individualmente)">
+                                <Ungroup size={14} />
+                            </button>
+                            <button onClick={() => removeGroup(group.id)} className="text-gray-500 hover:text-red-500 transition-colors" title="Remover arranjo">
+                                <Trash2 size={14} />
+                            </button>
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        )}
+        <p className="text-gray-500 italic">* Arraste qualquer baia na planta para mover o arranjo inteiro.</p>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Magnet } from 'lucide-react';
+import { SnapSettings, GRID_STEPS } from '../utils/snapping';
+import NumberField from './NumberField';
+
+interface SnapPanelProps {
+    settings: SnapSettings;
+    onChange: (next: SnapSettings) => void;
+    suggestedAisle: number; // Minimum aisle of the selected forklift
+}
+
+// Step 3: grid step and magnetic snapping used while dragging on the plan
+export default function SnapPanel({ settings, onChange, suggestedAisle }: SnapPanelProps) {
+  const set = (patch: Partial<SnapSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700 space-y-3 text-xs">
+        <div className="text-xs font-bold uppercase tracking-widest text-silicon-orange flex items-center gap-2">
+            <Magnet size={14} /> Encaixe
+        </div>
+        <label className="flex items-center gap-2 text-gray-500">
+            Grade:
+            <select
+                value={settings.grid}
+                onChange={(e) => set({ grid: Number(e.target.value) })}
+                className="flex-1 rounded bg-black/40 border border-gray-700 text-white px-2 py-1 focus:border-silicon-orange focus:outline-none"
+            >
+                {GRID_STEPS.map(step => <option key={step} value={step}>{step > 0 ? `${step.toFixed(2)} m` : 'Desligada'}</option>)}
+            </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-400 cursor-pointer select-none">
+            <input
+                type="checkbox"
+                checked={settings.magnetic}
+                onChange={(e) => set({ magnetic: e.target.checked })}
+                className="h-4 w-4 text-silicon-orange focus:ring-silicon-orange bg-black border-gray-600 rounded"
+            />
+            Ímã nas bordas de objetos e paredes
+        </label>
+        <label className="flex items-center gap-2 text-gray-400 cursor-pointer select-none">
+            <input
+                type="checkbox"
+                checked={settings.aisleSnap}
+                onChange={(e) => set({ aisleSnap: e.target.checked })}
+                className="h-4 w-4 text-silicon-orange focus:ring-silicon-orange bg-black border-gray-600 rounded"
+            />
+            Manter corredor dos objetos vizinhos
+        </label>
+        {settings.aisleSnap && (
+            <div className="grid grid-cols-2 gap-2 items-end">
+                <NumberField label="Corredor alvo (m)" value={settings.aisle} onChange={(v) => set({ aisle: Math.max(0, v) })} />
+                <button
+                    onClick={() => set({ aisle: suggestedAisle })}
+                    className="py-1 rounded border border-gray-700 text-gray-400 hover:text-white hover:border-silicon-orange transition-colors"
+                    title="Corredor mínimo do equipamento escolhido na validação"
+                >
+                    Equipamento ({suggestedAisle.toFixed(1)}m)
+                </button>
+            </div>
+        )}
+        <p className="text-gray-500 italic">* Setas movem a seleção um passo da grade; as guias aparecem durante o arraste.</p>
+    </div>
+  );
+}
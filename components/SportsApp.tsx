@@ -1,69 +1,655 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  ArrowRight,
+  ArrowLeft,
+  ChevronLeft,
+  Download,
+  FileDown,
+  Trophy,
+  Plus,
+  Trash2,
+  Zap,
+  Box,
+  Layout,
+  Undo2,
+  Redo2,
+  Circle,
+  Square,
+  Unlink
+} from 'lucide-react';
+import { SportsProjectData, SportsObject, SportsObjectType, FieldTemplateId, DEFAULT_SPORTS_PROJECT } from '../types';
+import { SPORTS_STEP_TITLES } from '../constants';
+import { WarehouseCanvas, CanvasHandle } from './WarehouseCanvas';
+import DarkInput from './DarkInput';
+import FloodlightPanel from './FloodlightPanel';
+import PoleLayoutPanel from './PoleLayoutPanel';
+import { useHistory } from '../hooks/useHistory';
+import { PaperSize, PaperOrientation } from '../utils/pdf';
+import { ObjectMove } from '../utils/selection';
+import { FIELD_TEMPLATES, fieldTemplateLabel } from '../utils/fieldTemplates';
+import { computeSportsLighting } from '../utils/sportsLighting';
+import { syncPolePairs, releaseOrphans, refitPolesToLength } from '../utils/poleLayout';
 
-import React from 'react';
-import { ChevronLeft, Construction, Cone } from 'lucide-react';
+const POST_SPACING = 10; // New posts line up along the top touchline (m)
+const POST_SETBACK = 1.5; // Outside the touchline (m)
+const PASTE_OFFSET = 1; // Pasted copies land this far right and down (m)
 
 interface SportsAppProps {
     onBack: () => void;
 }
 
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const labelFor = (type: SportsObjectType, objects: SportsObject[]) =>
+    `${type === 'POST' ? 'P' : 'C'}${objects.filter(o => o.type === type).length + 1}`;
+
 export default function SportsApp({ onBack }: SportsAppProps) {
-  return (
-    <div className="min-h-screen bg-silicon-dark font-sans flex flex-col items-center justify-center relative overflow-hidden">
-       {/* Background Elements matching Brand */}
-       <div className="fixed inset-0 overflow-hidden pointer-events-none">
-           <div className="absolute top-[-10%] right-[-5%] w-[500px] h-[500px] bg-silicon-teal/10 rounded-full blur-[120px]"></div>
-           <div className="absolute bottom-[-10%] left-[-5%] w-[500px] h-[500px] bg-silicon-purple/10 rounded-full blur-[120px]"></div>
-       </div>
-
-       {/* Navigation */}
-       <button 
-         onClick={onBack}
-         className="absolute top-8 left-8 text-white/50 hover:text-white flex items-center gap-2 transition-colors z-20"
-       >
-         <ChevronLeft size={20} />
-         <span className="text-sm font-bold uppercase tracking-wider">Voltar ao Início</span>
-       </button>
-
-       {/* Main Content */}
-       <div className="z-10 flex flex-col items-center text-center p-8 max-w-2xl animate-fade-in">
-          <div className="relative mb-8">
-             <div className="absolute inset-0 bg-silicon-teal/20 blur-xl rounded-full"></div>
-             <div className="relative p-8 bg-silicon-surface border border-gray-800 rounded-3xl shadow-2xl flex items-center justify-center">
-                 <Construction className="w-16 h-16 text-silicon-teal" strokeWidth={1.5} />
-             </div>
-             {/* Decorative Badge */}
-             <div className="absolute -top-2 -right-2 bg-silicon-orange text-white text-[10px] font-bold px-2 py-1 rounded-full border border-silicon-dark">
-                BETA
-             </div>
+  const history = useHistory<SportsProjectData>(DEFAULT_SPORTS_PROJECT);
+  const { state: data, set: setData } = history;
+  const canvasRef = useRef<CanvasHandle>(null);
+
+  const [currentStep, setCurrentStep] = useState(1);
+  const totalSteps = SPORTS_STEP_TITLES.length;
+
+  // State for Summary View Mode (2D or 3D)
+  const [summaryViewMode, setSummaryViewMode] = useState<'2D' | '3D'>('2D');
+
+  // PDF Report Options
+  const [reportPaper, setReportPaper] = useState<PaperSize>('A4');
+  const [reportOrientation, setReportOrientation] = useState<PaperOrientation>('landscape');
+
+  // Post / Covering State
+  const [inputMode, setInputMode] = useState<SportsObjectType>('POST');
+  const [newPostDims, setNewPostDims] = useState({ d: 0.3, h: 12.0 }); // Diameter and height
+  const [newCoveringDims, setNewCoveringDims] = useState({ w: 10.0, d: 5.0, el: 4.0 }); // el is height from ground
+
+  const posts = data.objects.filter(o => o.type === 'POST').sort((a, b) => a.x - b.x);
+  const coverings = data.objects.filter(o => o.type === 'COVERING');
+  const lighting = useMemo(() => computeSportsLighting(data), [data]);
+
+  // New field size: the poles follow the sidelines and the pairs stay mirrored
+  const withFieldSize = (patch: Partial<SportsProjectData>): SportsProjectData => {
+      const length = patch.length ?? data.length;
+      return { ...data, ...patch, objects: refitPolesToLength(data.objects, data.length, length) };
+  };
+
+  // Official size of the chosen sport; "Personalizado" keeps the current size with plain markings
+  const applyTemplate = (template?: FieldTemplateId) => {
+      if (!template) { setData({ ...data, template: undefined }); return; }
+      const { width, length } = FIELD_TEMPLATES[template];
+      setData(withFieldSize({ template, width, length }));
+  };
+
+  const nextStep = () => { if (currentStep < totalSteps) setCurrentStep(currentStep + 1); };
+  const prevStep = () => { if (currentStep > 1) setCurrentStep(currentStep - 1); };
+
+  const handleNewProject = () => {
+      history.reset(DEFAULT_SPORTS_PROJECT);
+      setCurrentStep(1);
+      setSummaryViewMode('2D');
+      setInputMode('POST');
+  };
+
+  // Undo / Redo Shortcuts (Ctrl+Z, Ctrl+Shift+Z, Ctrl+Y)
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const target = e.target as HTMLElement;
+          if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) { e.preventDefault(); history.undo(); }
+          else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); history.redo(); }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
+  // --- Logic for Posts / Coverings ---
+
+  // Edits to a paired pole are mirrored onto its partner
+  const withPairs = (prev: SportsProjectData, next: SportsProjectData): SportsProjectData =>
+      ({ ...next, objects: syncPolePairs(prev.objects, next.objects, next.length) });
+
+  const handleAddObject = () => {
+      const isPost = inputMode === 'POST';
+      const object: SportsObject = isPost ? {
+          id: newId(),
+          type: 'POST',
+          // Next spot along the top touchline, just outside the field
+          x: Math.min(posts.length * POST_SPACING, data.width) - newPostDims.d / 2,
+          y: -POST_SETBACK - newPostDims.d / 2,
+          width: newPostDims.d,
+          depth: newPostDims.d,
+          height: newPostDims.h,
+          elevation: 0,
+          label: labelFor('POST', data.objects),
+      } : {
+          id: newId(),
+          type: 'COVERING',
+          x: 1,
+          y: 1,
+          width: newCoveringDims.w,
+          depth: newCoveringDims.d,
+          height: 0.2, // Roof thickness
+          elevation: newCoveringDims.el,
+          label: labelFor('COVERING', data.objects),
+      };
+      if (!(object.width > 0) || !(object.depth > 0)) return;
+      setData({ ...data, objects: [...data.objects, object] });
+  };
+
+  const updateObject = (id: string, patch: Partial<SportsObject>) => {
+      setData(withPairs(data, { ...data, objects: data.objects.map(o => (o.id === id ? { ...o, ...patch } : o)) }));
+  };
+
+  const removeObject = (id: string) => {
+      setData({ ...data, objects: releaseOrphans(data.objects.filter(o => o.id !== id)) });
+  };
+
+  const handleObjectMove = (id: string, x: number, y: number) => {
+      setData(prev => {
+        const current = prev.objects.find(o => o.id === id);
+        if (current && current.x === x && current.y === y) return prev; // No-op moves stay out of history
+        return withPairs(prev, { ...prev, objects: prev.objects.map(o => (o.id === id ? { ...o, x, y } : o)) });
+      });
+  };
+
+  // Selection drags, nudges and align / distribute from the canvas
+  const handleObjectsMove = (moves: ObjectMove[]) => {
+      setData(prev => {
+        const targets = new Map(moves.map(m => [m.id, m]));
+        if (prev.objects.every(o => !targets.has(o.id) || (o.x === targets.get(o.id)!.x && o.y === targets.get(o.id)!.y))) return prev;
+        return withPairs(prev, {
+          ...prev,
+          objects: prev.objects.map(o => {
+              const move = targets.get(o.id);
+              return move ? { ...o, x: move.x, y: move.y } : o;
+          })
+        });
+      });
+  };
+
+  // Ctrl+V on the canvas: copies land offset from the originals
+  const handleDuplicate = (ids: string[]): string[] => {
+      const copies: SportsObject[] = [];
+      data.objects.filter(o => ids.includes(o.id)).forEach(o => {
+          copies.push({
+              ...o, id: newId(), x: o.x + PASTE_OFFSET, y: o.y + PASTE_OFFSET, label: labelFor(o.type, [...data.objects, ...copies]),
+              floodlights: o.floodlights?.map(f => ({ ...f, id: newId() })),
+              pairId: undefined, // Copies start unpaired
+          });
+      });
+      if (copies.length === 0) return [];
+      setData(prev => ({ ...prev, objects: [...prev.objects, ...copies] }));
+      return copies.map(o => o.id);
+  };
+
+  const handleDownload = () => {
+    if (canvasRef.current) canvasRef.current.downloadImage();
+  };
+
+  const handleDownloadPdf = () => {
+    if (canvasRef.current) canvasRef.current.downloadPdf({ paper: reportPaper, orientation: reportOrientation });
+  };
+
+  // --- RENDER STEPS ---
+
+  const renderStep1 = () => (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="p-2 bg-silicon-input rounded-lg border border-gray-700">
+            <Trophy className="w-6 h-6 text-silicon-teal" />
+        </div>
+        <h3 className="text-xl font-bold text-white">Dados do Projeto</h3>
+      </div>
+
+      <div className="mb-4">
+         <DarkInput
+            label="NOME DO PROJETO"
+            value={data.projectName}
+            onChange={(e: any) => setData({ ...data, projectName: e.target.value })}
+            placeholder="Ex: Arena Society Beta"
+         />
+      </div>
+
+      <div>
+          <label className="text-xs font-bold text-gray-400 uppercase tracking-widest mb-2 block">Modalidade</label>
+          <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(FIELD_TEMPLATES) as FieldTemplateId[]).map(id => (
+                  <button
+                      key={id}
+                      onClick={() => applyTemplate(id)}
+                      className={`py-2 px-2 rounded-lg border text-xs font-bold transition-colors ${data.template === id ? 'bg-silicon-teal border-silicon-teal text-white' : 'border-gray-700 text-gray-400 hover:text-white hover:border-gray-500'}`}
+                  >
+                      {FIELD_TEMPLATES[id].label}
+                  </button>
+              ))}
+              <button
+                  onClick={() => applyTemplate(undefined)}
+                  className={`py-2 px-2 rounded-lg border text-xs font-bold transition-colors ${!data.template ? 'bg-silicon-teal border-silicon-teal text-white' : 'border-gray-700 text-gray-400 hover:text-white hover:border-gray-500'}`}
+              >
+                  Personalizado
+              </button>
           </div>
+      </div>
 
-          <h1 className="text-4xl md:text-5xl font-bold text-white mb-6">
-              Módulo <span className="text-transparent bg-clip-text bg-gradient-to-r from-silicon-teal to-silicon-purple">Esportivo</span>
-          </h1>
-          
-          <div className="space-y-4 text-gray-400 text-lg leading-relaxed max-w-lg">
-            <p>
-              Estamos trabalhando duro para trazer a melhor experiência de projetos esportivos para o <strong className="text-white">Schema</strong>.
-            </p>
-            <p className="text-sm border-t border-gray-800 pt-4 mt-4">
-              Em breve você poderá projetar campos de futebol, quadras poliesportivas e arenas com a mesma precisão do módulo industrial.
-            </p>
+      <div className="flex items-center gap-2">
+          <div className="flex-1">
+             <DarkInput
+                label="COMPRIMENTO DO CAMPO (m)"
+                value={data.width || ''}
+                onChange={(e: any) => setData({ ...data, width: Number(e.target.value) })}
+                placeholder="Ex: 40"
+            />
+          </div>
+          <div className="flex-1">
+            <DarkInput
+                label="LARGURA DO CAMPO (m)"
+                value={data.length || ''}
+                onChange={(e: any) => setData(withFieldSize({ length: Number(e.target.value) }))}
+                placeholder="Ex: 20"
+            />
           </div>
+      </div>
+      <p className="text-xs text-gray-500 italic">* Medidas internas às linhas laterais e de fundo. Postes podem ficar fora do campo.</p>
+      {data.template && (
+          <p className="text-xs text-gray-500 italic">
+              * Oficial: {FIELD_TEMPLATES[data.template].width}m x {FIELD_TEMPLATES[data.template].length}m. As áreas e marcações mantêm a medida oficial ao redimensionar.
+          </p>
+      )}
+    </div>
+  );
+
+  const renderStep2 = () => {
+    const isPost = inputMode === 'POST';
+    return (
+    <div className="space-y-6">
+      <PoleLayoutPanel data={data} onChange={setData} />
+
+      <div className="flex bg-black/40 rounded-lg p-1 border border-gray-700">
+          <button
+             onClick={() => setInputMode('POST')}
+             className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm font-bold transition-all ${isPost ? 'bg-silicon-teal text-white shadow' : 'text-gray-400 hover:text-white'}`}
+          >
+             <Circle className="w-4 h-4" /> Poste
+          </button>
+          <button
+             onClick={() => setInputMode('COVERING')}
+             className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-md text-sm font-bold transition-all ${!isPost ? 'bg-silicon-purple text-white shadow' : 'text-gray-400 hover:text-white'}`}
+          >
+             <Square className="w-4 h-4" /> Cobertura
+          </button>
+      </div>
+
+      <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700">
+          <div className="text-xs font-bold uppercase mb-3 tracking-widest text-silicon-teal">
+             {isPost ? 'Adicionar Poste' : 'Adicionar Cobertura'}
+          </div>
+          <div className="flex gap-2 items-end">
+              {isPost ? (
+                  <>
+                      <div className="flex-1">
+                          <DarkInput label="DIÂMETRO" value={newPostDims.d} onChange={(e: any) => setNewPostDims({ ...newPostDims, d: Number(e.target.value) })} />
+                      </div>
+                      <div className="flex-1">
+                          <DarkInput label="ALTURA" value={newPostDims.h} onChange={(e: any) => setNewPostDims({ ...newPostDims, h: Number(e.target.value) })} />
+                      </div>
+                  </>
+              ) : (
+                  <>
+                      <div className="flex-1">
+                          <DarkInput label="LARG." value={newCoveringDims.w} onChange={(e: any) => setNewCoveringDims({ ...newCoveringDims, w: Number(e.target.value) })} />
+                      </div>
+                      <div className="flex-1">
+                          <DarkInput label="PROF." value={newCoveringDims.d} onChange={(e: any) => setNewCoveringDims({ ...newCoveringDims, d: Number(e.target.value) })} />
+                      </div>
+                      <div className="flex-1">
+                          <DarkInput label="ELEV.(Chão)" value={newCoveringDims.el} onChange={(e: any) => setNewCoveringDims({ ...newCoveringDims, el: Number(e.target.value) })} />
+                      </div>
+                  </>
+              )}
+              <button
+                onClick={handleAddObject}
+                className="flex-1 text-white p-2.5 rounded-lg flex items-center justify-center shadow-lg transition-all hover:scale-105 h-[46px] bg-silicon-teal hover:bg-teal-600 shadow-teal-900/20"
+              >
+                <Plus className="w-5 h-5" />
+              </button>
+          </div>
+          <p className="text-[10px] text-gray-400 mt-2 italic">* Arraste os objetos na planta; as cotas entre postes são atualizadas ao soltar.</p>
+      </div>
 
-          <div className="mt-12 flex gap-4">
-             <button 
-               onClick={onBack}
-               className="px-8 py-3 bg-silicon-input border border-gray-700 hover:border-silicon-teal text-white rounded-lg font-bold text-sm transition-all hover:shadow-[0_0_20px_rgba(66,192,181,0.2)]"
-             >
-               Voltar para Projetos Industriais
-             </button>
+      <div className="mt-4">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-xs font-bold text-gray-500 uppercase tracking-widest">Itens: {data.objects.length}</span>
+            {data.objects.length > 0 && (
+                <button
+                    onClick={() => setData({ ...data, objects: [] })}
+                    className="text-red-500 text-xs hover:text-red-400 transition-colors"
+                >
+                    Limpar Tudo
+                </button>
+            )}
           </div>
-       </div>
 
-       {/* Footer Branding */}
-       <div className="absolute bottom-8 text-center text-gray-700 text-xs">
-           Schema Sports • Silicon Group Engineering
-       </div>
+          <ul className="space-y-2 max-h-72 overflow-y-auto pr-1 custom-scrollbar">
+              {data.objects.length === 0 && (
+                  <li className="text-xs text-gray-600 text-center p-6 border border-dashed border-gray-800 rounded-lg">
+                      Nenhum objeto adicionado.
+                  </li>
+              )}
+              {data.objects.map(obj => (
+                  <li key={obj.id} className={`text-xs bg-silicon-input p-3 rounded-lg border flex justify-between items-center transition-colors ${obj.type === 'COVERING' ? 'border-silicon-purple/30 hover:border-silicon-purple/50' : 'border-gray-700 hover:border-silicon-teal/50'}`}>
+                      <div className="flex flex-col flex-1 mr-4">
+                        <input
+                            value={obj.label}
+                            onChange={(e) => updateObject(obj.id, { label: e.target.value })}
+                            className="font-bold text-sm bg-transparent border-b border-transparent focus:border-gray-500 focus:outline-none w-full text-white"
+                        />
+                        <span className="text-gray-500 mt-1">
+                            {obj.type === 'POST' ? 'Poste' : 'Cobertura'} • Centro: {(obj.x + obj.width / 2).toFixed(2)}m, {(obj.y + obj.depth / 2).toFixed(2)}m
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="flex flex-col items-end">
+                            <span className="text-gray-300 font-mono">{obj.type === 'POST' ? `Ø${obj.width}m` : `${obj.width}x${obj.depth}m`}</span>
+                            {obj.type === 'COVERING' ? (
+                                <span className="text-silicon-purple text-[10px]">Elev: {obj.elevation}m</span>
+                            ) : (
+                                <label className="text-silicon-teal text-[10px] flex items-center gap-1">
+                                    H:
+                                    <input
+                                        type="number"
+                                        step={0.5}
+                                        value={obj.height}
+                                        onChange={(e) => { if (Number(e.target.value) > 0) updateObject(obj.id, { height: Number(e.target.value) }); }}
+                                        className="w-12 bg-transparent border-b border-gray-700 focus:border-silicon-teal focus:outline-none text-right text-white"
+                                    />
+                                    m
+                                </label>
+                            )}
+                        </div>
+                        {obj.pairId && (
+                            <button
+                                onClick={() => setData({ ...data, objects: data.objects.map(o => (o.pairId === obj.pairId ? { ...o, pairId: undefined } : o)) })}
+                                className="text-silicon-teal hover:text-white transition-colors"
+                                title="Desfazer o espelhamento do par"
+                            >
+                                <Unlink className="w-4 h-4" />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => removeObject(obj.id)}
+                            className="text-gray-600 hover:text-red-500 transition-colors"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                  </li>
+              ))}
+          </ul>
+      </div>
+    </div>
+    );
+  };
+
+  const renderSummary = () => (
+    <div className="space-y-6">
+        <div className="bg-silicon-input p-6 rounded-xl border border-gray-700 text-sm text-gray-300 space-y-4 shadow-2xl">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="font-bold text-xl text-white flex items-center gap-2">
+                    <Zap className="w-5 h-5 text-silicon-yellow" /> Resumo do Projeto
+                </h3>
+
+                {/* 3D TOGGLE BUTTON */}
+                <div className="flex bg-black/40 rounded-lg p-1 border border-gray-700">
+                    <button
+                        onClick={() => setSummaryViewMode('2D')}
+                        className={`px-3 py-1 text-xs font-bold rounded flex items-center gap-1 transition-colors ${summaryViewMode === '2D' ? 'bg-silicon-teal text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        <Layout size={12} /> 2D
+                    </button>
+                    <button
+                        onClick={() => setSummaryViewMode('3D')}
+                        className={`px-3 py-1 text-xs font-bold rounded flex items-center gap-1 transition-colors ${summaryViewMode === '3D' ? 'bg-silicon-teal text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        <Box size={12} /> 3D
+                    </button>
+                </div>
+            </div>
+
+            <div className="border-b border-gray-700 pb-4 mb-2">
+                <p className="text-xs text-gray-500 uppercase font-bold">Projeto</p>
+                <p className="text-2xl text-silicon-teal font-bold truncate">{data.projectName}</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+                <div className="bg-black/50 p-3 rounded border border-gray-800">
+                    <p className="text-xs text-gray-500 uppercase font-bold">Dimensões</p>
+                    <p className="text-lg text-white font-semibold">{data.width}m x {data.length}m</p>
+                    <p className="text-[10px] text-gray-500">{fieldTemplateLabel(data)}</p>
+                    <p className="text-[10px] text-gray-500">Área: {(data.width * data.length).toFixed(0)} m²</p>
+                </div>
+                <div className="bg-black/50 p-3 rounded border border-gray-800">
+                    <p className="text-xs text-gray-500 uppercase font-bold">Postes / Coberturas</p>
+                    <p className="text-lg text-white font-semibold">{posts.length} / {coverings.length}</p>
+                </div>
+            </div>
+
+            {posts.length > 0 && (
+                <div className="border-t border-gray-700 pt-4">
+                    <p className="font-semibold text-silicon-teal mb-2 uppercase text-xs tracking-wider">Postes (da linha de fundo esquerda)</p>
+                    <div className="space-y-1 pl-2 border-l border-silicon-teal/30">
+                        {posts.map((post, idx) => {
+                            const center = post.x + post.width / 2;
+                            const previous = idx === 0 ? 0 : posts[idx - 1].x + posts[idx - 1].width / 2;
+                            return (
+                                <p key={post.id}>
+                                    {post.label}: <span className="text-white">{center.toFixed(2)}m</span>
+                                    <span className="text-gray-500"> (+{(center - previous).toFixed(2)}m) • H {post.height}m</span>
+                                </p>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {coverings.length > 0 && (
+                <div className="border-t border-gray-700 pt-4">
+                    <p className="font-semibold text-silicon-purple mb-2 uppercase text-xs tracking-wider">Coberturas</p>
+                    <div className="space-y-1 pl-2 border-l border-silicon-purple/30">
+                        {coverings.map(c => (
+                            <p key={c.id}>{c.label}: <span className="text-white">{c.width}x{c.depth}m</span> <span className="text-gray-500">• Elev. {c.elevation}m</span></p>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {lighting && (
+                <div className="border-t border-gray-700 pt-4">
+                    <p className="font-semibold text-silicon-yellow mb-2 uppercase text-xs tracking-wider">Iluminação (EN 12193, Classe {data.floodlighting.lightingClass})</p>
+                    <div className="space-y-1 pl-2 border-l border-silicon-yellow/30">
+                        <p>{lighting.floodlightCount} refletores • <span className="text-white">{(lighting.installedWatts / 1000).toFixed(1)} kW</span></p>
+                        <p>Eh méd.: <span className="text-white">{lighting.horizontal.averageLux.toFixed(0)} lux</span> <span className="text-gray-500">(mín. {lighting.requirement.lux})</span></p>
+                        <p>U1 / U2: <span className="text-white">{lighting.horizontal.u1.toFixed(2)} / {lighting.horizontal.u2.toFixed(2)}</span></p>
+                        <p>Ev méd.: <span className="text-white">{lighting.vertical.averageLux.toFixed(0)} lux</span></p>
+                        <p className={`font-bold ${lighting.passes ? 'text-green-400' : 'text-red-400'}`}>{lighting.passes ? 'ATENDE ao requisito' : 'NÃO ATENDE ao requisito'}</p>
+                    </div>
+                </div>
+            )}
+
+            <div className="border-t border-gray-700 pt-4">
+                <p className="font-semibold text-gray-400 mb-2 uppercase text-xs tracking-wider">Observações</p>
+                <textarea
+                  value={data.observations}
+                  onChange={(e) => setData({ ...data, observations: e.target.value })}
+                  className="w-full h-24 bg-black/30 border border-gray-700 rounded-lg p-3 text-white text-xs focus:ring-1 focus:ring-silicon-teal"
+                  placeholder="Insira observações relevantes para o projeto..."
+                />
+            </div>
+        </div>
+        {/* PDF REPORT OPTIONS */}
+        <div className="flex gap-2">
+            <div className="flex flex-1 bg-black/40 rounded-lg p-1 border border-gray-700">
+                {(['A4', 'A3'] as PaperSize[]).map(paper => (
+                    <button
+                        key={paper}
+                        onClick={() => setReportPaper(paper)}
+                        className={`flex-1 py-1 text-xs font-bold rounded transition-colors ${reportPaper === paper ? 'bg-silicon-teal text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {paper}
+                    </button>
+                ))}
+            </div>
+            <div className="flex flex-1 bg-black/40 rounded-lg p-1 border border-gray-700">
+                {([['portrait', 'Retrato'], ['landscape', 'Paisagem']] as [PaperOrientation, string][]).map(([orientation, label]) => (
+                    <button
+                        key={orientation}
+                        onClick={() => setReportOrientation(orientation)}
+                        className={`flex-1 py-1 text-xs font-bold rounded transition-colors ${reportOrientation === orientation ? 'bg-silicon-teal text-white' : 'text-gray-400 hover:text-white'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+        </div>
+        <button
+            onClick={handleDownloadPdf}
+            className="w-full flex justify-center items-center gap-2 py-4 px-6 rounded-lg shadow-lg text-sm font-bold text-white bg-silicon-gradient hover:opacity-90 transition-opacity transform active:scale-[0.99]"
+        >
+            <FileDown className="w-5 h-5" /> BAIXAR RELATÓRIO PDF
+        </button>
+        <button
+            onClick={handleDownload}
+            className="w-full flex justify-center items-center gap-2 py-2 px-4 rounded-lg border border-gray-700 text-xs font-bold text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+        >
+            <Download className="w-4 h-4" /> Imagem (PNG)
+        </button>
+    </div>
+  );
+
+  const canvasViewMode = currentStep === 4 ? summaryViewMode : '2D';
+
+  return (
+    <div className="min-h-screen flex flex-col lg:flex-row overflow-hidden bg-silicon-dark font-sans">
+
+      {/* Left Panel: Controls */}
+      <div className="w-full lg:w-[480px] bg-silicon-surface border-r border-gray-800 flex flex-col h-screen shadow-2xl z-20">
+        <div className="p-8 border-b border-gray-800 bg-silicon-gradient relative overflow-hidden">
+             <button
+                onClick={onBack}
+                className="absolute top-4 left-4 z-20 text-white/80 hover:text-white transition-colors"
+                title="Voltar ao Menu"
+            >
+                <ChevronLeft size={20} />
+            </button>
+            {/* Undo / Redo */}
+            <div className="absolute top-4 right-4 z-20 flex items-center gap-3">
+                <button
+                    onClick={history.undo}
+                    disabled={!history.canUndo}
+                    className="text-white/80 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed flex items-center gap-1"
+                    title="Desfazer (Ctrl+Z)"
+                >
+                    <Undo2 size={18} />
+                    <span className="text-[10px] font-bold font-mono">{history.undoCount}</span>
+                </button>
+                <button
+                    onClick={history.redo}
+                    disabled={!history.canRedo}
+                    className="text-white/80 hover:text-white transition-colors disabled:opacity-30 disabled:cursor-not-allowed flex items-center gap-1"
+                    title="Refazer (Ctrl+Shift+Z)"
+                >
+                    <Redo2 size={18} />
+                    <span className="text-[10px] font-bold font-mono">{history.redoCount}</span>
+                </button>
+            </div>
+            <div className="absolute top-0 right-0 w-32 h-32 bg-white opacity-10 rounded-full blur-2xl transform translate-x-10 -translate-y-10"></div>
+            <div className="relative z-10 pt-4">
+                <h1 className="text-3xl font-bold flex items-center gap-2 text-white tracking-tight">
+                    <span className="w-3 h-3 rounded-full bg-white animate-pulse"></span>
+                    Schema
+                </h1>
+                <p className="text-white/80 text-xs mt-1 font-medium tracking-widest uppercase">Sports Builder</p>
+            </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 custom-scrollbar">
+           {/* Progress Indicator */}
+           <div className="mb-8">
+              <div className="flex items-center justify-between text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-3">
+                  <span>Etapa {currentStep} / {totalSteps}</span>
+                  <span className="text-silicon-teal">{Math.round((currentStep / totalSteps) * 100)}%</span>
+              </div>
+              <div className="w-full bg-gray-800 rounded-full h-1.5 overflow-hidden">
+                  <div className="bg-silicon-gradient h-full rounded-full transition-all duration-500 ease-out" style={{ width: `${(currentStep / totalSteps) * 100}%` }}></div>
+              </div>
+              <h2 className="text-2xl font-bold text-white mt-6 leading-tight">{SPORTS_STEP_TITLES[currentStep - 1]}</h2>
+           </div>
+
+           {/* Step Content */}
+           <div className="animate-fade-in">
+             {currentStep === 1 && renderStep1()}
+             {currentStep === 2 && renderStep2()}
+             {currentStep === 3 && <FloodlightPanel data={data} result={lighting} onChange={(next) => setData(withPairs(data, next))} />}
+             {currentStep === 4 && renderSummary()}
+           </div>
+        </div>
+
+        {/* Navigation Buttons */}
+        <div className="p-6 border-t border-gray-800 bg-silicon-surface flex justify-between items-center">
+            {currentStep > 1 ? (
+                <button
+                    onClick={prevStep}
+                    className="flex items-center gap-2 px-5 py-2.5 rounded-lg text-sm font-medium text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+                >
+                    <ArrowLeft className="w-4 h-4" /> Voltar
+                </button>
+            ) : <div />}
+
+            {currentStep < totalSteps ? (
+                <button
+                    onClick={nextStep}
+                    disabled={!(data.width > 0 && data.length > 0)}
+                    className="flex items-center gap-2 px-6 py-2.5 rounded-full text-sm font-bold text-white bg-silicon-teal hover:bg-teal-600 transition-colors shadow-lg shadow-teal-900/30 disabled:opacity-40"
+                >
+                    Próximo <ArrowRight className="w-4 h-4" />
+                </button>
+            ) : (
+                <button
+                    onClick={handleNewProject}
+                    className="flex items-center gap-2 px-5 py-2.5 border border-gray-700 rounded-lg text-sm font-medium text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
+                >
+                    Novo Projeto
+                </button>
+            )}
+        </div>
+      </div>
+
+      {/* Right Panel: Visualization */}
+      <div
+        className="w-full lg:w-full bg-[#0a0a0a] relative overflow-hidden flex flex-col"
+        style={{
+            backgroundImage: 'radial-gradient(circle at 50% 50%, #1a1a1a 1px, transparent 1px)',
+            backgroundSize: '40px 40px'
+        }}
+      >
+        <div className="absolute top-0 left-0 w-full h-full flex justify-center items-center p-8">
+            <WarehouseCanvas
+                ref={canvasRef}
+                data={data}
+                width={900}
+                height={700}
+                mode="SPORTS"
+                isInteractive={currentStep === 2}
+                viewMode={canvasViewMode}
+                onRackMove={handleObjectMove}
+                onRacksMove={handleObjectsMove}
+                onDuplicate={handleDuplicate}
+                onDragStart={history.beginBatch}
+                onDragEnd={history.endBatch}
+            />
+        </div>
+      </div>
     </div>
   );
 }
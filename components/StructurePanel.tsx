@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Building2, Grid3x3, Plus } from 'lucide-react';
+import { ProjectData, ObstacleKind, RackBlock } from '../types';
+import {
+  ColumnGridOptions, DEFAULT_COLUMN_GRID, BeamDirection, OBSTACLE_PRESETS,
+  generateColumnGrid, createObstacle
+} from '../utils/buildingElements';
+import NumberField from './NumberField';
+
+interface StructurePanelProps {
+    data: ProjectData;
+    onChange: (next: ProjectData) => void;
+}
+
+const BEAM_OPTIONS: { id: BeamDirection; label: string }[] = [
+    { id: 'NONE', label: 'Sem vigas' },
+    { id: 'X', label: 'Vigas em X' },
+    { id: 'Y', label: 'Vigas em Y' },
+];
+
+const OBSTACLE_KINDS: ObstacleKind[] = ['DOOR', 'DOCK', 'HVAC', 'GENERIC'];
+
+// Step 1: structural column grid (with beams) and fixed obstacles such as doors, docks and HVAC units
+export default function StructurePanel({ data, onChange }: StructurePanelProps) {
+  const [grid, setGrid] = useState<ColumnGridOptions>(DEFAULT_COLUMN_GRID);
+  const [kind, setKind] = useState<ObstacleKind>('DOOR');
+  const [dims, setDims] = useState({ width: OBSTACLE_PRESETS.DOOR.width, depth: OBSTACLE_PRESETS.DOOR.depth, height: OBSTACLE_PRESETS.DOOR.height });
+  const [position, setPosition] = useState({ x: 0, y: 0 });
+
+  const canGenerate = data.width > 0 && data.length > 0;
+  const columns = data.storage.racks.filter(r => r.type === 'COLUMN').length;
+  const beams = data.storage.racks.filter(r => r.type === 'BEAM').length;
+
+  const setRacks = (racks: RackBlock[]) =>
+      onChange({ ...data, storage: { ...data.storage, racks, isActive: data.storage.isActive || racks.length > 0 } });
+
+  const withoutGrid = () => data.storage.racks.filter(r => r.type !== 'COLUMN' && r.type !== 'BEAM');
+
+  // Replaces the current columns and beams (imported ones included)
+  const generate = () => setRacks([...withoutGrid(), ...generateColumnGrid(data, grid)]);
+
+  const selectKind = (next: ObstacleKind) => {
+      const preset = OBSTACLE_PRESETS[next];
+      setKind(next);
+      setDims({ width: preset.width, depth: preset.depth, height: preset.height });
+  };
+
+  const addObstacle = () => {
+      if (dims.width <= 0 || dims.depth <= 0 || dims.height <= 0) return;
+      const x = Math.max(0, Math.min(position.x, data.width - dims.width));
+      const y = Math.max(0, Math.min(position.y, data.length - dims.depth));
+      setRacks([...data.storage.racks, createObstacle(kind, dims, { x, y }, data)]);
+  };
+
+  return (
+    <div className="p-3 bg-silicon-input rounded-lg border border-gray-700 space-y-4 text-xs">
+        <div className="space-y-2">
+            <p className="text-sm font-medium text-white flex items-center gap-2">
+                <Grid3x3 size={14} className="text-silicon-orange" /> Malha de Pilares
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+                <NumberField label="Vão X (m)" value={grid.spacingX} onChange={(v) => setGrid({ ...grid, spacingX: v })} />
+                <NumberField label="Vão Y (m)" value={grid.spacingY} onChange={(v) => setGrid({ ...grid, spacingY: v })} />
+                <NumberField label="Seção (m)" value={grid.size} onChange={(v) => setGrid({ ...grid, size: v })} />
+            </div>
+            <div className="flex items-center gap-3">
+                <select
+                    value={grid.beams}
+                    onChange={(e) => setGrid({ ...grid, beams: e.target.value as BeamDirection })}
+                    className="flex-1 rounded bg-black/40 border border-gray-700 text-white px-2 py-1 focus:border-silicon-orange focus:outline-none"
+                >
+                    {BEAM_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
+                <label className="flex items-center gap-2 text-gray-400 cursor-pointer select-none">
+                    <input
+                        type="checkbox"
+                        checked={grid.perimeter}
+                        onChange={(e) => setGrid({ ...grid, perimeter: e.target.checked })}
+                        className="h-4 w-4 text-silicon-orange focus:ring-silicon-orange bg-black border-gray-600 rounded"
+                    />
+                    Pilares nas paredes
+                </label>
+            </div>
+            {grid.beams !== 'NONE' && (
+                <div className="grid grid-cols-2 gap-2">
+                    <NumberField label="Largura da viga (m)" value={grid.beamWidth} onChange={(v) => setGrid({ ...grid, beamWidth: v })} />
+                    <NumberField label="Altura da viga (m)" value={grid.beamDepth} onChange={(v) => setGrid({ ...grid, beamDepth: v })} />
+                </div>
+            )}
+            <button
+                onClick={generate}
+                disabled={!canGenerate}
+                className="w-full py-2 rounded-lg bg-silicon-orange hover:bg-red-600 text-white font-bold transition-colors disabled:opacity-40 disabled:hover:bg-silicon-orange"
+            >
+                Gerar Malha de Pilares
+            </button>
+            {(columns > 0 || beams > 0) && (
+                <div className="flex justify-between items-center text-gray-500">
+                    <span>{columns} pilares{beams > 0 ? `, ${beams} vigas` : ''}</span>
+                    <button onClick={() => setRacks(withoutGrid())} className="text-red-500 hover:text-red-400 transition-colors">
+                        Remover malha
+                    </button>
+                </div>
+            )}
+        </div>
+
+        <div className="space-y-2 border-t border-gray-700 pt-3">
+            <p className="text-sm font-medium text-white flex items-center gap-2">
+                <Building2 size={14} className="text-silicon-orange" /> Obstáculos Fixos
+            </p>
+            <div className="flex gap-1">
+                {OBSTACLE_KINDS.map(id => (
+                    <button
+                        key={id}
+                        onClick={() => selectKind(id)}
+                        className={`flex-1 py-1.5 rounded border transition-colors ${kind === id ? 'border-silicon-orange text-white' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+                    >
+                        {OBSTACLE_PRESETS[id].label}
+                    </button>
+                ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+                <NumberField label="Larg. (m)" value={dims.width} onChange={(v) => setDims({ ...dims, width: v })} />
+                <NumberField label="Prof. (m)" value={dims.depth} onChange={(v) => setDims({ ...dims, depth: v })} />
+                <NumberField label="Alt. (m)" value={dims.height} onChange={(v) => setDims({ ...dims, height: v })} />
+            </div>
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                <NumberField label="X (m)" value={position.x} onChange={(v) => setPosition({ ...position, x: v })} />
+                <NumberField label="Y (m)" value={position.y} onChange={(v) => setPosition({ ...position, y: v })} />
+                <button
+                    onClick={addObstacle}
+                    disabled={!canGenerate}
+                    className="h-[30px] px-3 rounded bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-40"
+                    title="Adicionar obstáculo"
+                >
+                    <Plus size={14} />
+                </button>
+            </div>
+            {OBSTACLE_PRESETS[kind].hangsFromCeiling && (
+                <p className="text-gray-500 italic">* Instalado junto ao teto (elevação = pé-direito - altura).</p>
+            )}
+        </div>
+    </div>
+  );
+}
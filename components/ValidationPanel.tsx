@@ -0,0 +1,59 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { ProjectData, ForkliftType } from '../types';
+import { LayoutIssue, FORKLIFTS, forkliftOf } from '../utils/layoutValidation';
+
+interface ValidationPanelProps {
+    data: ProjectData;
+    issues: LayoutIssue[];
+    onChange: (next: ProjectData) => void;
+}
+
+const FORKLIFT_TYPES = Object.keys(FORKLIFTS) as ForkliftType[];
+
+// Step 3: collisions and clearances of the storage layout (the same objects turn red on the plan)
+export default function ValidationPanel({ data, issues, onChange }: ValidationPanelProps) {
+  const errors = issues.filter(i => i.severity === 'ERROR').length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div className="p-4 rounded-xl border shadow-lg bg-silicon-input border-gray-700 space-y-3 text-xs">
+        <div className="flex justify-between items-center">
+            <span className="font-bold uppercase tracking-widest text-silicon-orange">Validação do Layout</span>
+            {issues.length > 0 && (
+                <span className="text-gray-400">
+                    <span className="text-red-400 font-bold">{errors}</span> erros • <span className="text-yellow-400 font-bold">{warnings}</span> avisos
+                </span>
+            )}
+        </div>
+        <label className="flex items-center gap-2 text-gray-500">
+            Equipamento:
+            <select
+                value={forkliftOf(data)}
+                onChange={(e) => onChange({ ...data, storage: { ...data.storage, forklift: e.target.value as ForkliftType } })}
+                className="flex-1 rounded bg-black/40 border border-gray-700 text-white px-2 py-1 focus:border-silicon-orange focus:outline-none"
+            >
+                {FORKLIFT_TYPES.map(id => (
+                    <option key={id} value={id}>{FORKLIFTS[id].label} (corredor ≥ {FORKLIFTS[id].minAisle.toFixed(1)}m)</option>
+                ))}
+            </select>
+        </label>
+        {issues.length === 0 ? (
+            <p className="flex items-center gap-2 text-silicon-teal">
+                <CheckCircle2 size={14} /> Nenhum problema encontrado.
+            </p>
+        ) : (
+            <ul className="space-y-1 max-h-48 overflow-y-auto pr-1 custom-scrollbar">
+                {issues.map((issue, idx) => (
+                    <li key={idx} className="flex items-start gap-2 text-gray-300">
+                        {issue.severity === 'ERROR'
+                            ? <XCircle size={14} className="text-red-400 shrink-0 mt-px" />
+                            : <AlertTriangle size={14} className="text-yellow-400 shrink-0 mt-px" />}
+                        {issue.message}
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+  );
+}
@@ -1,15 +1,90 @@
 
-import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
-import { ProjectData, SportsProjectData, LightingOrientation, LightingMode } from '../types';
+import React, { useRef, useEffect, useState, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { ProjectData, SportsProjectData, LightingMode, RackBlock, SportsObject } from '../types';
 import { 
   PALLET_COLOR, PALLET_STROKE, MEZZANINE_COLOR, MEZZANINE_STROKE, 
   LIGHTING_COLOR, WALL_COLOR, DIMENSION_COLOR, FIXTURE_COLOR, FIXTURE_GLOW,
-  GRASS_COLOR, FIELD_LINE_COLOR, POST_COLOR, POST_STROKE, COVERING_COLOR
+  COLUMN_COLOR, COLUMN_STROKE, OBSTACLE_COLOR, OBSTACLE_STROKE, BEAM_COLOR, BEAM_STROKE,
+  DOOR_COLOR, DOOR_STROKE, DOCK_COLOR, DOCK_STROKE, HVAC_COLOR, HVAC_STROKE, ISSUE_COLOR, ISSUE_STROKE, SNAP_GUIDE_COLOR,
+  GRASS_COLOR, FIELD_LINE_COLOR, POST_COLOR, POST_STROKE, COVERING_COLOR, AIM_LINE_COLOR
 } from '../constants';
-import { ZoomIn, ZoomOut, Maximize, Move } from 'lucide-react';
+import {
+  ZoomIn, ZoomOut, Maximize, Move, Thermometer,
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalSpaceBetween, AlignVerticalSpaceBetween
+} from 'lucide-react';
+import { computeLightingLayout } from '../utils/lightingLayout';
+import { computeIlluminance, computeIlluminanceGrid, fixtureIntensityModel, obstaclesFromRacks, gridStatistics } from '../utils/illuminance';
+import { falseColor, isoluxLevels, isoluxContours } from '../utils/isolux';
+import { buildPdfReport, PdfReportOptions } from '../utils/pdfReport';
+import { loadPriceCatalog } from '../utils/bom';
+import { downloadBlob, fileBaseName } from '../utils/download';
+import { isBuildingElement, obstacleKindOf, overlapsBuildingElement } from '../utils/buildingElements';
+import { footprintCorners, footprintBounds, unionBounds, pointInFootprint } from '../utils/footprint';
+import { hallOutline, hallArea, rectangleOutline, isPolygonalHall, isInsideHall, pointInOutline } from '../utils/floorPlan';
+import {
+  ObjectMove, AlignMode, DistributeAxis,
+  expandToGroups, selectionUnitCount, alignSelection, distributeSelection
+} from '../utils/selection';
+import { SnapSettings, SnapGuide, DEFAULT_SNAP, snapMove, wallSegments } from '../utils/snapping';
+import { FieldMarkings, fieldMarkings } from '../utils/fieldTemplates';
+import { computeSportsLighting, floodlightMount, floodlightAimPoint } from '../utils/sportsLighting';
+import OrbitView from './OrbitView';
+
+const HEATMAP_CELLS = 60; // Cells along the longest side of the hall
+const HEATMAP_ALPHA = 0.55;
+const VERTEX_HANDLE = 10; // Outline vertex handle size (px)
+const SNAP_REACH_PX = 8; // Magnetic snapping distance (px)
+const FINE_NUDGE = 0.05; // Arrow-key step with the grid off (m)
+const SELECTION_COLOR = '#D02B00';
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+// Field markings through `toScreen` (2D plan or 3D floor); `scale` is pixels per meter
+const drawFieldMarkings = (
+  ctx: CanvasRenderingContext2D, markings: FieldMarkings,
+  toScreen: (x: number, y: number) => { x: number, y: number }, scale: number
+) => {
+  ctx.save();
+  ctx.strokeStyle = FIELD_LINE_COLOR;
+  ctx.fillStyle = FIELD_LINE_COLOR;
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = 'round';
+  markings.paths.forEach(path => {
+    if (path.points.length < 2) return;
+    ctx.setLineDash(path.dashed ? [Math.max(2, scale * 0.3), Math.max(2, scale * 0.3)] : []);
+    ctx.beginPath();
+    path.points.forEach((p, i) => {
+      const v = toScreen(p.x, p.y);
+      if (i === 0) ctx.moveTo(v.x, v.y); else ctx.lineTo(v.x, v.y);
+    });
+    if (path.closed) ctx.closePath();
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+  markings.spots.forEach(p => {
+    const v = toScreen(p.x, p.y);
+    ctx.beginPath();
+    ctx.arc(v.x, v.y, Math.max(1.5, scale * 0.15), 0, Math.PI * 2);
+    ctx.fill();
+  });
+  ctx.restore();
+};
+
+const ALIGN_TOOLS: { mode: AlignMode; title: string; icon: React.ElementType }[] = [
+  { mode: 'LEFT', title: 'Alinhar à esquerda', icon: AlignStartVertical },
+  { mode: 'CENTER_X', title: 'Centralizar na horizontal', icon: AlignCenterVertical },
+  { mode: 'RIGHT', title: 'Alinhar à direita', icon: AlignEndVertical },
+  { mode: 'TOP', title: 'Alinhar ao topo', icon: AlignStartHorizontal },
+  { mode: 'CENTER_Y', title: 'Centralizar na vertical', icon: AlignCenterHorizontal },
+  { mode: 'BOTTOM', title: 'Alinhar à base', icon: AlignEndHorizontal },
+];
 
 export type CanvasHandle = {
   downloadImage: () => void;
+  downloadPdf: (options: PdfReportOptions) => void;
+  getThumbnail: (width?: number, height?: number) => string;
 };
 
 interface WarehouseCanvasProps {
@@ -20,6 +95,15 @@ interface WarehouseCanvasProps {
   viewMode?: '2D' | '3D';
   mode?: 'INDUSTRIAL' | 'SPORTS';
   onRackMove?: (id: string, x: number, y: number) => void;
+  onRacksMove?: (moves: ObjectMove[]) => void; // Several objects at once (selection drags, nudges, align); falls back to onRackMove
+  onDuplicate?: (ids: string[]) => string[]; // Ctrl+V: copies the objects, returns the ids of the copies
+  onDragStart?: () => void; // Fired once per drag, before the first move
+  onDragEnd?: () => void;
+  onVertexMove?: (index: number, x: number, y: number) => void; // Enables dragging the outline vertices (2D)
+  issueIds?: string[]; // Objects with layout issues, drawn in red (2D, on screen only)
+  snap?: SnapSettings; // Grid step (drags, nudges, outline vertices) and magnetic snapping
+  selectedIds?: string[]; // Controlled selection (e.g. shared with a properties inspector)
+  onSelectionChange?: (ids: string[]) => void;
 }
 
 export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({ 
@@ -29,23 +113,87 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
   isInteractive = false,
   viewMode = '2D',
   mode = 'INDUSTRIAL',
-  onRackMove
+  onRackMove,
+  onRacksMove,
+  onDuplicate,
+  onDragStart,
+  onDragEnd,
+  onVertexMove,
+  issueIds,
+  snap = DEFAULT_SNAP,
+  selectedIds: controlledSelection,
+  onSelectionChange
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   
-  // Dragging State
-  const [dragTarget, setDragTarget] = useState<{ id: string, offsetX: number, offsetY: number } | null>(null);
+  // Dragging State (`id` is the object under the cursor, `ids` everything moving with it)
+  const [dragTarget, setDragTarget] = useState<{ id: string, ids: string[], offsetX: number, offsetY: number } | null>(null);
   const [hoveredBlockId, setHoveredBlockId] = useState<string | null>(null);
+  const [dragVertex, setDragVertex] = useState<number | null>(null);
+
+  // Selection: click, Shift+click or rubber band (kept in meters while dragging)
+  const [ownSelection, setOwnSelection] = useState<string[]>([]);
+  const selectedIds = controlledSelection ?? ownSelection;
+  const setSelectedIds = (ids: string[]) => {
+      if (!controlledSelection) setOwnSelection(ids);
+      onSelectionChange?.(ids);
+  };
+  const [band, setBand] = useState<{ x0: number, y0: number, x1: number, y1: number, additive: boolean } | null>(null);
+  const clipboard = useRef<string[]>([]);
+  const [guides, setGuides] = useState<SnapGuide[]>([]);
   
   // Zoom & Pan State
   const [transform, setTransform] = useState({ scale: 1, x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const [lastMousePos, setLastMousePos] = useState({ x: 0, y: 0 });
 
+  // Heatmap Overlay
+  const [showHeatmap, setShowHeatmap] = useState(false);
+
+  // 3D: WebGL orbit view; the isometric drawing stays as fallback (and for exports)
+  const [webglFailed, setWebglFailed] = useState(false);
+  const showOrbit = viewMode === '3D' && !webglFailed;
+
   // Type Guards
   const isIndustrial = (d: any): d is ProjectData => mode === 'INDUSTRIAL';
   const isSports = (d: any): d is SportsProjectData => mode === 'SPORTS';
 
+  const canShowHeatmap = viewMode === '2D' && (isIndustrial(data)
+      ? data.lighting.isActive && data.ceilingHeight > 0
+      : data.objects.some(o => (o.floodlights || []).length > 0));
+
+  // Project as it was before the current drag: the heatmap keeps it until mouseup
+  const isDragging = dragTarget !== null || dragVertex !== null;
+  const settledData = useMemo(() => data, [isDragging ? null : data]);
+
+  // Fine illuminance grid + isolux lines, recomputed only when the project changes (not on every drag move)
+  const heatmap = useMemo(() => {
+      const data = settledData;
+      if (!showHeatmap || !canShowHeatmap) return null;
+      if (isSports(data)) {
+          // Horizontal illuminance of the floodlights on the playing area
+          const result = computeSportsLighting(data, { spacing: Math.max(0.25, Math.max(data.width, data.length) / HEATMAP_CELLS) });
+          if (!result) return null;
+          const { grid, averageLux, minLux, maxLux } = result.horizontal;
+          return { grid, contours: isoluxContours(grid, isoluxLevels(minLux, maxLux)), averageLux, minLux, maxLux };
+      }
+      if (!isIndustrial(data)) return null;
+      const fixtures = computeLightingLayout(data).fixtures;
+      if (fixtures.length === 0 || data.width <= 0 || data.length <= 0) return null;
+      const spacing = Math.max(0.25, Math.max(data.width, data.length) / HEATMAP_CELLS);
+      const grid = computeIlluminanceGrid(data, fixtures, fixtureIntensityModel(data), {
+          spacing,
+          obstacles: obstaclesFromRacks(data.storage.racks)
+      });
+      const stats = gridStatistics(grid);
+      const contours = isoluxContours(grid, isoluxLevels(stats.minLux, stats.maxLux));
+      return { grid, contours, ...stats };
+  }, [settledData, showHeatmap, canShowHeatmap]);
+
+  // Floor polygon (the plain rectangle for sports fields and rectangular halls)
+  const getFloor = (w: number = data.width, l: number = data.length) =>
+      isIndustrial(data) && isPolygonalHall(data) ? hallOutline(data) : rectangleOutline(w, l);
+
   const getObjects = () => {
     if (isIndustrial(data)) return data.storage.racks;
     if (isSports(data)) return data.objects;
@@ -121,41 +269,47 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
       const v000 = toScreen(0,0,0);
       const vW00 = toScreen(w,0,0);
       const vWL0 = toScreen(w,l,0);
-      const v0L0 = toScreen(0,l,0);
 
-      ctx.beginPath();
-      ctx.moveTo(v000.x, v000.y); ctx.lineTo(vW00.x, vW00.y); ctx.lineTo(vWL0.x, vWL0.y); ctx.lineTo(v0L0.x, v0L0.y); ctx.closePath();
+      const floor = getFloor(w, l);
+      const tracePolygon = (z: number) => {
+          ctx.beginPath();
+          floor.forEach((p, i) => {
+              const v = toScreen(p.x, p.y, z);
+              if (i === 0) ctx.moveTo(v.x, v.y); else ctx.lineTo(v.x, v.y);
+          });
+          ctx.closePath();
+      };
+
+      tracePolygon(0);
       ctx.fillStyle = mode === 'SPORTS' ? GRASS_COLOR : 'rgba(31, 41, 55, 0.5)';
       ctx.fill();
       ctx.strokeStyle = mode === 'SPORTS' ? FIELD_LINE_COLOR : '#4b5563';
       ctx.lineWidth = mode === 'SPORTS' ? 2 : 1;
       ctx.stroke();
+      if (isSports(data)) {
+          drawFieldMarkings(ctx, fieldMarkings({ ...data, width: w, length: l }), (x, y) => toScreen(x, y, 0), scale);
+      }
 
       // 2. Objects (Sorted by depth)
       // For Sports, we render cylinders (posts) or planes (coverings)
       const sortedObjects = [...objects].sort((a, b) => (a.x + a.y + (a.elevation || 0)) - (b.x + b.y + (b.elevation || 0)));
 
       sortedObjects.forEach(obj => {
-          const rx = obj.x;
-          const ry = obj.y;
-          const rw = obj.width;
-          const rd = obj.depth;
           const rh = obj.height;
           const el = obj.elevation || 0;
           
           const isMezzanine = obj.type === 'MEZZANINE' || obj.type === 'COVERING';
           const isPost = obj.type === 'POST';
 
-          // Vertices
-          const b1 = toScreen(rx, ry, el);
-          const b2 = toScreen(rx+rw, ry, el);
-          const b3 = toScreen(rx+rw, ry+rd, el);
-          const b4 = toScreen(rx, ry+rd, el);
-          
-          const t1 = toScreen(rx, ry, el + rh);
-          const t2 = toScreen(rx+rw, ry, el + rh);
-          const t3 = toScreen(rx+rw, ry+rd, el + rh);
-          const t4 = toScreen(rx, ry+rd, el + rh);
+          // Vertices (footprint corners, rotated about the center)
+          const corners = footprintCorners(obj);
+          const bottom = corners.map(p => toScreen(p.x, p.y, el));
+          const top = corners.map(p => toScreen(p.x, p.y, el + rh));
+          const traceFace = (points: { x: number, y: number }[]) => {
+              ctx.beginPath();
+              points.forEach((v, i) => { if (i === 0) ctx.moveTo(v.x, v.y); else ctx.lineTo(v.x, v.y); });
+              ctx.closePath();
+          };
 
           // Colors
           let colorBase, colorDark, colorDarker, colorFace;
@@ -166,6 +320,17 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
              } else { // Covering
                  colorBase = COVERING_COLOR; colorDark = '#cbd5e1'; colorDarker = '#94a3b8'; colorFace = 'rgba(255,255,255,0.9)';
              }
+          } else if (obj.type === 'OBSTACLE' && obstacleKindOf(obj) !== 'GENERIC') {
+             // Doors, docks and HVAC units, tinted like their 2D symbols
+             const kind = obstacleKindOf(obj);
+             colorBase = kind === 'HVAC' ? '#60a5fa' : (kind === 'DOOR' ? '#fbbf24' : '#facc15');
+             colorDark = kind === 'HVAC' ? '#3b82f6' : (kind === 'DOOR' ? '#d97706' : '#ca8a04');
+             colorDarker = kind === 'HVAC' ? '#1d4ed8' : (kind === 'DOOR' ? '#b45309' : '#a16207');
+             colorFace = kind === 'HVAC' ? 'rgba(96, 165, 250, 0.7)' : (kind === 'DOOR' ? 'rgba(251, 191, 36, 0.6)' : 'rgba(250, 204, 21, 0.6)');
+          } else if (isBuildingElement(obj)) {
+             // Building elements
+             colorBase = '#9ca3af'; colorDark = '#6b7280'; colorDarker = '#4b5563';
+             colorFace = obj.type === 'OBSTACLE' ? 'rgba(156, 163, 175, 0.6)' : '#9ca3af';
           } else {
              // Industrial
              colorBase = isMezzanine ? '#42C0B5' : '#F03200';
@@ -179,57 +344,80 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
 
           // Shadows
           if (el > 0) {
-              const s1 = toScreen(rx, ry, 0);
-              const s2 = toScreen(rx+rw, ry, 0);
-              const s3 = toScreen(rx+rw, ry+rd, 0);
-              const s4 = toScreen(rx, ry+rd, 0);
+              traceFace(corners.map(p => toScreen(p.x, p.y, 0)));
               ctx.fillStyle = 'rgba(0,0,0,0.3)';
-              ctx.beginPath();
-              ctx.moveTo(s1.x, s1.y); ctx.lineTo(s2.x, s2.y); ctx.lineTo(s3.x, s3.y); ctx.lineTo(s4.x, s4.y); ctx.closePath();
               ctx.fill();
           }
 
           // Geometry
           // Bottom Face (visible if floating)
           if (el > 0) {
-              ctx.beginPath(); ctx.moveTo(b1.x, b1.y); ctx.lineTo(b2.x, b2.y); ctx.lineTo(b3.x, b3.y); ctx.lineTo(b4.x, b4.y); ctx.closePath();
+              traceFace(bottom);
               ctx.fillStyle = colorDarker; ctx.fill(); ctx.stroke();
           }
 
           // Top Face
-          ctx.beginPath(); ctx.moveTo(t1.x, t1.y); ctx.lineTo(t2.x, t2.y); ctx.lineTo(t3.x, t3.y); ctx.lineTo(t4.x, t4.y); ctx.closePath();
+          traceFace(top);
           ctx.fillStyle = colorFace; ctx.fill(); ctx.stroke();
 
-          // Sides
-          ctx.beginPath(); ctx.moveTo(b2.x, b2.y); ctx.lineTo(b3.x, b3.y); ctx.lineTo(t3.x, t3.y); ctx.lineTo(t2.x, t2.y); ctx.closePath();
-          ctx.fillStyle = colorDark; ctx.fill(); ctx.stroke();
-
-          ctx.beginPath(); ctx.moveTo(b3.x, b3.y); ctx.lineTo(b4.x, b4.y); ctx.lineTo(t4.x, t4.y); ctx.lineTo(t3.x, t3.y); ctx.closePath();
-          ctx.fillStyle = colorDarker; ctx.fill(); ctx.stroke();
+          // Sides facing the viewer (outward normal towards +x / +y); the shade follows the
+          // normal so an unrotated block keeps its darker front (+y) face
+          corners.forEach((p, i) => {
+              const j = (i + 1) % corners.length;
+              const q = corners[j];
+              const nx = q.y - p.y, ny = p.x - q.x; // Outward normal of a clockwise edge (y down)
+              if (nx + ny <= 0) return;
+              traceFace([bottom[i], bottom[j], top[j], top[i]]);
+              ctx.fillStyle = nx > ny ? colorDark : colorDarker; ctx.fill(); ctx.stroke();
+          });
       });
 
-      // 3. Walls/Ceiling Wireframe (Industrial Only)
-      if (mode === 'INDUSTRIAL') {
-          const v00H = toScreen(0,0,h);
-          const vW0H = toScreen(w,0,h);
-          const vWLH = toScreen(w,l,h);
-          const v0LH = toScreen(0,l,h);
+      // 3. Lighting Profiles & Fixtures at Ceiling Height (Industrial Only)
+      if (isIndustrial(data) && data.lighting.isActive && h > 0) {
+          const layout = computeLightingLayout(data);
+          ctx.strokeStyle = LIGHTING_COLOR; ctx.lineWidth = 1.5; ctx.setLineDash([4, 4]); ctx.beginPath();
+          layout.profiles.forEach(p => {
+              const a = toScreen(p.x1, p.y1, h); const b = toScreen(p.x2, p.y2, h);
+              ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y);
+          });
+          ctx.stroke(); ctx.setLineDash([]);
+          const radius = Math.max(2, Math.min(5, scale * 0.25));
+          ctx.fillStyle = FIXTURE_COLOR; ctx.shadowColor = FIXTURE_GLOW; ctx.shadowBlur = 8;
+          layout.fixtures.forEach(f => {
+              const p = toScreen(f.x, f.y, h);
+              ctx.beginPath(); ctx.arc(p.x, p.y, radius, 0, Math.PI * 2); ctx.fill();
+          });
+          ctx.shadowBlur = 0;
+      }
 
-          ctx.beginPath();
-          ctx.moveTo(v00H.x, v00H.y); ctx.lineTo(vW0H.x, vW0H.y); ctx.lineTo(vWLH.x, vWLH.y); ctx.lineTo(v0LH.x, v0LH.y); ctx.closePath();
+      // 3b. Floodlight aiming lines (Sports): from the pole top down to the aiming point
+      if (isSports(data)) {
+          ctx.strokeStyle = AIM_LINE_COLOR; ctx.fillStyle = AIM_LINE_COLOR; ctx.lineWidth = 1; ctx.setLineDash([6, 3]);
+          data.objects.forEach(post => (post.floodlights || []).forEach(f => {
+              const mount = floodlightMount(post); const aim = floodlightAimPoint(post, f);
+              const a = toScreen(mount.x, mount.y, mount.z); const b = toScreen(aim.x, aim.y, 0);
+              ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+              ctx.beginPath(); ctx.arc(b.x, b.y, 2.5, 0, Math.PI * 2); ctx.fill();
+          }));
+          ctx.setLineDash([]);
+      }
+
+      // 4. Walls/Ceiling Wireframe (Industrial Only): the floor outline extruded to the ceiling
+      if (mode === 'INDUSTRIAL') {
+          tracePolygon(h);
           ctx.strokeStyle = '#F03200';
           ctx.lineWidth = 2;
           ctx.stroke();
 
-          // Vertical pillars
+          // Vertical edges at every outline corner
           ctx.strokeStyle = '#6b7280';
           ctx.lineWidth = 1;
           ctx.setLineDash([5, 5]);
           ctx.beginPath();
-          ctx.moveTo(v000.x, v000.y); ctx.lineTo(v00H.x, v00H.y);
-          ctx.moveTo(vW00.x, vW00.y); ctx.lineTo(vW0H.x, vW0H.y);
-          ctx.moveTo(vWL0.x, vWL0.y); ctx.lineTo(vWLH.x, vWLH.y);
-          ctx.moveTo(v0L0.x, v0L0.y); ctx.lineTo(v0LH.x, v0LH.y);
+          floor.forEach(p => {
+              const bottom = toScreen(p.x, p.y, 0); const top = toScreen(p.x, p.y, h);
+              ctx.moveTo(bottom.x, bottom.y); ctx.lineTo(top.x, top.y);
+          });
           ctx.stroke();
           ctx.setLineDash([]);
           
@@ -238,7 +426,9 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
             ctx.save(); ctx.fillStyle = 'rgba(0,0,0,0.7)'; ctx.beginPath(); ctx.arc(x, y, 12, 0, Math.PI*2); ctx.fill(); ctx.restore();
             ctx.fillStyle = color; ctx.font = 'bold 14px Poppins'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle'; ctx.fillText(text, x, y);
           }
-          drawLabel(`${h}m`, (v000.x + v00H.x)/2 - 10, (v000.y + v00H.y)/2, '#FFFFFF');
+          // On the first outline corner (the origin may be cut away on polygonal halls)
+          const c0 = toScreen(floor[0].x, floor[0].y, 0); const cH = toScreen(floor[0].x, floor[0].y, h);
+          drawLabel(`${h}m`, (c0.x + cH.x)/2 - 10, (c0.y + cH.y)/2, '#FFFFFF');
       }
 
       // Base Dimensions
@@ -249,15 +439,21 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
       drawBaseLabel(`${l}m`, (vW00.x + vWL0.x)/2 + 25, (vW00.y + vWL0.y)/2);
   };
 
-  // --- DRAW SCENE 2D ---
-  const drawScene2D = (ctx: CanvasRenderingContext2D, width: number, height: number, currentTransform: {scale: number, x: number, y: number} = {scale: 1, x:0, y:0}) => {
-     // Metrics
+  // Pixels per meter that fit the whole hall (zoom 1)
+  const getBaseScale2D = (width: number, height: number) => {
      const padding = 60; 
      const availableWidth = width - padding * 2;
      const availableHeight = height - padding * 2;
      const baseScaleX = availableWidth / (data.width || 1);
      const baseScaleY = availableHeight / (data.length || 1);
-     const baseScale = Math.min(baseScaleX, baseScaleY);
+     return Math.min(baseScaleX, baseScaleY);
+  };
+
+  // --- DRAW SCENE 2D ---
+  // `onScreen` adds the editing overlays (selection, rubber band, layout issues) left out of exports
+  const drawScene2D = (ctx: CanvasRenderingContext2D, width: number, height: number, currentTransform: {scale: number, x: number, y: number} = {scale: 1, x:0, y:0}, showHandles: boolean = false, onScreen: boolean = false) => {
+     // Metrics
+     const baseScale = getBaseScale2D(width, height);
      const finalScale = baseScale * currentTransform.scale;
      const drawWidth = data.width * finalScale;
      const drawLength = data.length * finalScale;
@@ -280,6 +476,37 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
         return { originX, originY, scale: finalScale, drawWidth, drawLength };
      }
 
+     // Illuminance Heatmap + Isolux Lines
+     const drawHeatmap = () => {
+         if (!heatmap) return;
+         const { grid, contours, maxLux } = heatmap;
+         const cellW = toPx(grid.stepX); const cellH = toPx(grid.stepY);
+         for (let r = 0; r < grid.rows; r++) {
+             for (let c = 0; c < grid.cols; c++) {
+                 const i = r * grid.cols + c;
+                 if (grid.covered[i]) continue;
+                 ctx.fillStyle = falseColor(maxLux > 0 ? grid.values[i] / maxLux : 0, HEATMAP_ALPHA);
+                 // +1px overlap hides seams between cells
+                 ctx.fillRect(getX(c * grid.stepX), getY(r * grid.stepY), cellW + 1, cellH + 1);
+             }
+         }
+         ctx.strokeStyle = 'rgba(17, 24, 39, 0.7)'; ctx.lineWidth = 1; ctx.beginPath();
+         contours.forEach(seg => { ctx.moveTo(getX(seg.x1), getY(seg.y1)); ctx.lineTo(getX(seg.x2), getY(seg.y2)); });
+         ctx.stroke();
+         // One label per isolux level
+         const labeled = new Set<number>();
+         ctx.font = '600 10px Poppins, sans-serif'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+         contours.forEach(seg => {
+             if (labeled.has(seg.level)) return;
+             labeled.add(seg.level);
+             const lx = getX((seg.x1 + seg.x2) / 2); const ly = getY((seg.y1 + seg.y2) / 2);
+             const text = `${seg.level.toFixed(0)}`;
+             const tm = ctx.measureText(text);
+             ctx.fillStyle = 'rgba(255, 255, 255, 0.85)'; ctx.fillRect(lx - tm.width / 2 - 2, ly - 6, tm.width + 4, 12);
+             ctx.fillStyle = '#111827'; ctx.fillText(text, lx, ly);
+         });
+     };
+
      // Floor
      if (mode === 'SPORTS') {
          // Improved Aesthetics for Sports Field
@@ -288,25 +515,29 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
          ctx.fillRect(originX, originY, drawWidth, drawLength);
          ctx.shadowBlur = 0;
          
-         // Field Lines
+         // Field Lines (boundary + the template's markings, in meters)
          ctx.strokeStyle = FIELD_LINE_COLOR;
          ctx.lineWidth = 2;
          ctx.strokeRect(originX, originY, drawWidth, drawLength);
-         
-         // Center Line (Simple representation)
-         ctx.beginPath();
-         ctx.moveTo(originX + drawWidth/2, originY);
-         ctx.lineTo(originX + drawWidth/2, originY + drawLength);
-         ctx.stroke();
-         // Center Circle
-         ctx.beginPath();
-         ctx.arc(originX + drawWidth/2, originY + drawLength/2, toPx(2), 0, Math.PI*2);
-         ctx.stroke();
+         drawHeatmap();
+         if (isSports(data)) {
+             drawFieldMarkings(ctx, fieldMarkings(data), (x, y) => ({ x: getX(x), y: getY(y) }), finalScale);
+         }
 
      } else {
-         // Industrial Floor
+         // Industrial Floor (outline polygon; cut-away parts of the bounding box in gray)
+         const floor = getFloor();
+         const polygonal = isIndustrial(data) && isPolygonalHall(data);
+         const traceFloor = () => {
+             ctx.beginPath();
+             floor.forEach((p, i) => { if (i === 0) ctx.moveTo(getX(p.x), getY(p.y)); else ctx.lineTo(getX(p.x), getY(p.y)); });
+             ctx.closePath();
+         };
+         if (polygonal) { ctx.fillStyle = '#f3f4f6'; ctx.fillRect(originX, originY, drawWidth, drawLength); }
          ctx.shadowColor = 'rgba(0,0,0,0.1)'; ctx.shadowBlur = 10; ctx.fillStyle = '#ffffff';
-         ctx.fillRect(originX, originY, drawWidth, drawLength); ctx.shadowBlur = 0;
+         traceFloor(); ctx.fill(); ctx.shadowBlur = 0;
+
+         ctx.save(); traceFloor(); ctx.clip();
          
          // Grid
          ctx.strokeStyle = '#e5e7eb'; ctx.lineWidth = 1; ctx.beginPath();
@@ -315,8 +546,38 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
          for(let i = gridStep; i < data.length; i+=gridStep) { ctx.moveTo(getX(0), getY(i)); ctx.lineTo(getX(data.width), getY(i)); }
          ctx.stroke();
 
+         drawHeatmap();
+         ctx.restore();
+
          // Walls
-         ctx.strokeStyle = WALL_COLOR; ctx.lineWidth = 4; ctx.strokeRect(originX, originY, drawWidth, drawLength);
+         ctx.strokeStyle = WALL_COLOR; ctx.lineWidth = 4; traceFloor(); ctx.stroke();
+
+         // Wall lengths outside each edge of polygonal halls
+         if (polygonal) {
+             ctx.font = '600 11px Poppins, sans-serif'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+             floor.forEach((p, i) => {
+                 const q = floor[(i + 1) % floor.length];
+                 const len = Math.hypot(q.x - p.x, q.y - p.y);
+                 if (len < 1e-6) return;
+                 const mx = (p.x + q.x) / 2, my = (p.y + q.y) / 2;
+                 let nx = (q.y - p.y) / len, ny = -(q.x - p.x) / len;
+                 if (pointInOutline(floor, mx + nx * 0.01, my + ny * 0.01)) { nx = -nx; ny = -ny; }
+                 ctx.fillStyle = DIMENSION_COLOR;
+                 ctx.fillText(`${Number(len.toFixed(2))}m`, getX(mx) + nx * 14, getY(my) + ny * 14);
+             });
+         }
+
+         // Vertex handles while the outline is editable
+         if (polygonal && showHandles) {
+             floor.forEach((p, i) => {
+                 const hx = getX(p.x), hy = getY(p.y);
+                 ctx.fillStyle = dragVertex === i ? '#F03200' : '#ffffff'; ctx.strokeStyle = '#F03200'; ctx.lineWidth = 2;
+                 ctx.fillRect(hx - VERTEX_HANDLE / 2, hy - VERTEX_HANDLE / 2, VERTEX_HANDLE, VERTEX_HANDLE);
+                 ctx.strokeRect(hx - VERTEX_HANDLE / 2, hy - VERTEX_HANDLE / 2, VERTEX_HANDLE, VERTEX_HANDLE);
+                 ctx.fillStyle = '#121212'; ctx.font = 'bold 10px Poppins, sans-serif'; ctx.textAlign = 'left'; ctx.textBaseline = 'bottom';
+                 ctx.fillText(`${i + 1}`, hx + VERTEX_HANDLE / 2 + 2, hy - VERTEX_HANDLE / 2);
+             });
+         }
      }
 
      // Global Dimensions
@@ -353,60 +614,24 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
              ctx.shadowBlur = 8; ctx.shadowColor = FIXTURE_GLOW; ctx.fillStyle = FIXTURE_COLOR;
              ctx.beginPath(); ctx.arc(cx, cy, radius, 0, Math.PI * 2); ctx.fill(); ctx.shadowBlur = 0; 
          };
+         const layout = computeLightingLayout(data);
          ctx.strokeStyle = LIGHTING_COLOR; ctx.lineWidth = Math.max(2, finalScale * 0.15); ctx.setLineDash([5, 5]); ctx.beginPath();
-         const { orientation, mode, value, offset, fixturesPerProfile } = data.lighting;
-         const isLongitudinal = orientation === LightingOrientation.Longitudinal;
-         const axisLimit = isLongitudinal ? data.width : data.length; 
-         let profilePositions: number[] = [];
-         
-         if (mode === LightingMode.Quantity) {
-            if (value >= 1) {
-                if (value === 1) { profilePositions = [axisLimit / 2]; } else {
-                    const availableSpace = axisLimit - (offset * 2); const step = availableSpace / (value - 1);
-                    for(let i=0; i<value; i++) { profilePositions.push(offset + (i * step)); }
-                }
-            }
-         } else {
-             // Mode: Distance
-             // Refined: Calculate profiles fitting within safe area (axisLimit - 2*offset) and center them.
-             if (value > 0.01) {
-                const available = axisLimit - (offset * 2);
-                if (available >= 0) {
-                    // Count how many gaps of size 'value' fit
-                    const intervals = Math.floor(available / value);
-                    const count = intervals + 1;
-                    
-                    if (count > 0) {
-                        const span = intervals * value;
-                        // Center the span within the available space relative to the offset
-                        const start = offset + ((available - span) / 2);
-                        
-                        for(let i=0; i<count; i++) {
-                            profilePositions.push(start + (i * value));
-                        }
-                    }
-                }
-             }
-         }
-         profilePositions.forEach(pos => {
-             if (pos > axisLimit) return;
-             if (isLongitudinal) { ctx.moveTo(getX(pos), getY(0)); ctx.lineTo(getX(pos), getY(data.length)); } 
-             else { ctx.moveTo(getX(0), getY(pos)); ctx.lineTo(getX(data.width), getY(pos)); }
-         });
+         layout.profiles.forEach(p => { ctx.moveTo(getX(p.x1), getY(p.y1)); ctx.lineTo(getX(p.x2), getY(p.y2)); });
          ctx.stroke(); ctx.setLineDash([]);
-         const profileLength = isLongitudinal ? data.length : data.width; 
-         if (fixturesPerProfile > 0 && profilePositions.length > 0) {
-             const margin = 1; const usableLen = profileLength - (margin * 2);
-             profilePositions.forEach(pos => {
-                 const step = fixturesPerProfile > 1 ? usableLen / (fixturesPerProfile - 1) : 0;
-                 for (let i = 0; i < fixturesPerProfile; i++) {
-                     const distAlong = fixturesPerProfile === 1 ? profileLength/2 : margin + (i * step);
-                     if (isLongitudinal) { drawFixture(pos, distAlong); } else { drawFixture(distAlong, pos); }
-                 }
-             });
-         }
+         layout.fixtures.forEach(f => drawFixture(f.x, f.y));
      } 
 
+     // Floodlight aiming lines (Sports): pole to the point the beam axis meets the surface
+     if (isSports(data)) {
+         ctx.strokeStyle = AIM_LINE_COLOR; ctx.fillStyle = AIM_LINE_COLOR; ctx.lineWidth = 1; ctx.setLineDash([6, 3]);
+         data.objects.forEach(post => (post.floodlights || []).forEach(f => {
+             const mount = floodlightMount(post); const aim = floodlightAimPoint(post, f);
+             ctx.beginPath(); ctx.moveTo(getX(mount.x), getY(mount.y)); ctx.lineTo(getX(aim.x), getY(aim.y)); ctx.stroke();
+             ctx.beginPath(); ctx.arc(getX(aim.x), getY(aim.y), 3, 0, Math.PI * 2); ctx.fill();
+         }));
+         ctx.setLineDash([]);
+     }
+
      // Objects (Racks or Sports Objects)
      const objects = getObjects();
      
@@ -426,6 +651,7 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
 
          sortedForDrawing.forEach((obj) => {
              const isDragged = dragTarget?.id === obj.id;
+             const isSelected = onScreen && selectedIds.includes(obj.id);
              const isHovered = hoveredBlockId === obj.id;
              
              const isMezzanine = obj.type === 'MEZZANINE';
@@ -445,8 +671,8 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
                  const cx = pxX + radius;
                  const cy = pxY + radius;
                  
-                 ctx.fillStyle = isDragged ? '#ffffff' : POST_COLOR;
-                 ctx.strokeStyle = POST_STROKE;
+                 ctx.fillStyle = isSelected ? '#ffffff' : POST_COLOR;
+                 ctx.strokeStyle = isSelected ? SELECTION_COLOR : POST_STROKE;
                  strokeColor = POST_STROKE;
                  ctx.lineWidth = 2;
                  ctx.beginPath();
@@ -459,16 +685,32 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
                  
                  if (mode === 'INDUSTRIAL') {
                     if (isMezzanine) { fillColor = MEZZANINE_COLOR; strokeColor = MEZZANINE_STROKE; }
+                    if (obj.type === 'COLUMN') { fillColor = COLUMN_COLOR; strokeColor = COLUMN_STROKE; }
+                    if (obj.type === 'BEAM') { fillColor = BEAM_COLOR; strokeColor = BEAM_STROKE; }
+                    if (obj.type === 'OBSTACLE') {
+                        const kind = obstacleKindOf(obj);
+                        if (kind === 'DOOR') { fillColor = DOOR_COLOR; strokeColor = DOOR_STROKE; }
+                        else if (kind === 'DOCK') { fillColor = DOCK_COLOR; strokeColor = DOCK_STROKE; }
+                        else if (kind === 'HVAC') { fillColor = HVAC_COLOR; strokeColor = HVAC_STROKE; }
+                        else { fillColor = OBSTACLE_COLOR; strokeColor = OBSTACLE_STROKE; }
+                    }
                  } else {
                     if (isCovering) { fillColor = COVERING_COLOR; strokeColor = '#374151'; }
                  }
 
-                 ctx.fillStyle = isDragged ? fillColor.replace('0.25', '0.4').replace('0.2', '0.3') : (isHovered ? fillColor.replace('0.25', '0.3').replace('0.2', '0.25') : fillColor);
-                 ctx.strokeStyle = isDragged ? '#D02B00' : strokeColor;
-                 ctx.lineWidth = isDragged ? 2 : 1.5;
+                 if (onScreen && issueIds?.includes(obj.id)) { fillColor = ISSUE_COLOR; strokeColor = ISSUE_STROKE; }
+
+                 ctx.fillStyle = isSelected ? fillColor.replace('0.25', '0.4').replace('0.2', '0.3') : (isHovered ? fillColor.replace('0.25', '0.3').replace('0.2', '0.25') : fillColor);
+                 ctx.strokeStyle = isSelected ? SELECTION_COLOR : strokeColor;
+                 ctx.lineWidth = isSelected ? 2 : 1.5;
                  
-                 ctx.fillRect(pxX, pxY, pxW, pxH);
-                 ctx.strokeRect(pxX, pxY, pxW, pxH);
+                 ctx.beginPath();
+                 footprintCorners(obj).forEach((p, i) => { if (i === 0) ctx.moveTo(getX(p.x), getY(p.y)); else ctx.lineTo(getX(p.x), getY(p.y)); });
+                 ctx.closePath();
+                 ctx.fill();
+                 if (obj.type === 'BEAM') ctx.setLineDash([6, 4]); // Overhead
+                 ctx.stroke();
+                 ctx.setLineDash([]);
              }
 
              // Labels
@@ -498,6 +740,15 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
                 const OFFSET = 35;
                 const WALL_DIM_COLOR = '#3b82f6';
                 const NEIGHBOR_DIM_COLOR = '#F03200'; // Silicon Orange
+                // Rotated objects are measured by their bounding boxes, selections as a whole
+                const isMember = (o: typeof obj) => o.id === obj.id || !!dragTarget?.ids.includes(o.id);
+                const box = unionBounds(objects.filter(isMember).map(footprintBounds));
+                const boxX = getX(box.x), boxY = getY(box.y), boxW = toPx(box.width), boxH = toPx(box.depth);
+                if (dragTarget && dragTarget.ids.length > 1) {
+                    ctx.strokeStyle = SELECTION_COLOR; ctx.lineWidth = 1; ctx.setLineDash([6, 4]);
+                    ctx.strokeRect(boxX, boxY, boxW, boxH);
+                    ctx.setLineDash([]);
+                }
                 
                 // 1. Dimensions to Walls (Absolute)
                 const drawProjection = (x1: number, y1: number, x2: number, y2: number) => {
@@ -505,16 +756,16 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
                     ctx.strokeStyle = PROJECTION_COLOR; ctx.setLineDash([3, 3]); ctx.lineWidth = 1; ctx.stroke(); ctx.setLineDash([]);
                 };
                 
-                const wallDimY = pxY + pxH + OFFSET;
-                drawProjection(originX, pxY + pxH, originX, wallDimY); drawProjection(pxX, pxY + pxH, pxX, wallDimY);         
-                drawDimensionLine(originX, wallDimY, pxX, wallDimY, `${obj.x.toFixed(2)}m`, WALL_DIM_COLOR);
+                const wallDimY = boxY + boxH + OFFSET;
+                drawProjection(originX, boxY + boxH, originX, wallDimY); drawProjection(boxX, boxY + boxH, boxX, wallDimY);         
+                drawDimensionLine(originX, wallDimY, boxX, wallDimY, `${box.x.toFixed(2)}m`, WALL_DIM_COLOR);
                 
-                const wallDimX = pxX + pxW + OFFSET;
-                drawProjection(pxX + pxW, originY, wallDimX, originY); drawProjection(pxX + pxW, pxY, wallDimX, pxY); 
-                drawDimensionLine(wallDimX, originY, wallDimX, pxY, `${obj.y.toFixed(2)}m`, WALL_DIM_COLOR);
+                const wallDimX = boxX + boxW + OFFSET;
+                drawProjection(boxX + boxW, originY, wallDimX, originY); drawProjection(boxX + boxW, boxY, wallDimX, boxY); 
+                drawDimensionLine(wallDimX, originY, wallDimX, boxY, `${box.y.toFixed(2)}m`, WALL_DIM_COLOR);
 
                 // 2. Dimensions to Neighbors (Relative / Edge-to-Edge)
-                const otherObjects = objects.filter(o => o.id !== obj.id);
+                const otherObjects = objects.filter(o => !isMember(o)).map(footprintBounds);
                 let closestLeft = null, closestRight = null, closestTop = null, closestBottom = null;
                 let distLeft = Infinity, distRight = Infinity, distTop = Infinity, distBottom = Infinity;
                 
@@ -522,60 +773,60 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
                     // Check Vertical Overlap (Y-range intersection) to determine if they are "side by side"
                     // Add small epsilon to allow for "touching" alignment
                     const EPSILON = 0.05;
-                    const vertOverlap = Math.max(0, Math.min(obj.y + obj.depth, other.y + other.depth) - Math.max(obj.y, other.y) + EPSILON);
+                    const vertOverlap = Math.max(0, Math.min(box.y + box.depth, other.y + other.depth) - Math.max(box.y, other.y) + EPSILON);
                     
                     if (vertOverlap > 0) {
                          // Neighbor is to the Right
-                         if (other.x >= obj.x + obj.width) {
-                             const gap = other.x - (obj.x + obj.width);
+                         if (other.x >= box.x + box.width) {
+                             const gap = other.x - (box.x + box.width);
                              if (gap < distRight) { distRight = gap; closestRight = other; }
                          }
                          // Neighbor is to the Left
-                         if (other.x + other.width <= obj.x) {
-                             const gap = obj.x - (other.x + other.width);
+                         if (other.x + other.width <= box.x) {
+                             const gap = box.x - (other.x + other.width);
                              if (gap < distLeft) { distLeft = gap; closestLeft = other; }
                          }
                     }
 
                     // Check Horizontal Overlap (X-range intersection) to determine if they are "above/below"
-                    const horzOverlap = Math.max(0, Math.min(obj.x + obj.width, other.x + other.width) - Math.max(obj.x, other.x) + EPSILON);
+                    const horzOverlap = Math.max(0, Math.min(box.x + box.width, other.x + other.width) - Math.max(box.x, other.x) + EPSILON);
 
                     if (horzOverlap > 0) {
                         // Neighbor is Below
-                        if (other.y >= obj.y + obj.depth) {
-                            const gap = other.y - (obj.y + obj.depth);
+                        if (other.y >= box.y + box.depth) {
+                            const gap = other.y - (box.y + box.depth);
                             if (gap < distBottom) { distBottom = gap; closestBottom = other; }
                         }
                         // Neighbor is Above
-                        if (other.y + other.depth <= obj.y) {
-                            const gap = obj.y - (other.y + other.depth);
+                        if (other.y + other.depth <= box.y) {
+                            const gap = box.y - (other.y + other.depth);
                             if (gap < distTop) { distTop = gap; closestTop = other; }
                         }
                     }
                 });
 
                 // Draw Neighbor Dimensions
-                const cy = pxY + pxH / 2;
-                const cx = pxX + pxW / 2;
+                const cy = boxY + boxH / 2;
+                const cx = boxX + boxW / 2;
 
                 if (closestRight) {
                     const targetX = getX(closestRight.x); // Left edge of right neighbor
-                    drawDimensionLine(pxX + pxW, cy, targetX, cy, `${distRight.toFixed(2)}m`, NEIGHBOR_DIM_COLOR);
+                    drawDimensionLine(boxX + boxW, cy, targetX, cy, `${distRight.toFixed(2)}m`, NEIGHBOR_DIM_COLOR);
                 }
 
                 if (closestLeft) {
                     const targetX = getX(closestLeft.x + closestLeft.width); // Right edge of left neighbor
-                    drawDimensionLine(pxX, cy, targetX, cy, `${distLeft.toFixed(2)}m`, NEIGHBOR_DIM_COLOR);
+                    drawDimensionLine(boxX, cy, targetX, cy, `${distLeft.toFixed(2)}m`, NEIGHBOR_DIM_COLOR);
                 }
                 
                 if (closestBottom) {
                     const targetY = getY(closestBottom.y); // Top edge of bottom neighbor
-                    drawDimensionLine(cx, pxY + pxH, cx, targetY, `${distBottom.toFixed(2)}m`, NEIGHBOR_DIM_COLOR);
+                    drawDimensionLine(cx, boxY + boxH, cx, targetY, `${distBottom.toFixed(2)}m`, NEIGHBOR_DIM_COLOR);
                 }
 
                 if (closestTop) {
                     const targetY = getY(closestTop.y + closestTop.depth); // Bottom edge of top neighbor
-                    drawDimensionLine(cx, pxY, cx, targetY, `${distTop.toFixed(2)}m`, NEIGHBOR_DIM_COLOR);
+                    drawDimensionLine(cx, boxY, cx, targetY, `${distTop.toFixed(2)}m`, NEIGHBOR_DIM_COLOR);
                 }
 
              }
@@ -669,6 +920,35 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
             prevAnchorX = centerX;
         });
      }
+
+     // Rubber band selection
+     if (onScreen && band) {
+        const bx = getX(Math.min(band.x0, band.x1)), by = getY(Math.min(band.y0, band.y1));
+        const bw = toPx(Math.abs(band.x1 - band.x0)), bh = toPx(Math.abs(band.y1 - band.y0));
+        ctx.fillStyle = 'rgba(208, 43, 0, 0.08)';
+        ctx.fillRect(bx, by, bw, bh);
+        ctx.strokeStyle = SELECTION_COLOR; ctx.lineWidth = 1; ctx.setLineDash([4, 3]);
+        ctx.strokeRect(bx, by, bw, bh);
+        ctx.setLineDash([]);
+     }
+
+     // Snap guides: aligned edges and walls, target aisles
+     if (onScreen) {
+        guides.forEach(guide => {
+            if (guide.kind === 'AISLE') {
+                const text = `${Math.abs(guide.end - guide.start).toFixed(2)}m`;
+                if (guide.axis === 'x') drawDimensionLine(getX(guide.start), getY(guide.cross), getX(guide.end), getY(guide.cross), text, SNAP_GUIDE_COLOR);
+                else drawDimensionLine(getX(guide.cross), getY(guide.start), getX(guide.cross), getY(guide.end), text, SNAP_GUIDE_COLOR);
+                return;
+            }
+            ctx.strokeStyle = SNAP_GUIDE_COLOR; ctx.lineWidth = 1; ctx.setLineDash(guide.kind === 'WALL' ? [2, 3] : [6, 3]);
+            ctx.beginPath();
+            if (guide.axis === 'x') { ctx.moveTo(getX(guide.at), getY(guide.from) - 12); ctx.lineTo(getX(guide.at), getY(guide.to) + 12); }
+            else { ctx.moveTo(getX(guide.from) - 12, getY(guide.at)); ctx.lineTo(getX(guide.to) + 12, getY(guide.at)); }
+            ctx.stroke();
+            ctx.setLineDash([]);
+        });
+     }
      
      return { originX, originY, scale: finalScale, drawWidth, drawLength };
   };
@@ -704,7 +984,7 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
       const headerHeight = 120;
       
       // Data Grid Calculation (Row height approx 70px + padding)
-      const dataSectionHeight = 220; 
+      const dataSectionHeight = 290; 
       
       const obsHeight = data.observations ? 100 : 0;
       
@@ -732,7 +1012,7 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
       // --- HEADER ---
       // Logo / Brand
       drawText(ctx, "Schema", padding, currentY + 10, 40, textDark, 'bold');
-      drawText(ctx, "INDUSTRIAL BUILDER", padding, currentY + 40, 14, brandOrange, '600');
+      drawText(ctx, mode === 'SPORTS' ? "SPORTS BUILDER" : "INDUSTRIAL BUILDER", padding, currentY + 40, 14, mode === 'SPORTS' ? brandTeal : brandOrange, '600');
       
       // Date
       const dateStr = new Date().toLocaleDateString();
@@ -747,7 +1027,7 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
 
       // Draw Grid Background
       const gridY = currentY;
-      const boxHeight = 160;
+      const boxHeight = 230;
       ctx.fillStyle = '#f8f9fa';
       ctx.fillRect(padding, gridY, contentWidth, boxHeight);
       ctx.strokeStyle = '#e9ecef';
@@ -767,36 +1047,51 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
       };
 
       // Row 1
-      let projectName = "Sem Título";
-      if (isIndustrial(data) && data.projectName) projectName = data.projectName;
+      const projectName = data.projectName || "Sem Título";
+      const objs = getObjects();
+      const posts = objs.filter(o => o.type === 'POST');
+      const coverings = objs.filter(o => o.type === 'COVERING');
       
       drawDataItem(0, 0, "Nome do Projeto", projectName);
-      drawDataItem(1, 0, "Dimensões", `${data.width}m x ${data.length}m`, `Área: ${(data.width * data.length).toFixed(0)}m²`);
-      drawDataItem(2, 0, "Pé Direito", isIndustrial(data) ? `${data.ceilingHeight}m` : "N/A");
+      drawDataItem(1, 0, "Dimensões", `${data.width}m x ${data.length}m`, `Área: ${hallArea(data).toFixed(0)}m²`);
+      if (isIndustrial(data)) drawDataItem(2, 0, "Pé Direito", `${data.ceilingHeight}m`);
+      else drawDataItem(2, 0, "Postes", `${posts.length}`, posts.length > 0 ? `Altura máx. ${Math.max(...posts.map(p => p.height))}m` : "");
 
       // Row 2
-      drawDataItem(0, 1, "Nível de Lux", isIndustrial(data) ? `${data.luxRequired} lux` : "N/A");
+      if (isIndustrial(data)) drawDataItem(0, 1, "Nível de Lux", `${data.luxRequired} lux`);
+      else drawDataItem(0, 1, "Coberturas", `${coverings.length}`, coverings.length > 0 ? `Área: ${coverings.reduce((sum, c) => sum + c.width * c.depth, 0).toFixed(0)}m²` : "");
       
       // Lighting Logic
       let lightingMain = "Não Definido";
       let lightingSub = "";
       if (isIndustrial(data) && data.lighting.isActive) {
-          const { mode, value, offset, fixturesPerProfile } = data.lighting;
+          const { mode, value, offset } = data.lighting;
+          const layout = computeLightingLayout(data);
           const modeText = mode === LightingMode.Distance ? `Dist. ${value}m` : `${value} Linhas`;
           lightingMain = `${modeText} (Offset ${offset}m)`;
-          lightingSub = fixturesPerProfile > 0 ? `${fixturesPerProfile} Luminárias/Perfil` : "";
+          const spacingText = layout.profileSpacing > 0 ? `, a cada ${layout.profileSpacing.toFixed(2)}m` : "";
+          lightingSub = `${layout.profiles.length} Perfilados${spacingText} | ${layout.fixtures.length} Luminárias`;
       }
       drawDataItem(1, 1, "Infra. Iluminação", lightingMain, lightingSub);
 
       // Objects Logic
-      const objs = getObjects();
       const racksCount = objs.filter(o => o.type === 'RACK').length;
       const mezzCount = objs.filter(o => o.type === 'MEZZANINE').length;
-      const totalObjs = racksCount + mezzCount;
+      const totalObjs = mode === 'SPORTS' ? posts.length + coverings.length : racksCount + mezzCount;
       const objText = totalObjs > 0 ? `${totalObjs} Objetos` : "Nenhum";
-      const objSub = totalObjs > 0 ? `(${racksCount} Racks, ${mezzCount} Mezaninos)` : "";
+      const objSub = totalObjs > 0 ? (mode === 'SPORTS' ? `(${posts.length} Postes, ${coverings.length} Coberturas)` : `(${racksCount} Racks, ${mezzCount} Mezaninos)`) : "";
       drawDataItem(2, 1, "Objetos", objText, objSub);
 
+      // Row 3: Calculated Illuminance
+      const illuminance = isIndustrial(data) ? computeIlluminance(data) : null;
+      if (illuminance && isIndustrial(data)) {
+          drawDataItem(0, 2, "Iluminância Calculada", `${illuminance.averageLux.toFixed(0)} lux`, `Método dos Lúmens: ${illuminance.lumenMethodLux.toFixed(0)} lux`);
+          drawDataItem(1, 2, "Uniformidade (U0)", illuminance.uniformity.toFixed(2), `Emin ${illuminance.minLux.toFixed(0)} / Emax ${illuminance.maxLux.toFixed(0)} lux`);
+          drawDataItem(2, 2, "Resultado", illuminance.passes ? "ATENDE" : "NÃO ATENDE", `${illuminance.fixtureCount} Luminárias, ${(illuminance.installedWatts / 1000).toFixed(1)} kW`);
+      } else {
+          drawDataItem(0, 2, "Iluminância Calculada", "N/A");
+      }
+
       currentY += boxHeight + sectionGap;
 
       // --- OBSERVATIONS ---
@@ -860,22 +1155,38 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
 
       // --- SAVE ---
       const link = document.createElement('a');
-      const filename = isIndustrial(data) && data.projectName ? data.projectName : `Schema-${mode}`;
+      const filename = data.projectName || `Schema-${mode}`;
       link.download = `${filename.replace(/\s+/g, '_')}_Report.png`;
       link.href = tempCanvas.toDataURL('image/png');
       link.click();
+    },
+
+    // Paginated vector report (plan at a standard scale, 3D, memorial)
+    downloadPdf: (options: PdfReportOptions) => {
+      const blob = buildPdfReport(data, options, {
+        planFitScale: getBaseScale2D,
+        drawPlan: (ctx, w, h, pxPerMeter) => drawScene2D(ctx, w, h, { scale: pxPerMeter / getBaseScale2D(w, h), x: 0, y: 0 }),
+        draw3D: (ctx, w, h) => drawScene3D(ctx, w, h, true),
+      }, isIndustrial(data) ? loadPriceCatalog() : undefined);
+      downloadBlob(blob, `${fileBaseName(data.projectName, `Schema-${mode}`)}_Relatorio_${options.paper}.pdf`);
+    },
+
+    // Small 2D plan snapshot used by the project library
+    getThumbnail: (thumbWidth = 320, thumbHeight = 200) => {
+      const thumb = document.createElement('canvas');
+      thumb.width = thumbWidth;
+      thumb.height = thumbHeight;
+      const ctx = thumb.getContext('2d');
+      if (!ctx) return '';
+      drawScene2D(ctx, thumbWidth, thumbHeight);
+      return thumb.toDataURL('image/png');
     }
   }));
 
   // --- MOUSE HANDLERS ---
   const getMetrics = () => {
       const canvas = canvasRef.current; if (!canvas) return null;
-      const padding = 60; 
-      const availableWidth = canvas.width - padding * 2;
-      const availableHeight = canvas.height - padding * 2;
-      const baseScaleX = availableWidth / (data.width || 1);
-      const baseScaleY = availableHeight / (data.length || 1);
-      const baseScale = Math.min(baseScaleX, baseScaleY);
+      const baseScale = getBaseScale2D(canvas.width, canvas.height);
       const finalScale = baseScale * transform.scale;
       const drawWidth = data.width * finalScale;
       const drawLength = data.length * finalScale;
@@ -898,9 +1209,105 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
       };
   };
 
+  // Outline vertex under the cursor (polygonal industrial halls only)
+  const findVertexAt = (e: React.MouseEvent): number | null => {
+      const metrics = getMetrics();
+      if (!metrics || !isIndustrial(data) || !isPolygonalHall(data)) return null;
+      const { x: mouseX, y: mouseY } = getCanvasCoordinates(e);
+      const index = data.outline!.findIndex(p =>
+          Math.abs(metrics.originX + p.x * metrics.scale - mouseX) <= VERTEX_HANDLE &&
+          Math.abs(metrics.originY + p.y * metrics.scale - mouseY) <= VERTEX_HANDLE);
+      return index >= 0 ? index : null;
+  };
+
+  const canMove = !!(onRacksMove || onRackMove);
+
+  const emitMoves = (moves: ObjectMove[]) => {
+      if (moves.length === 0) return;
+      if (onRacksMove) onRacksMove(moves);
+      else moves.forEach(m => onRackMove?.(m.id, m.x, m.y));
+  };
+
+  // Fixed building elements picked from the side list stay put
+  const movableObjects = () => getObjects().filter(o => !('locked' in o && o.locked));
+
+  const toGrid = (v: number) => (snap.grid > 0 ? Math.round(v / snap.grid) * snap.grid : v);
+
+  // Industrial: object `o` moved by (ddx, ddy) stays on the floor and off the building elements
+  const fitsAt = (o: RackBlock | SportsObject, ddx: number, ddy: number) => {
+      if (!isIndustrial(data)) return true;
+      const b = footprintBounds(o);
+      return isInsideHall(data, b.x + ddx, b.y + ddy, b.width, b.depth) &&
+          !overlapsBuildingElement(data.storage.racks, { ...o, elevation: o.elevation || 0 }, o.x + ddx, o.y + ddy);
+  };
+
+  // Moves `ids` together by (dx, dy). Industrial: the union box stays between the walls, and the
+  // objects slide along polygonal walls and building elements instead of crossing them (objects
+  // already in a bad spot, e.g. after an outline edit, move freely). Returns the applied move.
+  const moveObjects = (ids: string[], dx: number, dy: number): { dx: number, dy: number } | null => {
+      const moving = movableObjects().filter(o => ids.includes(o.id));
+      if (moving.length === 0) return null;
+      if (isIndustrial(data)) {
+          const box = unionBounds(moving.map(footprintBounds));
+          if (box.width <= data.width) dx = Math.max(-box.x, Math.min(dx, data.width - box.x - box.width));
+          if (box.depth <= data.length) dy = Math.max(-box.y, Math.min(dy, data.length - box.y - box.depth));
+          const fits = (ddx: number, ddy: number) => moving.every(o => fitsAt(o, ddx, ddy));
+          if (!fits(dx, dy) && fits(0, 0)) {
+              if (fits(dx, 0)) dy = 0;
+              else if (fits(0, dy)) dx = 0;
+              else return null;
+          }
+      }
+      if (Math.abs(dx) < 1e-9 && Math.abs(dy) < 1e-9) return { dx: 0, dy: 0 };
+      emitMoves(moving.map(o => ({ id: o.id, x: round3(o.x + dx), y: round3(o.y + dy) })));
+      return { dx, dy };
+  };
+
+  // Align / distribute with the same wall and building element checks as dragging: an object that
+  // would land somewhere it does not fit stays where it is
+  const emitFittingMoves = (moves: ObjectMove[]) => {
+      const objects = movableObjects();
+      emitMoves(moves.filter(m => {
+          const o = objects.find(obj => obj.id === m.id);
+          return !o || fitsAt(o, m.x - o.x, m.y - o.y) || !fitsAt(o, 0, 0);
+      }));
+  };
+
+  const applyAlign = (mode: AlignMode) => emitFittingMoves(alignSelection(movableObjects(), selectedIds, mode));
+  const applyDistribute = (axis: DistributeAxis) => emitFittingMoves(distributeSelection(movableObjects(), selectedIds, axis));
+
+  // Arrow-key step: one grid cell, or a fine step with the grid off (also shown in the toolbar hint)
+  const nudgeStep = snap.grid > 0 ? snap.grid : FINE_NUDGE;
+
+  // Arrow keys nudge, Ctrl+C / Ctrl+V duplicate, Esc clears the selection
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (viewMode === '3D' || !isInteractive) return;
+      const ctrl = e.ctrlKey || e.metaKey;
+      const NUDGE: Record<string, [number, number]> = {
+          ArrowLeft: [-nudgeStep, 0], ArrowRight: [nudgeStep, 0],
+          ArrowUp: [0, -nudgeStep], ArrowDown: [0, nudgeStep],
+      };
+      if (NUDGE[e.key] && selectedIds.length > 0 && canMove) {
+          e.preventDefault();
+          moveObjects(selectedIds, ...NUDGE[e.key]);
+      } else if (ctrl && e.key.toLowerCase() === 'c' && selectedIds.length > 0) {
+          clipboard.current = selectedIds;
+      } else if (ctrl && e.key.toLowerCase() === 'v' && clipboard.current.length > 0 && onDuplicate) {
+          e.preventDefault();
+          const copies = onDuplicate(clipboard.current);
+          if (copies.length === 0) return;
+          setSelectedIds(copies);
+          clipboard.current = copies; // Pasting again cascades from the last copies
+      } else if (e.key === 'Escape') {
+          setSelectedIds([]);
+      }
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
     if (viewMode === '3D') return;
     if (e.button === 1 || e.button === 2 || e.altKey) { setIsPanning(true); setLastMousePos({ x: e.clientX, y: e.clientY }); return; }
+    const vertex = onVertexMove ? findVertexAt(e) : null;
+    if (vertex !== null) { setDragVertex(vertex); onDragStart?.(); return; }
     if (!isInteractive) return;
     const metrics = getMetrics(); if (!metrics) return;
     
@@ -913,22 +1320,30 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
 
     const objects = getObjects();
     const clickedObj = [...objects].reverse().find(obj => {
-        const pxX = metrics.originX + (obj.x * metrics.scale);
-        const pxY = metrics.originY + (obj.y * metrics.scale);
-        const pxW = obj.width * metrics.scale;
-        const pxH = obj.depth * metrics.scale;
-        
-        const hitX = pxX - HIT_PADDING;
-        const hitY = pxY - HIT_PADDING;
-        const hitW = pxW + (HIT_PADDING * 2);
-        const hitH = pxH + (HIT_PADDING * 2);
-
-        return mouseX >= hitX && mouseX <= hitX + hitW && mouseY >= hitY && mouseY <= hitY + hitH;
+        if ('locked' in obj && obj.locked) return false; // Fixed building elements
+        // Rotated footprint, grown by the hit padding on every side
+        const pad = HIT_PADDING / metrics.scale;
+        const hitArea = { ...obj, x: obj.x - pad, y: obj.y - pad, width: obj.width + pad * 2, depth: obj.depth + pad * 2 };
+        return pointInFootprint(hitArea, (mouseX - metrics.originX) / metrics.scale, (mouseY - metrics.originY) / metrics.scale);
     });
     if (clickedObj) {
+        // Bays of an array are picked together; Shift adds to the selection or removes from it
+        const picked = expandToGroups(objects, [clickedObj.id]);
+        const isSelected = selectedIds.includes(clickedObj.id);
+        if (e.shiftKey && isSelected) {
+            setSelectedIds(selectedIds.filter(id => !picked.includes(id)));
+            return;
+        }
+        const ids = e.shiftKey ? [...selectedIds, ...picked] : (isSelected ? selectedIds : picked);
+        setSelectedIds(ids);
+        if (!canMove) return;
         const rackPxX = metrics.originX + (clickedObj.x * metrics.scale);
         const rackPxY = metrics.originY + (clickedObj.y * metrics.scale);
-        setDragTarget({ id: clickedObj.id, offsetX: mouseX - rackPxX, offsetY: mouseY - rackPxY });
+        setDragTarget({ id: clickedObj.id, ids, offsetX: mouseX - rackPxX, offsetY: mouseY - rackPxY });
+        onDragStart?.();
+    } else {
+        const x = (mouseX - metrics.originX) / metrics.scale, y = (mouseY - metrics.originY) / metrics.scale;
+        setBand({ x0: x, y0: y, x1: x, y1: y, additive: e.shiftKey });
     }
   };
 
@@ -940,6 +1355,14 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
         setLastMousePos({ x: e.clientX, y: e.clientY });
         return; 
     }
+    if (dragVertex !== null && onVertexMove) {
+        const metrics = getMetrics(); if (!metrics) return;
+        const { x: mouseX, y: mouseY } = getCanvasCoordinates(e);
+        const xMeters = round3(toGrid((mouseX - metrics.originX) / metrics.scale));
+        const yMeters = round3(toGrid((mouseY - metrics.originY) / metrics.scale));
+        onVertexMove(dragVertex, xMeters, yMeters);
+        return;
+    }
     if (!isInteractive) return;
     const metrics = getMetrics(); if (!metrics) return;
     
@@ -948,51 +1371,68 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
     
     const HIT_PADDING = 0; // Strict hit detection
 
-    if (dragTarget && onRackMove) {
+    if (dragTarget && canMove) {
         const rawX = mouseX - dragTarget.offsetX;
         const rawY = mouseY - dragTarget.offsetY;
         let xMeters = (rawX - metrics.originX) / metrics.scale;
         let yMeters = (rawY - metrics.originY) / metrics.scale;
-        // Snap logic (Updated for Sports Mode to 0.5m)
-        const SNAP_INCREMENT = 0.5; // Always 0.5m
-        xMeters = Math.round(xMeters / SNAP_INCREMENT) * SNAP_INCREMENT;
-        yMeters = Math.round(yMeters / SNAP_INCREMENT) * SNAP_INCREMENT;
         
         const objects = getObjects();
         const obj = objects.find(r => r.id === dragTarget.id);
         if (obj) {
             if (mode === 'SPORTS') {
-                // ALLOW MOVEMENT OUTSIDE THE FIELD (Buffer of 50m)
+                // Snap to the grid, ALLOW MOVEMENT OUTSIDE THE FIELD (Buffer of 50m)
+                xMeters = toGrid(xMeters);
+                yMeters = toGrid(yMeters);
                 xMeters = Math.max(-50, Math.min(xMeters, data.width + 50));
                 yMeters = Math.max(-50, Math.min(yMeters, data.length + 50));
+                moveObjects(dragTarget.ids, xMeters - obj.x, yMeters - obj.y);
             } else {
-                // Industrial limits (Strictly inside)
-                xMeters = Math.max(0, Math.min(xMeters, data.width - obj.width));
-                yMeters = Math.max(0, Math.min(yMeters, data.length - obj.depth));
+                // Industrial: the bounding box of the whole selection snaps to the grid, or to the
+                // edges / aisles of the objects and walls around it
+                const box = unionBounds(objects.filter(o => dragTarget.ids.includes(o.id)).map(footprintBounds));
+                const others = objects.filter(o => !dragTarget.ids.includes(o.id)).map(footprintBounds);
+                const snapped = snapMove(box, xMeters - obj.x, yMeters - obj.y, others, wallSegments(getFloor()), snap, SNAP_REACH_PX / metrics.scale);
+                const applied = moveObjects(dragTarget.ids, snapped.dx, snapped.dy);
+                // Guides only when the walls / building elements did not push the selection elsewhere
+                setGuides(applied && Math.abs(applied.dx - snapped.dx) < 1e-6 && Math.abs(applied.dy - snapped.dy) < 1e-6 ? snapped.guides : []);
             }
-            onRackMove(dragTarget.id, xMeters, yMeters);
         }
         return;
     }
+    if (band) {
+        setBand({ ...band, x1: (mouseX - metrics.originX) / metrics.scale, y1: (mouseY - metrics.originY) / metrics.scale });
+        return;
+    }
     // Hover logic
     const objects = getObjects();
     const hovered = [...objects].reverse().find(obj => {
-        const pxX = metrics.originX + (obj.x * metrics.scale);
-        const pxY = metrics.originY + (obj.y * metrics.scale);
-        const pxW = obj.width * metrics.scale;
-        const pxH = obj.depth * metrics.scale;
-        
-        const hitX = pxX - HIT_PADDING;
-        const hitY = pxY - HIT_PADDING;
-        const hitW = pxW + (HIT_PADDING * 2);
-        const hitH = pxH + (HIT_PADDING * 2);
-
-        return mouseX >= hitX && mouseX <= hitX + hitW && mouseY >= hitY && mouseY <= hitY + hitH;
+        if ('locked' in obj && obj.locked) return false;
+        // Rotated footprint, grown by the hit padding on every side
+        const pad = HIT_PADDING / metrics.scale;
+        const hitArea = { ...obj, x: obj.x - pad, y: obj.y - pad, width: obj.width + pad * 2, depth: obj.depth + pad * 2 };
+        return pointInFootprint(hitArea, (mouseX - metrics.originX) / metrics.scale, (mouseY - metrics.originY) / metrics.scale);
     });
     setHoveredBlockId(hovered ? hovered.id : null);
   };
 
-  const handleMouseUp = () => { setDragTarget(null); setIsPanning(false); };
+  const handleMouseUp = () => {
+    if (dragTarget || dragVertex !== null) onDragEnd?.();
+    if (band) {
+        // Everything the band touches (a plain click on the floor clears the selection)
+        const x = Math.min(band.x0, band.x1), y = Math.min(band.y0, band.y1);
+        const w = Math.abs(band.x1 - band.x0), d = Math.abs(band.y1 - band.y0);
+        const objects = getObjects();
+        const touched = w > 0 || d > 0 ? objects.filter(o => {
+            if ('locked' in o && o.locked) return false;
+            const b = footprintBounds(o);
+            return b.x < x + w && x < b.x + b.width && b.y < y + d && y < b.y + b.depth;
+        }).map(o => o.id) : [];
+        const picked = expandToGroups(objects, touched);
+        setSelectedIds(band.additive ? [...new Set([...selectedIds, ...picked])] : picked);
+    }
+    setDragTarget(null); setDragVertex(null); setIsPanning(false); setBand(null); setGuides([]);
+  };
   const handleWheel = (e: React.WheelEvent) => {
     if (viewMode === '3D') return;
     const delta = -e.deltaY; const zoomFactor = 1.1; let newScale = transform.scale;
@@ -1007,16 +1447,26 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
     const ctx = canvas.getContext('2d'); if (!ctx) return;
     
     if (viewMode === '3D') {
-      drawScene3D(ctx, canvas.width, canvas.height);
+      if (!showOrbit) drawScene3D(ctx, canvas.width, canvas.height);
     } else {
-      drawScene2D(ctx, canvas.width, canvas.height, transform);
+      drawScene2D(ctx, canvas.width, canvas.height, transform, !!onVertexMove, true);
     }
-  }, [data, width, height, dragTarget, hoveredBlockId, viewMode, transform, mode]);
+  }, [data, width, height, dragTarget, dragVertex, hoveredBlockId, viewMode, transform, mode, heatmap, onVertexMove, issueIds, selectedIds, band, guides, showOrbit]);
+
+  // Drop deleted objects from the selection; leaving the editing step clears it
+  useEffect(() => {
+    const next = isInteractive ? selectedIds.filter(id => getObjects().some(o => o.id === id)) : [];
+    if (next.length !== selectedIds.length) setSelectedIds(next);
+  }, [data, isInteractive, selectedIds]);
+
+  const selectionUnits = viewMode === '2D' && isInteractive && canMove ? selectionUnitCount(movableObjects(), selectedIds) : 0;
 
   return (
     <div 
-        className="relative bg-white shadow-2xl shadow-black/50 rounded-sm overflow-hidden flex justify-center items-center select-none border-8 border-white ring-1 ring-gray-900 group"
+        className="relative bg-white shadow-2xl shadow-black/50 rounded-sm overflow-hidden flex justify-center items-center select-none border-8 border-white ring-1 ring-gray-900 group outline-none"
         onContextMenu={(e) => e.preventDefault()} 
+        tabIndex={isInteractive ? 0 : undefined}
+        onKeyDown={handleKeyDown}
     >
       <canvas 
         ref={canvasRef} 
@@ -1027,14 +1477,65 @@ export const WarehouseCanvas = forwardRef<CanvasHandle, WarehouseCanvasProps>(({
         onMouseUp={handleMouseUp}
         onMouseLeave={handleMouseUp}
         onWheel={handleWheel}
-        className={`max-w-full h-auto ${isInteractive ? (isPanning ? 'cursor-move' : (dragTarget ? 'cursor-grabbing' : 'cursor-grab')) : 'cursor-default'}`}
+        className={`max-w-full h-auto ${showOrbit ? 'hidden' : ''} ${isInteractive || onVertexMove ? (isPanning ? 'cursor-move' : (dragTarget || dragVertex !== null ? 'cursor-grabbing' : 'cursor-grab')) : 'cursor-default'}`}
       />
+
+      {showOrbit && (
+          <OrbitView data={data} mode={mode as 'INDUSTRIAL' | 'SPORTS'} width={width} height={height} onUnavailable={() => setWebglFailed(true)} />
+      )}
       
       {viewMode === '2D' && (
           <div className="absolute bottom-4 left-4 flex gap-2">
               <button className="bg-gray-800/80 text-white p-2 rounded-full" onClick={() => setTransform(prev => ({...prev, scale: Math.min(prev.scale * 1.2, 10)}))}><ZoomIn size={16} /></button>
               <button className="bg-gray-800/80 text-white p-2 rounded-full" onClick={() => setTransform(prev => ({...prev, scale: Math.max(prev.scale / 1.2, 0.5)}))}><ZoomOut size={16} /></button>
               <button className="bg-gray-800/80 text-white p-2 rounded-full" onClick={() => setTransform({ scale: 1, x: 0, y: 0 })}><Maximize size={16} /></button>
+              {canShowHeatmap && (
+                  <button
+                      className={`p-2 rounded-full transition-colors ${showHeatmap ? 'bg-silicon-orange text-white' : 'bg-gray-800/80 text-white'}`}
+                      onClick={() => setShowHeatmap(prev => !prev)}
+                      title="Mapa de Iluminância"
+                  >
+                      <Thermometer size={16} />
+                  </button>
+              )}
+          </div>
+      )}
+
+      {/* Selection Toolbar */}
+      {selectionUnits > 0 && (
+          <div className="absolute top-4 left-4 flex items-center gap-1 bg-gray-800/80 text-white rounded-full px-3 py-1 text-[10px]">
+              <span className="mr-1 whitespace-nowrap" title={`Setas: mover ${String(nudgeStep).replace('.', ',')} m • Ctrl+C / Ctrl+V: duplicar • Esc: limpar`}>
+                  {selectedIds.length} selecionado{selectedIds.length > 1 ? 's' : ''}
+              </span>
+              {selectionUnits > 1 && ALIGN_TOOLS.map(({ mode: alignMode, title, icon: Icon }) => (
+                  <button key={alignMode} className="p-1 rounded-full hover:bg-silicon-orange transition-colors" title={title} onClick={() => applyAlign(alignMode)}>
+                      <Icon size={14} />
+                  </button>
+              ))}
+              {selectionUnits > 2 && (
+                  <>
+                      <button className="p-1 rounded-full hover:bg-silicon-orange transition-colors" title="Distribuir na horizontal (espaços iguais)" onClick={() => applyDistribute('X')}>
+                          <AlignHorizontalSpaceBetween size={14} />
+                      </button>
+                      <button className="p-1 rounded-full hover:bg-silicon-orange transition-colors" title="Distribuir na vertical (espaços iguais)" onClick={() => applyDistribute('Y')}>
+                          <AlignVerticalSpaceBetween size={14} />
+                      </button>
+                  </>
+              )}
+          </div>
+      )}
+
+      {/* Heatmap Legend */}
+      {heatmap && (
+          <div className="absolute top-4 right-4 bg-white/90 border border-gray-200 rounded-lg p-3 shadow text-[10px] text-gray-700 w-44">
+              <p className="font-bold uppercase tracking-wider mb-2">Iluminância (lux)</p>
+              <div className="h-3 rounded" style={{ background: `linear-gradient(90deg, ${[0, 0.25, 0.5, 0.75, 1].map(t => falseColor(t)).join(', ')})` }}></div>
+              <div className="flex justify-between mt-1 font-mono">
+                  <span>0</span>
+                  <span>{(heatmap.maxLux / 2).toFixed(0)}</span>
+                  <span>{heatmap.maxLux.toFixed(0)}</span>
+              </div>
+              <p className="mt-2">Emed: <strong>{heatmap.averageLux.toFixed(0)}</strong> | Emin: <strong>{heatmap.minLux.toFixed(0)}</strong></p>
           </div>
       )}
     </div>
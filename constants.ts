@@ -8,6 +8,13 @@ export const STEP_TITLES = [
   "Resumo Técnico" // Step 5 (Was 6)
 ];
 
+export const SPORTS_STEP_TITLES = [
+  "Dimensões do Campo", // Step 1
+  "Postes e Coberturas", // Step 2
+  "Iluminação Esportiva", // Step 3
+  "Resumo Técnico" // Step 4
+];
+
 // Silicon Brand Colors for Canvas
 export const PALLET_COLOR = "rgba(240, 50, 0, 0.25)"; // #F03200 with low opacity
 export const PALLET_STROKE = "#F03200"; // Silicon Orange
@@ -23,9 +30,31 @@ export const FIXTURE_GLOW = "rgba(246, 200, 71, 0.8)"; // Stronger Yellow Glow
 export const WALL_COLOR = "#1f2937"; // Gray-800
 export const DIMENSION_COLOR = "#7F3F98"; // Silicon Purple
 
+// Building elements (fixed)
+export const COLUMN_COLOR = "#6b7280"; // Gray-500
+export const COLUMN_STROKE = "#1f2937"; // Gray-800
+export const OBSTACLE_COLOR = "rgba(107, 114, 128, 0.3)"; // Gray-500 low opacity
+export const OBSTACLE_STROKE = "#4b5563"; // Gray-600
+export const BEAM_COLOR = "rgba(75, 85, 99, 0.35)"; // Gray-600 low opacity (drawn dashed, hangs overhead)
+export const BEAM_STROKE = "#374151"; // Gray-700
+export const DOOR_COLOR = "rgba(245, 158, 11, 0.3)"; // Amber-500 low opacity
+export const DOOR_STROKE = "#b45309"; // Amber-700
+export const DOCK_COLOR = "rgba(234, 179, 8, 0.25)"; // Yellow-500 low opacity
+export const DOCK_STROKE = "#a16207"; // Yellow-700
+export const HVAC_COLOR = "rgba(59, 130, 246, 0.25)"; // Blue-500 low opacity
+export const HVAC_STROKE = "#1d4ed8"; // Blue-700
+
+// Layout validation
+export const ISSUE_COLOR = "rgba(239, 68, 68, 0.25)"; // Red-500 low opacity
+export const ISSUE_STROKE = "#dc2626"; // Red-600
+
+// Snap guides while dragging
+export const SNAP_GUIDE_COLOR = "#db2777"; // Pink-600
+
 // SPORTS MODULE COLORS
 export const GRASS_COLOR = "#ecfdf5"; // Technical Mint Green (Emerald-50) - Prettier than white
 export const FIELD_LINE_COLOR = "#1f2937"; // Gray-800 for high contrast
 export const POST_COLOR = "#9ca3af"; // Gray-400
 export const POST_STROKE = "#374151"; // Gray-700
-export const COVERING_COLOR = "rgba(66, 192, 181, 0.2)"; // Silicon Teal transparent
\ No newline at end of file
+export const COVERING_COLOR = "rgba(66, 192, 181, 0.2)"; // Silicon Teal transparent
+export const AIM_LINE_COLOR = "#d97706"; // Amber-600: floodlight aiming lines
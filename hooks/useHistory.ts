@@ -0,0 +1,99 @@
+import { useState, useCallback } from 'react';
+
+// --- UNDO / REDO HISTORY ---
+// Drop-in replacement for useState that records every change. Changes made
+// between beginBatch() and endBatch() (e.g. a whole drag) collapse into one step.
+
+const HISTORY_LIMIT = 100;
+
+type Updater<T> = T | ((prev: T) => T);
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  batch: 'IDLE' | 'PENDING' | 'ACTIVE';
+}
+
+export interface History<T> {
+  state: T;
+  set: (update: Updater<T>) => void;
+  undo: () => void;
+  redo: () => void;
+  reset: (value: T) => void;
+  beginBatch: () => void;
+  endBatch: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoCount: number;
+  redoCount: number;
+}
+
+export function useHistory<T>(initial: T): History<T> {
+  const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [], batch: 'IDLE' });
+
+  const set = useCallback((update: Updater<T>) => {
+    setHistory(h => {
+      const next = typeof update === 'function' ? (update as (prev: T) => T)(h.present) : update;
+      if (next === h.present) return h;
+      // Inside an active batch the first snapshot is already recorded
+      if (h.batch === 'ACTIVE') return { ...h, present: next };
+      return {
+        past: [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        batch: h.batch === 'PENDING' ? 'ACTIVE' : 'IDLE'
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        batch: 'IDLE'
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        batch: 'IDLE'
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], batch: 'IDLE' });
+  }, []);
+
+  const beginBatch = useCallback(() => {
+    setHistory(h => ({ ...h, batch: 'PENDING' }));
+  }, []);
+
+  const endBatch = useCallback(() => {
+    setHistory(h => (h.batch === 'IDLE' ? h : { ...h, batch: 'IDLE' }));
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    beginBatch,
+    endBatch,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoCount: history.past.length,
+    redoCount: history.future.length,
+  };
+}
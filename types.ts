@@ -9,6 +9,29 @@ export enum LightingMode {
   Distance = 'DISTANCE',
 }
 
+export interface FixtureSpec {
+  name: string;
+  lumens: number; // Luminous flux per fixture (lm)
+  watts: number; // Power per fixture (W)
+  beamAngle: number; // Full angle at half intensity (degrees)
+}
+
+// Which C-planes the photometric file provides; the rest follow by symmetry
+export type PhotometrySymmetry = 'NONE' | 'ROTATIONAL' | 'C0_C180' | 'C90_C270' | 'QUADRANT';
+
+export interface Photometry {
+  format: 'IES' | 'LDT';
+  fileName: string;
+  manufacturer: string;
+  luminaireName: string;
+  lumens: number; // Luminaire flux (lm)
+  watts: number; // Input power (W)
+  symmetry: PhotometrySymmetry;
+  horizontalAngles: number[]; // C-planes (degrees)
+  verticalAngles: number[]; // Gamma angles from nadir (degrees)
+  candela: number[][]; // [C-plane][gamma] absolute candela
+}
+
 export interface LightingConfig {
   isActive: boolean;
   orientation: LightingOrientation;
@@ -17,9 +40,15 @@ export interface LightingConfig {
   offset: number; // Distance from first wall
   fixtureQty: number; // Legacy total
   fixturesPerProfile: number; // New: Quantity per profile line
+  fixture: FixtureSpec; // Fixture model used by the illuminance calculation
+  photometry?: Photometry; // Imported manufacturer data (overrides the beam model)
+  maintenanceFactor: number; // 0..1, light loss over the maintenance cycle
 }
 
-export type ObjectType = 'RACK' | 'MEZZANINE';
+// COLUMN / BEAM / OBSTACLE are building elements (generated, or imported from a DXF plan)
+export type ObjectType = 'RACK' | 'MEZZANINE' | 'COLUMN' | 'BEAM' | 'OBSTACLE';
+
+export type ObstacleKind = 'GENERIC' | 'DOOR' | 'DOCK' | 'HVAC';
 
 export interface RackBlock {
   id: string;
@@ -31,18 +60,33 @@ export interface RackBlock {
   height: number; // Specific height of this block (Thickness for mezzanine)
   elevation: number; // Height from ground (0 for racks)
   label: string;
+  locked?: boolean; // Fixed in place: ignored by drag & drop
+  obstacleKind?: ObstacleKind; // OBSTACLE only (absent = GENERIC)
+  rotation?: number; // Degrees clockwise in plan about the block center (absent = 0)
+  groupId?: string; // Rack array the block belongs to: moved together
 }
 
+// Forklift used in the aisles: sets the minimum aisle width checked by the layout validation
+export type ForkliftType = 'PALLET_JACK' | 'COUNTERBALANCE' | 'REACH' | 'VNA';
+
 export interface StorageConfig {
   isActive: boolean;
   racks: RackBlock[];
+  forklift?: ForkliftType; // Absent = COUNTERBALANCE
+}
+
+// Floor outline vertex in meters (origin top-left, y down)
+export interface FloorPoint {
+  x: number;
+  y: number;
 }
 
 export interface ProjectData {
   projectName: string; // New field
   // Step 1 (Merged)
-  width: number;
+  width: number; // Bounding box of the outline for polygonal halls
   length: number;
+  outline?: FloorPoint[]; // Polygonal floor (L-shapes, cut corners); absent = width x length rectangle
   ceilingHeight: number;
   // Step 2
   lighting: LightingConfig;
@@ -67,6 +111,13 @@ export const DEFAULT_PROJECT: ProjectData = {
     offset: 2,
     fixtureQty: 0, 
     fixturesPerProfile: 0,
+    fixture: {
+      name: "High Bay LED 150W",
+      lumens: 21000,
+      watts: 150,
+      beamAngle: 120,
+    },
+    maintenanceFactor: 0.8,
   },
   storage: {
     isActive: false,
@@ -80,6 +131,26 @@ export const DEFAULT_PROJECT: ProjectData = {
 
 export type SportsObjectType = 'POST' | 'COVERING';
 
+export type FieldTemplateId =
+  | 'FOOTBALL_11' | 'FOOTBALL_7' | 'FOOTBALL_5' | 'FUTSAL'
+  | 'BASKETBALL' | 'VOLLEYBALL' | 'TENNIS' | 'PADEL' | 'HANDBALL';
+
+// EN 12193 lighting class: I top-level competition, II mid-level, III training / recreation
+export type SportsLightingClass = 'I' | 'II' | 'III';
+
+// Floodlight at the top of a POST
+export interface Floodlight {
+  id: string;
+  tilt: number; // Degrees from the downward vertical (0 = straight down)
+  azimuth: number; // Degrees in plan, clockwise from +x (y down)
+}
+
+export interface SportsLightingConfig {
+  fixture: FixtureSpec; // Floodlight model used on every pole
+  lightingClass: SportsLightingClass;
+  maintenanceFactor: number; // 0..1
+}
+
 export interface SportsObject {
   id: string;
   type: SportsObjectType;
@@ -90,18 +161,34 @@ export interface SportsObject {
   height: number; // Post height or Covering thickness
   elevation: number; // For Covering: Height from ground
   label: string;
+  floodlights?: Floodlight[]; // POST only
+  pairId?: string; // POST only: mirrored partner across the field (generated layouts)
 }
 
 export interface SportsProjectData {
+  projectName: string;
   width: number;
   length: number;
+  template?: FieldTemplateId; // Official markings; absent = custom field (center line and circle)
   objects: SportsObject[];
+  floodlighting: SportsLightingConfig;
   observations: string;
 }
 
 export const DEFAULT_SPORTS_PROJECT: SportsProjectData = {
+  projectName: "",
   width: 40,
   length: 20,
   objects: [],
+  floodlighting: {
+    fixture: {
+      name: "Refletor LED 1000W",
+      lumens: 140000,
+      watts: 1000,
+      beamAngle: 40,
+    },
+    lightingClass: 'II',
+    maintenanceFactor: 0.8,
+  },
   observations: ""
 };
\ No newline at end of file
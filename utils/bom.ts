@@ -0,0 +1,129 @@
+import { ProjectData } from '../types';
+import { computeLightingLayout } from './lightingLayout';
+import { buildXlsx, XlsxRow } from './xlsx';
+
+// --- BILL OF MATERIALS & COST ESTIMATE ---
+
+export type BomItemKey = 'FIXTURE' | 'PROFILE' | 'SUSPENSION' | 'RACK_BAY' | 'MEZZANINE';
+
+export interface BomLine {
+  key: BomItemKey;
+  description: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export type PriceCatalog = Record<BomItemKey, number>;
+
+export const SUSPENSION_SPACING = 2; // Meters between suspension points along a profile
+
+export const DEFAULT_PRICE_CATALOG: PriceCatalog = {
+  FIXTURE: 0,
+  PROFILE: 0,
+  SUSPENSION: 0,
+  RACK_BAY: 0,
+  MEZZANINE: 0,
+};
+
+// The catalog is shared by every project on this browser
+const CATALOG_STORAGE_KEY = 'schema-price-catalog';
+
+export const loadPriceCatalog = (): PriceCatalog => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CATALOG_STORAGE_KEY) || '{}');
+    const catalog = { ...DEFAULT_PRICE_CATALOG };
+    (Object.keys(catalog) as BomItemKey[]).forEach(key => {
+      if (typeof stored[key] === 'number' && Number.isFinite(stored[key])) catalog[key] = stored[key];
+    });
+    return catalog;
+  } catch {
+    return { ...DEFAULT_PRICE_CATALOG };
+  }
+};
+
+export const savePriceCatalog = (catalog: PriceCatalog) => {
+  try {
+    localStorage.setItem(CATALOG_STORAGE_KEY, JSON.stringify(catalog));
+  } catch {
+    // Storage full or blocked: the prices last for this session only
+  }
+};
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+export const computeBom = (data: ProjectData, catalog: PriceCatalog): BomLine[] => {
+  const lines: BomLine[] = [];
+  const add = (key: BomItemKey, description: string, unit: string, quantity: number) => {
+    if (quantity <= 0) return;
+    const q = round2(quantity);
+    lines.push({ key, description, unit, quantity: q, unitPrice: catalog[key], total: round2(q * catalog[key]) });
+  };
+
+  const layout = computeLightingLayout(data);
+  add('FIXTURE', data.lighting.fixture.name ? `Luminária ${data.lighting.fixture.name}` : 'Luminária', 'un', layout.fixtures.length);
+
+  // Linear meters per orientation (one orientation per project today)
+  const runLengths = layout.profiles.map(p => Math.hypot(p.x2 - p.x1, p.y2 - p.y1));
+  const profileMeters = runLengths.reduce((sum, len) => sum + len, 0);
+  add('PROFILE', `Perfilado ${layout.isLongitudinal ? 'Longitudinal' : 'Transversal'}`, 'm', profileMeters);
+
+  // Each run (a clipped line on polygonal halls counts per piece) ends on its own point
+  const suspensionPoints = runLengths.reduce((sum, len) => sum + Math.ceil(len / SUSPENSION_SPACING) + 1, 0);
+  add('SUSPENSION', `Ponto de Suspensão (a cada ${SUSPENSION_SPACING}m)`, 'un', suspensionPoints);
+
+  const racks = data.storage.racks.filter(r => r.type === 'RACK');
+  add('RACK_BAY', 'Porta-Pallet (Baia)', 'un', racks.length);
+
+  const mezzArea = data.storage.racks
+    .filter(r => r.type === 'MEZZANINE')
+    .reduce((sum, r) => sum + r.width * r.depth, 0);
+  add('MEZZANINE', 'Mezanino', 'm²', mezzArea);
+
+  return lines;
+};
+
+export const bomTotal = (lines: BomLine[]) => round2(lines.reduce((sum, l) => sum + l.total, 0));
+
+// --- CSV (pt-BR Excel: ';' separator, decimal comma, UTF-8 BOM) ---
+
+const csvNumber = (v: number) => v.toFixed(2).replace('.', ',');
+const csvText = (v: string) => `"${v.replace(/"/g, '""')}"`;
+
+export const bomToCsv = (projectName: string, lines: BomLine[]): string => {
+  const rows = [
+    [csvText('Projeto'), csvText(projectName)].join(';'),
+    '',
+    ['Item', 'Unidade', 'Quantidade', 'Preço Unitário', 'Total'].map(csvText).join(';'),
+    ...lines.map(l => [csvText(l.description), csvText(l.unit), csvNumber(l.quantity), csvNumber(l.unitPrice), csvNumber(l.total)].join(';')),
+    ['', '', '', csvText('TOTAL'), csvNumber(bomTotal(lines))].join(';'),
+  ];
+  return '\uFEFF' + rows.join('\r\n');
+};
+
+// --- XLSX (totals as live formulas so prices can be edited in the spreadsheet) ---
+
+export const bomToXlsx = (projectName: string, lines: BomLine[]): Blob => {
+  const firstRow = 4; // 1-based row of the first item
+  const lastRow = firstRow + lines.length - 1;
+  const rows: XlsxRow[] = [
+    [{ value: 'Projeto', bold: true }, { value: projectName }],
+    [],
+    ['Item', 'Unidade', 'Quantidade', 'Preço Unitário', 'Total'].map(value => ({ value, bold: true })),
+    ...lines.map((l, i): XlsxRow => [
+      { value: l.description },
+      { value: l.unit },
+      { value: l.quantity, decimals: true },
+      { value: l.unitPrice, decimals: true },
+      { value: l.total, formula: `C${firstRow + i}*D${firstRow + i}`, decimals: true },
+    ]),
+    [null, null, null, { value: 'TOTAL', bold: true }, {
+      value: bomTotal(lines),
+      formula: lines.length ? `SUM(E${firstRow}:E${lastRow})` : undefined,
+      bold: true,
+      decimals: true,
+    }],
+  ];
+  return buildXlsx('Lista de Materiais', rows, [40, 10, 14, 16, 16]);
+};
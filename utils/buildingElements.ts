@@ -0,0 +1,186 @@
+import { ProjectData, RackBlock, ObjectType, ObstacleKind } from '../types';
+import { isInsideHall, clipSegmentToOutline, hallOutline } from './floorPlan';
+import { footprintBounds } from './footprint';
+
+// --- BUILDING ELEMENTS (columns, beams, doors, docks, HVAC) ---
+// Fixed parts of the building, stored with the racks as locked RackBlocks. Racks may not
+// overlap them, and fixtures are moved off the ones that reach the mounting height.
+
+export const BUILDING_ELEMENT_TYPES: ObjectType[] = ['COLUMN', 'BEAM', 'OBSTACLE'];
+
+export const isBuildingElement = (obj: { type: string }): boolean =>
+  BUILDING_ELEMENT_TYPES.includes(obj.type as ObjectType);
+
+export interface ObstaclePreset {
+  label: string;
+  prefix: string; // Auto-label prefix
+  width: number;
+  depth: number;
+  height: number;
+  hangsFromCeiling: boolean; // Elevation = ceiling height - height
+}
+
+export const OBSTACLE_PRESETS: Record<ObstacleKind, ObstaclePreset> = {
+  GENERIC: { label: 'Obstáculo', prefix: 'O', width: 2, depth: 2, height: 2, hangsFromCeiling: false },
+  DOOR: { label: 'Porta', prefix: 'PT', width: 4, depth: 0.3, height: 4.5, hangsFromCeiling: false },
+  DOCK: { label: 'Doca', prefix: 'D', width: 3, depth: 4, height: 1.2, hangsFromCeiling: false },
+  HVAC: { label: 'HVAC', prefix: 'AC', width: 2, depth: 2, height: 1.5, hangsFromCeiling: true },
+};
+
+export const obstacleKindOf = (obj: RackBlock): ObstacleKind => obj.obstacleKind || 'GENERIC';
+
+const EPSILON = 1e-6;
+const FIXTURE_CEILING_GAP = 1; // Obstacles whose top is this close to the ceiling collide with fixtures
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Columns run up to the roof and beams sit under it; other obstacles only when they reach it
+export const blocksFixtures = (obj: RackBlock, ceilingHeight: number): boolean => {
+  if (obj.type === 'COLUMN' || obj.type === 'BEAM') return true;
+  return obj.type === 'OBSTACLE' && (obj.elevation || 0) + obj.height >= ceilingHeight - FIXTURE_CEILING_GAP;
+};
+
+interface Footprint {
+  id?: string;
+  type: string;
+  width: number;
+  depth: number;
+  height: number;
+  elevation: number;
+  rotation?: number;
+}
+
+// A rack at (x, y) would stand on a building element in the same height range
+export const overlapsBuildingElement = (racks: RackBlock[], obj: Footprint, x: number, y: number): boolean => {
+  if (obj.type !== 'RACK') return false; // Mezzanines are built around columns
+  const bottom = obj.elevation || 0;
+  const top = bottom + Math.max(obj.height, EPSILON);
+  const a = footprintBounds({ ...obj, x, y });
+  return racks.some(e => {
+    if (e.id === obj.id || !isBuildingElement(e)) return false;
+    if ((e.elevation || 0) >= top || (e.elevation || 0) + e.height <= bottom) return false;
+    const b = footprintBounds(e);
+    return a.x < b.x + b.width - EPSILON && a.x + a.width > b.x + EPSILON &&
+      a.y < b.y + b.depth - EPSILON && a.y + a.depth > b.y + EPSILON;
+  });
+};
+
+// --- COLUMN GRID GENERATOR ---
+
+export type BeamDirection = 'NONE' | 'X' | 'Y';
+
+export interface ColumnGridOptions {
+  spacingX: number; // Distance between column axes along the width (m)
+  spacingY: number; // ... along the length (m)
+  size: number; // Square column section (m)
+  perimeter: boolean; // Columns (and beams) on the walls too
+  beams: BeamDirection; // Beams along the X or Y grid lines
+  beamWidth: number;
+  beamDepth: number; // Height of the beam section, hung under the ceiling
+}
+
+export const DEFAULT_COLUMN_GRID: ColumnGridOptions = {
+  spacingX: 10,
+  spacingY: 25,
+  size: 0.5,
+  perimeter: true,
+  beams: 'NONE',
+  beamWidth: 0.3,
+  beamDepth: 0.8,
+};
+
+// Axis positions from wall to wall; a shorter last bay closes on the far wall
+const gridLines = (length: number, spacing: number): number[] => {
+  const lines: number[] = [];
+  for (let v = 0; v < length - EPSILON; v += spacing) lines.push(round3(v));
+  lines.push(round3(length));
+  return lines;
+};
+
+// Structural grid label: letters along the width (A, B, ... AA), numbers along the length
+export const axisLetter = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+export const generateColumnGrid = (data: ProjectData, options: ColumnGridOptions): RackBlock[] => {
+  const { width, length, ceilingHeight } = data;
+  const { spacingX, spacingY, size, perimeter } = options;
+  if (!(width > 0) || !(length > 0) || !(spacingX > 0) || !(spacingY > 0) || !(size > 0)) return [];
+  const columnHeight = ceilingHeight > 0 ? ceilingHeight : 10;
+  const linesX = gridLines(width, spacingX);
+  const linesY = gridLines(length, spacingY);
+  const isWallLine = (v: number, limit: number) => v < EPSILON || v > limit - EPSILON;
+  // Centered on the axis, flush with the wall on the perimeter lines
+  const place = (axis: number, limit: number, extent: number) => round3(Math.min(Math.max(axis - extent / 2, 0), limit - extent));
+
+  const elements: RackBlock[] = [];
+  linesX.forEach((gx, ix) => {
+    linesY.forEach((gy, iy) => {
+      if (!perimeter && (isWallLine(gx, width) || isWallLine(gy, length))) return;
+      const x = place(gx, width, size), y = place(gy, length, size);
+      if (!isInsideHall(data, x, y, size, size)) return;
+      elements.push({
+        id: newId(), type: 'COLUMN', x, y, width: size, depth: size,
+        height: columnHeight, elevation: 0, label: `${axisLetter(ix)}${iy + 1}`, locked: true,
+      });
+    });
+  });
+
+  if (options.beams !== 'NONE' && options.beamWidth > 0 && options.beamDepth > 0) {
+    const alongX = options.beams === 'X';
+    const lines = alongX ? linesY : linesX;
+    const limit = alongX ? length : width;
+    const elevation = round3(Math.max(0, columnHeight - options.beamDepth));
+    let count = 0;
+    lines.forEach(axis => {
+      if (!perimeter && isWallLine(axis, limit)) return;
+      const offset = place(axis, limit, options.beamWidth);
+      const center = offset + options.beamWidth / 2;
+      const line = alongX
+        ? { x1: 0, y1: center, x2: width, y2: center }
+        : { x1: center, y1: 0, x2: center, y2: length };
+      clipSegmentToOutline(hallOutline(data), line).forEach(piece => {
+        const start = alongX ? Math.min(piece.x1, piece.x2) : Math.min(piece.y1, piece.y2);
+        const span = alongX ? Math.abs(piece.x2 - piece.x1) : Math.abs(piece.y2 - piece.y1);
+        if (span < EPSILON) return;
+        elements.push({
+          id: newId(), type: 'BEAM',
+          x: alongX ? round3(start) : offset,
+          y: alongX ? offset : round3(start),
+          width: alongX ? round3(span) : options.beamWidth,
+          depth: alongX ? options.beamWidth : round3(span),
+          height: options.beamDepth, elevation, label: `V${++count}`, locked: true,
+        });
+      });
+    });
+  }
+  return elements;
+};
+
+// --- SINGLE OBSTACLES ---
+
+export const createObstacle = (
+  kind: ObstacleKind,
+  dims: { width: number; depth: number; height: number },
+  position: { x: number; y: number },
+  data: ProjectData
+): RackBlock => {
+  const preset = OBSTACLE_PRESETS[kind];
+  const count = data.storage.racks.filter(r => r.type === 'OBSTACLE' && obstacleKindOf(r) === kind).length;
+  return {
+    id: newId(),
+    type: 'OBSTACLE',
+    obstacleKind: kind,
+    x: position.x,
+    y: position.y,
+    width: dims.width,
+    depth: dims.depth,
+    height: dims.height,
+    elevation: preset.hangsFromCeiling && data.ceilingHeight > dims.height ? round3(data.ceilingHeight - dims.height) : 0,
+    label: `${preset.prefix}${count + 1}`,
+    locked: true,
+  };
+};
@@ -0,0 +1,14 @@
+// Triggers a browser download for generated files
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Some browsers start reading the blob after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Project name as a file-system friendly base name
+export const fileBaseName = (name: string, fallback: string = 'Schema') =>
+  (name || fallback).replace(/\s+/g, '_');
@@ -0,0 +1,118 @@
+// --- MINIMAL DXF WRITER (R12 / AC1009 ASCII) ---
+// Lines, closed polylines, circles and single-line text on named layers. Coordinates
+// are written as given (DXF is y-up); drawing units are declared as meters.
+
+export interface DxfLayer {
+  name: string;
+  color: number; // AutoCAD Color Index
+  lineType?: 'CONTINUOUS' | 'DASHED';
+}
+
+export type DxfTextAlign = 'left' | 'center' | 'right';
+
+const num = (v: number) => (Number.isFinite(v) ? String(Math.round(v * 10000) / 10000) : '0');
+
+// Non-ASCII characters as AutoCAD unicode escapes (\U+XXXX)
+const dxfText = (text: string) =>
+  Array.from(text.replace(/[\r\n]+/g, ' ')).map(ch => {
+    const code = ch.codePointAt(0) || 63;
+    return code < 128 ? ch : `\\U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+  }).join('');
+
+export class DxfWriter {
+  private entities: string[] = [];
+  private minX = Infinity;
+  private minY = Infinity;
+  private maxX = -Infinity;
+  private maxY = -Infinity;
+
+  constructor(private layers: DxfLayer[]) {}
+
+  private group(code: number, value: string | number) {
+    this.entities.push(String(code), typeof value === 'number' ? num(value) : value);
+  }
+
+  private extend(x: number, y: number) {
+    this.minX = Math.min(this.minX, x); this.maxX = Math.max(this.maxX, x);
+    this.minY = Math.min(this.minY, y); this.maxY = Math.max(this.maxY, y);
+  }
+
+  line(layer: string, x1: number, y1: number, x2: number, y2: number) {
+    this.group(0, 'LINE'); this.group(8, layer);
+    this.group(10, x1); this.group(20, y1); this.group(30, 0);
+    this.group(11, x2); this.group(21, y2); this.group(31, 0);
+    this.extend(x1, y1); this.extend(x2, y2);
+  }
+
+  polyline(layer: string, points: [number, number][], closed: boolean = true) {
+    if (points.length < 2) return;
+    this.group(0, 'POLYLINE'); this.group(8, layer); this.group(66, 1); this.group(70, closed ? 1 : 0);
+    this.group(10, 0); this.group(20, 0); this.group(30, 0);
+    points.forEach(([x, y]) => {
+      this.group(0, 'VERTEX'); this.group(8, layer);
+      this.group(10, x); this.group(20, y); this.group(30, 0);
+      this.extend(x, y);
+    });
+    this.group(0, 'SEQEND'); this.group(8, layer);
+  }
+
+  rect(layer: string, x: number, y: number, width: number, height: number) {
+    this.polyline(layer, [[x, y], [x + width, y], [x + width, y + height], [x, y + height]]);
+  }
+
+  circle(layer: string, cx: number, cy: number, radius: number) {
+    this.group(0, 'CIRCLE'); this.group(8, layer);
+    this.group(10, cx); this.group(20, cy); this.group(30, 0); this.group(40, radius);
+    this.extend(cx - radius, cy - radius); this.extend(cx + radius, cy + radius);
+  }
+
+  // Text centered vertically on (x, y); rotation in degrees (counterclockwise)
+  text(layer: string, x: number, y: number, height: number, value: string, align: DxfTextAlign = 'center', rotation: number = 0) {
+    if (!value) return;
+    const horizontal = { left: 0, center: 1, right: 2 }[align];
+    this.group(0, 'TEXT'); this.group(8, layer);
+    this.group(10, x); this.group(20, y); this.group(30, 0);
+    this.group(40, height); this.group(1, dxfText(value));
+    if (rotation) this.group(50, rotation);
+    this.group(72, horizontal);
+    this.group(11, x); this.group(21, y); this.group(31, 0);
+    this.group(73, 2); // Middle
+    this.extend(x, y);
+  }
+
+  toString(): string {
+    const out: string[] = [];
+    const g = (code: number, value: string | number) => out.push(String(code), typeof value === 'number' ? num(value) : value);
+    const hasExtents = Number.isFinite(this.minX);
+
+    g(0, 'SECTION'); g(2, 'HEADER');
+    g(9, '$ACADVER'); g(1, 'AC1009');
+    g(9, '$DWGCODEPAGE'); g(3, 'ANSI_1252');
+    g(9, '$INSUNITS'); g(70, 6); // Meters
+    g(9, '$MEASUREMENT'); g(70, 1); // Metric
+    g(9, '$EXTMIN'); g(10, hasExtents ? this.minX : 0); g(20, hasExtents ? this.minY : 0); g(30, 0);
+    g(9, '$EXTMAX'); g(10, hasExtents ? this.maxX : 0); g(20, hasExtents ? this.maxY : 0); g(30, 0);
+    g(0, 'ENDSEC');
+
+    g(0, 'SECTION'); g(2, 'TABLES');
+    g(0, 'TABLE'); g(2, 'LTYPE'); g(70, 2);
+    g(0, 'LTYPE'); g(2, 'CONTINUOUS'); g(70, 0); g(3, 'Solid line'); g(72, 65); g(73, 0); g(40, 0);
+    g(0, 'LTYPE'); g(2, 'DASHED'); g(70, 0); g(3, '__ __ __'); g(72, 65); g(73, 2); g(40, 0.75); g(49, 0.5); g(49, -0.25);
+    g(0, 'ENDTAB');
+    g(0, 'TABLE'); g(2, 'LAYER'); g(70, this.layers.length);
+    this.layers.forEach(layer => {
+      g(0, 'LAYER'); g(2, layer.name); g(70, 0); g(62, layer.color); g(6, layer.lineType || 'CONTINUOUS');
+    });
+    g(0, 'ENDTAB');
+    g(0, 'TABLE'); g(2, 'STYLE'); g(70, 1);
+    g(0, 'STYLE'); g(2, 'STANDARD'); g(70, 0); g(40, 0); g(41, 1); g(50, 0); g(71, 0); g(42, 0.25); g(3, 'txt'); g(4, '');
+    g(0, 'ENDTAB');
+    g(0, 'ENDSEC');
+
+    g(0, 'SECTION'); g(2, 'ENTITIES');
+    out.push(...this.entities);
+    g(0, 'ENDSEC');
+    g(0, 'EOF');
+    return out.join('\r\n') + '\r\n';
+  }
+}
@@ -0,0 +1,324 @@
+import { RackBlock, FloorPoint } from '../types';
+
+// --- DXF IMPORT (building outline, columns and obstacles) ---
+// Reads closed polylines (LWPOLYLINE / POLYLINE), circles and block references (INSERT,
+// reduced to their footprint) from an ASCII DXF. One closed shape is picked as the hall
+// outline (kept as the floor polygon unless it is a plain rectangle); shapes inside it
+// become fixed COLUMN / OBSTACLE objects.
+
+export class DxfImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DxfImportError';
+  }
+}
+
+export type DxfUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export const DXF_UNIT_TO_METERS: Record<DxfUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048,
+};
+
+// $INSUNITS codes
+const INSUNITS: Record<number, DxfUnit> = { 1: 'in', 2: 'ft', 4: 'mm', 5: 'cm', 6: 'm' };
+
+export interface DxfBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface DxfShape {
+  id: number;
+  layer: string;
+  kind: 'POLYGON' | 'CIRCLE' | 'BLOCK';
+  points: [number, number][]; // Drawing units, y-up
+  bounds: DxfBounds;
+  area: number;
+}
+
+export interface DxfDrawing {
+  unit: DxfUnit | null; // From $INSUNITS, when present
+  shapes: DxfShape[];
+  layers: string[];
+}
+
+export interface DxfImportOptions {
+  outlineId: number;
+  unit: DxfUnit;
+  layers: string[]; // Layers whose shapes become objects
+  columnHeight: number;
+  obstacleHeight: number;
+}
+
+export interface DxfImportResult {
+  width: number;
+  length: number;
+  outline?: FloorPoint[]; // Plan coordinates; omitted for rectangular halls
+  objects: RackBlock[];
+}
+
+const COLUMN_MAX_SIZE = 1.5; // Meters; larger footprints are obstacles
+const CIRCLE_SEGMENTS = 16;
+const MAX_BLOCK_DEPTH = 4;
+
+type Group = [number, string];
+
+interface RawEntity {
+  type: string;
+  groups: Group[];
+  vertices: RawEntity[]; // POLYLINE only
+}
+
+// --- Parsing ---
+
+const readGroups = (text: string): Group[] => {
+  const lines = text.split(/\r?\n/);
+  const groups: Group[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (isNaN(code)) throw new DxfImportError(`Arquivo DXF inválido (linha ${i + 1}). Apenas DXF ASCII é suportado.`);
+    groups.push([code, lines[i + 1].trim()]);
+  }
+  return groups;
+};
+
+const value = (entity: RawEntity, code: number, fallback: string = ''): string =>
+  entity.groups.find(g => g[0] === code)?.[1] ?? fallback;
+
+const numberValue = (entity: RawEntity, code: number, fallback: number = 0): number => {
+  const v = parseFloat(value(entity, code, ''));
+  return Number.isFinite(v) ? v : fallback;
+};
+
+// Splits a section into entities, attaching VERTEX entities to their POLYLINE
+const readEntities = (groups: Group[]): RawEntity[] => {
+  const entities: RawEntity[] = [];
+  let current: RawEntity | null = null;
+  let polyline: RawEntity | null = null;
+  groups.forEach(([code, v]) => {
+    if (code !== 0) { current?.groups.push([code, v]); return; }
+    current = { type: v, groups: [], vertices: [] };
+    if (v === 'VERTEX' && polyline) { polyline.vertices.push(current); return; }
+    if (v === 'SEQEND') { polyline = null; return; }
+    if (v === 'POLYLINE') polyline = current;
+    entities.push(current);
+  });
+  return entities;
+};
+
+const boundsOf = (points: [number, number][]): DxfBounds => {
+  const xs = points.map(p => p[0]), ys = points.map(p => p[1]);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
+
+const polygonArea = (points: [number, number][]): number => {
+  let sum = 0;
+  points.forEach(([x1, y1], i) => {
+    const [x2, y2] = points[(i + 1) % points.length];
+    sum += x1 * y2 - x2 * y1;
+  });
+  return Math.abs(sum) / 2;
+};
+
+export const pointInPolygon = (x: number, y: number, points: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i], [xj, yj] = points[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+type Transform = (x: number, y: number) => [number, number];
+const IDENTITY: Transform = (x, y) => [x, y];
+
+interface Outline { kind: DxfShape['kind']; points: [number, number][]; }
+
+const closedOutline = (points: [number, number][], closedFlag: boolean, transform: Transform): Outline[] => {
+  const valid = points.filter(p => Number.isFinite(p[0]) && Number.isFinite(p[1]));
+  if (valid.length < 3) return [];
+  const [first, last] = [valid[0], valid[valid.length - 1]];
+  const closesItself = Math.hypot(first[0] - last[0], first[1] - last[1]) < 1e-9;
+  if (!closedFlag && !closesItself) return [];
+  const ring = closesItself ? valid.slice(0, -1) : valid;
+  return ring.length >= 3 ? [{ kind: 'POLYGON', points: ring.map(([x, y]) => transform(x, y)) }] : [];
+};
+
+// Closed outlines of one entity, in the coordinates given by `transform`
+const entityOutlines = (entity: RawEntity, blocks: Map<string, RawEntity[]>, transform: Transform, depth: number): Outline[] => {
+  switch (entity.type) {
+    case 'LWPOLYLINE': {
+      const xs = entity.groups.filter(g => g[0] === 10).map(g => parseFloat(g[1]));
+      const ys = entity.groups.filter(g => g[0] === 20).map(g => parseFloat(g[1]));
+      const points = xs.map((x, i): [number, number] => [x, ys[i]]);
+      return closedOutline(points, (numberValue(entity, 70) & 1) === 1, transform);
+    }
+    case 'POLYLINE': {
+      const flags = numberValue(entity, 70);
+      if (flags & (16 | 64)) return []; // Polygon meshes / polyface meshes
+      const points = entity.vertices.map((v): [number, number] => [numberValue(v, 10), numberValue(v, 20)]);
+      return closedOutline(points, (flags & 1) === 1, transform);
+    }
+    case 'CIRCLE': {
+      const cx = numberValue(entity, 10), cy = numberValue(entity, 20), r = numberValue(entity, 40);
+      if (r <= 0) return [];
+      const points: [number, number][] = [];
+      for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+        const a = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+        points.push(transform(cx + r * Math.cos(a), cy + r * Math.sin(a)));
+      }
+      return [{ kind: 'CIRCLE', points }];
+    }
+    case 'INSERT': {
+      if (depth >= MAX_BLOCK_DEPTH) return [];
+      const block = blocks.get(value(entity, 2));
+      if (!block) return [];
+      const ix = numberValue(entity, 10), iy = numberValue(entity, 20);
+      const sx = numberValue(entity, 41, 1), sy = numberValue(entity, 42, 1);
+      const angle = (numberValue(entity, 50) * Math.PI) / 180;
+      const cos = Math.cos(angle), sin = Math.sin(angle);
+      const inner: Transform = (x, y) => transform(ix + x * sx * cos - y * sy * sin, iy + x * sx * sin + y * sy * cos);
+      // A block reference is one object: its footprint is the bounding box of its content
+      const points = block.flatMap(e => entityOutlines(e, blocks, inner, depth + 1)).flatMap(o => o.points);
+      if (points.length < 3) return [];
+      const b = boundsOf(points);
+      return [{ kind: 'BLOCK', points: [[b.minX, b.minY], [b.maxX, b.minY], [b.maxX, b.maxY], [b.minX, b.maxY]] }];
+    }
+    default:
+      return [];
+  }
+};
+
+// Moves an entity's coordinates (codes 10/20 and vertices); used for block base points
+const offsetEntity = (entity: RawEntity, dx: number, dy: number): RawEntity => {
+  const shift = (groups: Group[]): Group[] => groups.map(([code, v]): Group => {
+    if (code === 10) return [code, String(parseFloat(v) + dx)];
+    if (code === 20) return [code, String(parseFloat(v) + dy)];
+    return [code, v];
+  });
+  return { ...entity, groups: shift(entity.groups), vertices: entity.vertices.map(v => ({ ...v, groups: shift(v.groups) })) };
+};
+
+export const parseDxf = (text: string): DxfDrawing => {
+  const groups = readGroups(text);
+
+  // Split into sections by name
+  const sections = new Map<string, Group[]>();
+  for (let i = 0; i < groups.length; i++) {
+    if (groups[i][0] === 0 && groups[i][1] === 'SECTION' && groups[i + 1]?.[0] === 2) {
+      const name = groups[i + 1][1];
+      const start = i + 2;
+      let end = start;
+      while (end < groups.length && !(groups[end][0] === 0 && groups[end][1] === 'ENDSEC')) end++;
+      sections.set(name, groups.slice(start, end));
+      i = end;
+    }
+  }
+  const entitiesSection = sections.get('ENTITIES');
+  if (!entitiesSection) throw new DxfImportError('Arquivo DXF sem seção ENTITIES.');
+
+  // Header units
+  let unit: DxfUnit | null = null;
+  const header = sections.get('HEADER') || [];
+  const unitsIndex = header.findIndex(g => g[0] === 9 && g[1] === '$INSUNITS');
+  if (unitsIndex >= 0 && header[unitsIndex + 1]) unit = INSUNITS[parseInt(header[unitsIndex + 1][1], 10)] || null;
+
+  // Block definitions (entities relative to the block base point)
+  const blocks = new Map<string, RawEntity[]>();
+  let blockName: string | null = null;
+  let base: [number, number] = [0, 0];
+  let blockEntities: RawEntity[] = [];
+  readEntities(sections.get('BLOCKS') || []).forEach(entity => {
+    if (entity.type === 'BLOCK') {
+      blockName = value(entity, 2);
+      base = [numberValue(entity, 10), numberValue(entity, 20)];
+      blockEntities = [];
+    } else if (entity.type === 'ENDBLK') {
+      if (blockName) {
+        const [bx, by] = base;
+        blocks.set(blockName, blockEntities.map(e => offsetEntity(e, -bx, -by)));
+      }
+      blockName = null;
+    } else if (blockName) {
+      blockEntities.push(entity);
+    }
+  });
+
+  const shapes: DxfShape[] = [];
+  readEntities(entitiesSection).forEach(entity => {
+    const layer = value(entity, 8, '0');
+    entityOutlines(entity, blocks, IDENTITY, 0).forEach(({ kind, points }) => {
+      shapes.push({ id: shapes.length, layer, kind, points, bounds: boundsOf(points), area: polygonArea(points) });
+    });
+  });
+  if (shapes.length === 0) throw new DxfImportError('Nenhuma polilinha fechada, círculo ou bloco encontrado no DXF.');
+
+  const layers = Array.from(new Set(shapes.map(s => s.layer))).sort();
+  return { unit, shapes, layers };
+};
+
+// Unit guess when the header has none: plans are rarely larger than 2 km
+export const guessDxfUnit = (drawing: DxfDrawing): DxfUnit => {
+  if (drawing.unit) return drawing.unit;
+  const largest = Math.max(...drawing.shapes.map(s => Math.max(s.bounds.maxX - s.bounds.minX, s.bounds.maxY - s.bounds.minY)));
+  if (largest > 2000) return 'mm';
+  if (largest > 500) return 'cm';
+  return 'm';
+};
+
+// Closed polygons large enough to be a hall, biggest first
+export const outlineCandidates = (drawing: DxfDrawing): DxfShape[] =>
+  drawing.shapes.filter(s => s.kind === 'POLYGON').sort((a, b) => b.area - a.area);
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+export const buildDxfImport = (drawing: DxfDrawing, options: DxfImportOptions): DxfImportResult => {
+  const outline = drawing.shapes.find(s => s.id === options.outlineId);
+  if (!outline) throw new DxfImportError('Contorno selecionado não encontrado.');
+  const f = DXF_UNIT_TO_METERS[options.unit];
+  const { minX, maxY } = outline.bounds;
+
+  const objects: RackBlock[] = [];
+  let columns = 0, obstacles = 0;
+  drawing.shapes.forEach(shape => {
+    if (shape.id === outline.id || !options.layers.includes(shape.layer)) return;
+    if (shape.area >= outline.area * 0.5) return; // Inner wall lines, duplicated outlines
+    const cx = (shape.bounds.minX + shape.bounds.maxX) / 2;
+    const cy = (shape.bounds.minY + shape.bounds.maxY) / 2;
+    if (!pointInPolygon(cx, cy, outline.points)) return;
+
+    const width = round3((shape.bounds.maxX - shape.bounds.minX) * f);
+    const depth = round3((shape.bounds.maxY - shape.bounds.minY) * f);
+    if (width <= 0 || depth <= 0) return;
+    const isColumn = Math.max(width, depth) <= COLUMN_MAX_SIZE;
+    objects.push({
+      id: Math.random().toString(36).substr(2, 9),
+      type: isColumn ? 'COLUMN' : 'OBSTACLE',
+      x: round3((shape.bounds.minX - minX) * f),
+      y: round3((maxY - shape.bounds.maxY) * f),
+      width,
+      depth,
+      height: isColumn ? options.columnHeight : options.obstacleHeight,
+      elevation: 0,
+      label: isColumn ? `P${++columns}` : `O${++obstacles}`,
+      locked: true,
+    });
+  });
+
+  const width = round3((outline.bounds.maxX - outline.bounds.minX) * f);
+  const length = round3((outline.bounds.maxY - outline.bounds.minY) * f);
+  const floor = outline.points.map(([x, y]) => ({ x: round3((x - minX) * f), y: round3((maxY - y) * f) }));
+  const isRectangle = floor.length === 4 && floor.every(p => (p.x === 0 || p.x === width) && (p.y === 0 || p.y === length));
+  return { width, length, ...(isRectangle ? {} : { outline: floor }), objects };
+};
+
+export const DXF_FILE_ACCEPT = '.dxf,.DXF';
+
+export const readDxfFile = (file: File): Promise<DxfDrawing> =>
+  file.text().then(parseDxf);
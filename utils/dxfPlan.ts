@@ -0,0 +1,121 @@
+import { ProjectData, ObjectType } from '../types';
+import { DxfWriter, DxfLayer } from './dxf';
+import { computeLightingLayout } from './lightingLayout';
+import { hallOutline } from './floorPlan';
+import { footprintCorners } from './footprint';
+
+// --- DXF EXPORT OF THE 2D PLAN ---
+// Same content as drawScene2D in real meters. The plan origin is the top-left corner
+// with y pointing down, so y is mirrored (Y = length - y) to keep the drawing upright.
+
+export const DXF_LAYERS = {
+  WALLS: 'PAREDES',
+  GRID: 'GRADE',
+  PROFILES: 'PERFILADOS',
+  FIXTURES: 'LUMINARIAS',
+  RACKS: 'PORTA_PALLETS',
+  MEZZANINES: 'MEZANINOS',
+  COLUMNS: 'PILARES',
+  BEAMS: 'VIGAS',
+  OBSTACLES: 'OBSTACULOS',
+  LABELS: 'TEXTOS',
+  DIMENSIONS: 'COTAS',
+};
+
+const LAYERS: DxfLayer[] = [
+  { name: DXF_LAYERS.WALLS, color: 7 },
+  { name: DXF_LAYERS.GRID, color: 8 },
+  { name: DXF_LAYERS.PROFILES, color: 4, lineType: 'DASHED' },
+  { name: DXF_LAYERS.FIXTURES, color: 30 },
+  { name: DXF_LAYERS.RACKS, color: 1 },
+  { name: DXF_LAYERS.MEZZANINES, color: 130 },
+  { name: DXF_LAYERS.COLUMNS, color: 8 },
+  { name: DXF_LAYERS.BEAMS, color: 8, lineType: 'DASHED' }, // Overhead
+  { name: DXF_LAYERS.OBSTACLES, color: 9 },
+  { name: DXF_LAYERS.LABELS, color: 7 },
+  { name: DXF_LAYERS.DIMENSIONS, color: 6 },
+];
+
+const FIXTURE_RADIUS = 0.3;
+
+const formatMeters = (v: number) => `${Number(v.toFixed(2))}m`;
+
+export const buildPlanDxf = (data: ProjectData): string => {
+  const dxf = new DxfWriter(LAYERS);
+  const { width, length } = data;
+  if (!(width > 0) || !(length > 0)) return dxf.toString();
+
+  const Y = (y: number) => length - y;
+  const size = Math.max(width, length);
+  const dimOffset = Math.max(1, size * 0.04);
+  const textHeight = Math.max(0.25, size * 0.012);
+  const tick = textHeight * 0.4;
+
+  // Walls (floor outline)
+  dxf.polyline(DXF_LAYERS.WALLS, hallOutline(data).map((p): [number, number] => [p.x, Y(p.y)]));
+
+  // Grid (same spacing rule as the screen at typical zoom)
+  const gridStep = size > 100 ? 10 : 5;
+  for (let x = gridStep; x < width; x += gridStep) dxf.line(DXF_LAYERS.GRID, x, 0, x, length);
+  for (let y = gridStep; y < length; y += gridStep) dxf.line(DXF_LAYERS.GRID, 0, Y(y), width, Y(y));
+
+  // Dimension line with extension lines and 45° ticks; text sits on the outer side
+  const horizontalDim = (x1: number, x2: number, baseY: number, dimY: number, text: string) => {
+    const side = dimY >= baseY ? 1 : -1;
+    dxf.line(DXF_LAYERS.DIMENSIONS, x1, baseY, x1, dimY + side * tick);
+    dxf.line(DXF_LAYERS.DIMENSIONS, x2, baseY, x2, dimY + side * tick);
+    dxf.line(DXF_LAYERS.DIMENSIONS, x1, dimY, x2, dimY);
+    [x1, x2].forEach(x => dxf.line(DXF_LAYERS.DIMENSIONS, x - tick, dimY - tick, x + tick, dimY + tick));
+    dxf.text(DXF_LAYERS.DIMENSIONS, (x1 + x2) / 2, dimY + side * textHeight, textHeight, text);
+  };
+  const verticalDim = (y1: number, y2: number, baseX: number, dimX: number, text: string) => {
+    const side = dimX >= baseX ? 1 : -1;
+    dxf.line(DXF_LAYERS.DIMENSIONS, baseX, y1, dimX + side * tick, y1);
+    dxf.line(DXF_LAYERS.DIMENSIONS, baseX, y2, dimX + side * tick, y2);
+    dxf.line(DXF_LAYERS.DIMENSIONS, dimX, y1, dimX, y2);
+    [y1, y2].forEach(y => dxf.line(DXF_LAYERS.DIMENSIONS, dimX - tick, y - tick, dimX + tick, y + tick));
+    dxf.text(DXF_LAYERS.DIMENSIONS, dimX + side * textHeight, (y1 + y2) / 2, textHeight, text, 'center', 90);
+  };
+
+  // Global dimensions (top and left, as on screen)
+  horizontalDim(0, width, length, length + dimOffset, formatMeters(width));
+  verticalDim(0, length, 0, -dimOffset, formatMeters(length));
+
+  // Lighting: profile lines, fixtures and the chain of profile spacings
+  if (data.lighting.isActive) {
+    const layout = computeLightingLayout(data);
+    layout.profiles.forEach(p => dxf.line(DXF_LAYERS.PROFILES, p.x1, Y(p.y1), p.x2, Y(p.y2)));
+    layout.fixtures.forEach(f => dxf.circle(DXF_LAYERS.FIXTURES, f.x, Y(f.y), FIXTURE_RADIUS));
+
+    const axisLimit = layout.isLongitudinal ? width : length;
+    const stops = [0, ...layout.profiles.map(p => p.position), axisLimit];
+    for (let i = 0; i + 1 < stops.length; i++) {
+      if (stops[i + 1] - stops[i] < 1e-6) continue;
+      const text = formatMeters(stops[i + 1] - stops[i]);
+      if (layout.isLongitudinal) horizontalDim(stops[i], stops[i + 1], 0, -dimOffset, text);
+      else verticalDim(Y(stops[i]), Y(stops[i + 1]), width, width + dimOffset, text);
+    }
+  }
+
+  // Racks, mezzanines and building elements with their labels
+  const layerByType: Record<ObjectType, string> = {
+    RACK: DXF_LAYERS.RACKS,
+    MEZZANINE: DXF_LAYERS.MEZZANINES,
+    COLUMN: DXF_LAYERS.COLUMNS,
+    BEAM: DXF_LAYERS.BEAMS,
+    OBSTACLE: DXF_LAYERS.OBSTACLES,
+  };
+  data.storage.racks.forEach(rack => {
+    const layer = layerByType[rack.type];
+    dxf.polyline(layer, footprintCorners(rack).map(p => [p.x, Y(p.y)] as [number, number]));
+
+    const cx = rack.x + rack.width / 2;
+    const cy = Y(rack.y + rack.depth / 2);
+    const labelHeight = Math.min(textHeight, Math.max(0.1, Math.min(rack.width, rack.depth) * 0.3));
+    dxf.text(DXF_LAYERS.LABELS, cx, cy, labelHeight, rack.label);
+    const detail = rack.elevation ? `E:${rack.elevation}m` : (rack.height ? `H:${rack.height}m` : '');
+    dxf.text(DXF_LAYERS.LABELS, cx, cy - labelHeight * 1.4, labelHeight * 0.8, detail);
+  });
+
+  return dxf.toString();
+};
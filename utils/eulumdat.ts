@@ -0,0 +1,97 @@
+import { Photometry, PhotometrySymmetry } from '../types';
+import { PhotometryParseError, assertAscending } from './photometry';
+
+// --- EULUMDAT (.ldt) PARSER ---
+// Fixed line layout; intensities are given in cd/klm of the lamp flux.
+
+const SYMMETRIES: PhotometrySymmetry[] = ['NONE', 'ROTATIONAL', 'C0_C180', 'C90_C270', 'QUADRANT'];
+
+export const parseEulumdat = (text: string, fileName: string = ''): Photometry => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map(l => l.trim());
+  let pos = 0;
+  const line = (what: string): string => {
+    if (pos >= lines.length) throw new PhotometryParseError(`Arquivo EULUMDAT incompleto: faltando ${what} (linha ${pos + 1}).`);
+    return lines[pos++];
+  };
+  const num = (what: string): number => {
+    const raw = line(what);
+    const v = parseFloat(raw.replace(',', '.'));
+    if (!Number.isFinite(v)) throw new PhotometryParseError(`Valor inválido em ${what} (linha ${pos}): "${raw}".`);
+    return v;
+  };
+
+  const company = line('identificação do fabricante');
+  num('tipo (Ityp)');
+  const isym = num('simetria (Isym)');
+  const mc = num('número de planos C (Mc)');
+  num('intervalo entre planos C (Dc)');
+  const ng = num('número de ângulos gama (Ng)');
+  num('intervalo entre ângulos gama (Dg)');
+  line('número do relatório');
+  const luminaireName = line('nome da luminária');
+  line('código da luminária');
+  line('nome do arquivo');
+  line('data / usuário');
+  for (let i = 0; i < 9; i++) num('dimensões da luminária');
+  num('fração de fluxo para baixo (DFF)');
+  const lorl = num('rendimento (LORL)');
+  const conversion = num('fator de conversão');
+  num('inclinação na medição');
+  const lampSets = num('número de conjuntos de lâmpadas');
+
+  if (!SYMMETRIES[isym]) throw new PhotometryParseError(`Simetria Isym=${isym} inválida.`);
+  if (mc < 1 || ng < 1) throw new PhotometryParseError('Número de planos C ou ângulos gama inválido.');
+
+  let lampFlux = 0;
+  let watts = 0;
+  for (let s = 0; s < lampSets; s++) {
+    const count = Math.abs(num('número de lâmpadas'));
+    line('tipo de lâmpada');
+    lampFlux += num('fluxo total das lâmpadas');
+    line('temperatura de cor');
+    line('IRC');
+    watts += num('potência do conjunto');
+    if (count === 0) throw new PhotometryParseError('Conjunto de lâmpadas sem lâmpadas.');
+  }
+  for (let i = 0; i < 10; i++) num('razões diretas (DR)');
+
+  const allC: number[] = [];
+  for (let i = 0; i < mc; i++) allC.push(num(`ângulo C ${i + 1}`));
+  const verticalAngles: number[] = [];
+  for (let i = 0; i < ng; i++) verticalAngles.push(num(`ângulo gama ${i + 1}`));
+  assertAscending(allC, 'ângulos C');
+  assertAscending(verticalAngles, 'ângulos gama');
+
+  // Planes actually stored in the file, depending on the symmetry
+  const symmetry = SYMMETRIES[isym];
+  let first = 0, count = mc;
+  if (symmetry === 'ROTATIONAL') count = 1;
+  else if (symmetry === 'C0_C180') count = mc / 2 + 1;
+  else if (symmetry === 'C90_C270') { first = mc / 4; count = mc / 2 + 1; }
+  else if (symmetry === 'QUADRANT') count = mc / 4 + 1;
+  if (!Number.isInteger(first) || !Number.isInteger(count)) {
+    throw new PhotometryParseError(`Número de planos C (${mc}) incompatível com a simetria Isym=${isym}.`);
+  }
+
+  const scale = (lampFlux / 1000) * (conversion > 0 ? conversion : 1);
+  const horizontalAngles = allC.slice(first, first + count);
+  const candela: number[][] = [];
+  for (let h = 0; h < count; h++) {
+    const row: number[] = [];
+    for (let g = 0; g < ng; g++) row.push(num(`intensidade C${horizontalAngles[h]} / γ${verticalAngles[g]}`) * scale);
+    candela.push(row);
+  }
+
+  return {
+    format: 'LDT',
+    fileName,
+    manufacturer: company,
+    luminaireName: luminaireName || fileName,
+    lumens: lampFlux * (lorl / 100),
+    watts,
+    symmetry,
+    horizontalAngles: symmetry === 'ROTATIONAL' ? [0] : horizontalAngles,
+    verticalAngles,
+    candela,
+  };
+};
@@ -0,0 +1,221 @@
+import { FieldTemplateId, FloorPoint, SportsProjectData } from '../types';
+
+// --- FIELD TEMPLATES ---
+// Official dimensions and line markings of the usual courts and fields. The field runs along x
+// (`width`, goal line to goal line) and across y (`length`). Fixed-size features (areas, keys,
+// service boxes) keep their official size and stay anchored to the ends and the center, so the
+// markings still make sense after the user resizes the field.
+
+export interface MarkingPath {
+  points: FloorPoint[];
+  closed?: boolean;
+  dashed?: boolean;
+}
+
+export interface FieldMarkings {
+  paths: MarkingPath[];
+  spots: FloorPoint[]; // Penalty / center marks
+}
+
+export interface FieldTemplate {
+  label: string;
+  width: number; // Official size (m)
+  length: number;
+  markings: (w: number, l: number) => FieldMarkings;
+}
+
+const ARC_STEP = Math.PI / 24;
+
+const line = (x1: number, y1: number, x2: number, y2: number, dashed = false): MarkingPath =>
+  ({ points: [{ x: x1, y: y1 }, { x: x2, y: y2 }], dashed });
+
+// Arc around (cx, cy) from angle a0 to a1 (radians, y down), sampled as a polyline. Points off
+// the field are dropped, which trims arcs wider than a narrow court.
+const arc = (
+  cx: number, cy: number, r: number, a0: number, a1: number,
+  field?: { w: number; l: number }, dashed = false
+): MarkingPath => {
+  const steps = Math.max(8, Math.ceil(Math.abs(a1 - a0) / ARC_STEP));
+  const points: FloorPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const a = a0 + ((a1 - a0) * i) / steps;
+    const p = { x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) };
+    if (!field || (p.y >= -1e-6 && p.y <= field.l + 1e-6 && p.x >= -1e-6 && p.x <= field.w + 1e-6)) points.push(p);
+  }
+  return { points, dashed };
+};
+
+const circle = (cx: number, cy: number, r: number): MarkingPath =>
+  ({ ...arc(cx, cy, r, 0, Math.PI * 2), closed: true });
+
+// Box open on the goal line (x = 0)
+const endBox = (depth: number, width: number, cy: number): MarkingPath => ({
+  points: [{ x: 0, y: cy - width / 2 }, { x: depth, y: cy - width / 2 }, { x: depth, y: cy + width / 2 }, { x: 0, y: cy + width / 2 }],
+});
+
+// Markings drawn for the left end, repeated mirrored at the right end
+const bothEnds = (w: number, left: FieldMarkings): FieldMarkings => {
+  const mirror = (p: FloorPoint) => ({ x: w - p.x, y: p.y });
+  return {
+    paths: [...left.paths, ...left.paths.map(path => ({ ...path, points: path.points.map(mirror) }))],
+    spots: [...left.spots, ...left.spots.map(mirror)],
+  };
+};
+
+const merge = (...parts: FieldMarkings[]): FieldMarkings => ({
+  paths: parts.flatMap(p => p.paths),
+  spots: parts.flatMap(p => p.spots),
+});
+
+// Halfway line, center circle and center mark
+const halfway = (w: number, l: number, radius: number, spot = true): FieldMarkings => ({
+  paths: [line(w / 2, 0, w / 2, l), ...(radius > 0 ? [circle(w / 2, l / 2, radius)] : [])],
+  spots: spot ? [{ x: w / 2, y: l / 2 }] : [],
+});
+
+interface FootballSpec {
+  area: [number, number]; // Penalty area depth × width
+  goalArea?: [number, number];
+  spot: number; // Penalty mark from the goal line
+  arc?: number; // Penalty arc radius (around the mark, outside the area)
+  center: number; // Center circle radius
+  corner: number; // Corner arc radius
+}
+
+const football = (spec: FootballSpec) => (w: number, l: number): FieldMarkings => {
+  const cy = l / 2;
+  const [areaDepth, areaWidth] = spec.area;
+  const paths = [endBox(areaDepth, areaWidth, cy)];
+  if (spec.goalArea) paths.push(endBox(spec.goalArea[0], spec.goalArea[1], cy));
+  if (spec.arc && spec.arc > areaDepth - spec.spot) {
+    const a = Math.acos((areaDepth - spec.spot) / spec.arc);
+    paths.push(arc(spec.spot, cy, spec.arc, -a, a));
+  }
+  paths.push(arc(0, 0, spec.corner, 0, Math.PI / 2), arc(0, l, spec.corner, -Math.PI / 2, 0));
+  return merge(bothEnds(w, { paths, spots: [{ x: spec.spot, y: cy }] }), halfway(w, l, spec.center));
+};
+
+// Goal area made of quarter circles around the posts joined by a straight line (futsal, handball)
+const postArcs = (radius: number, goalWidth: number, cy: number, field: { w: number; l: number }, dashed = false): MarkingPath[] => [
+  arc(0, cy - goalWidth / 2, radius, -Math.PI / 2, 0, field, dashed),
+  line(radius, cy - goalWidth / 2, radius, cy + goalWidth / 2, dashed),
+  arc(0, cy + goalWidth / 2, radius, 0, Math.PI / 2, field, dashed),
+];
+
+const futsal = (w: number, l: number): FieldMarkings => {
+  const cy = l / 2;
+  const left: FieldMarkings = {
+    paths: [
+      ...postArcs(6, 3, cy, { w, l }),
+      arc(0, 0, 0.25, 0, Math.PI / 2), arc(0, l, 0.25, -Math.PI / 2, 0),
+    ],
+    spots: [{ x: 6, y: cy }, { x: 10, y: cy }], // Penalty and second penalty marks
+  };
+  return merge(bothEnds(w, left), halfway(w, l, 3));
+};
+
+const handball = (w: number, l: number): FieldMarkings => {
+  const cy = l / 2;
+  const left: FieldMarkings = {
+    paths: [
+      ...postArcs(6, 3, cy, { w, l }), // Goal-area line
+      ...postArcs(9, 3, cy, { w, l }, true), // Free-throw line
+      line(7, cy - 0.5, 7, cy + 0.5), // 7 m line
+      line(4, cy - 0.075, 4, cy + 0.075), // Goalkeeper restraining line
+    ],
+    spots: [],
+  };
+  return merge(bothEnds(w, left), halfway(w, l, 0, false));
+};
+
+const basketball = (w: number, l: number): FieldMarkings => {
+  const cy = l / 2;
+  const basket = 1.575; // Basket center from the end line
+  const threeRadius = 6.75;
+  const corner = Math.min(cy - 0.9, threeRadius); // Straight part of the three-point line, 0.9 m off the sidelines
+  const a = Math.asin(corner / threeRadius);
+  const cornerX = basket + threeRadius * Math.cos(a);
+  const left: FieldMarkings = {
+    paths: [
+      line(0, cy - corner, cornerX, cy - corner),
+      arc(basket, cy, threeRadius, -a, a),
+      line(0, cy + corner, cornerX, cy + corner),
+      endBox(5.8, 4.9, cy), // Restricted area (key)
+      arc(5.8, cy, 1.8, -Math.PI / 2, Math.PI / 2), // Free-throw circle
+      arc(5.8, cy, 1.8, Math.PI / 2, Math.PI * 1.5, undefined, true),
+      arc(basket, cy, 1.25, -Math.PI / 2, Math.PI / 2), // No-charge semicircle
+      line(1.2, cy - 0.9, 1.2, cy + 0.9), // Backboard
+    ],
+    spots: [],
+  };
+  return merge(bothEnds(w, left), halfway(w, l, 1.8, false));
+};
+
+const volleyball = (w: number, l: number): FieldMarkings => ({
+  paths: [line(w / 2, 0, w / 2, l), line(w / 2 - 3, 0, w / 2 - 3, l), line(w / 2 + 3, 0, w / 2 + 3, l)], // Center and attack lines
+  spots: [],
+});
+
+const tennis = (w: number, l: number): FieldMarkings => {
+  const cy = l / 2;
+  const alley = 1.37; // Doubles alley
+  const service = 6.4; // Service line from the net
+  return {
+    paths: [
+      line(0, alley, w, alley),
+      line(0, l - alley, w, l - alley),
+      line(w / 2, 0, w / 2, l), // Net
+      line(w / 2 - service, alley, w / 2 - service, l - alley),
+      line(w / 2 + service, alley, w / 2 + service, l - alley),
+      line(w / 2 - service, cy, w / 2 + service, cy), // Center service line
+      line(0, cy, 0.1, cy), line(w - 0.1, cy, w, cy), // Center marks
+    ],
+    spots: [],
+  };
+};
+
+const padel = (w: number, l: number): FieldMarkings => {
+  const cy = l / 2;
+  const service = 6.95; // Service line from the net
+  return {
+    paths: [
+      line(w / 2, 0, w / 2, l), // Net
+      line(w / 2 - service, 0, w / 2 - service, l),
+      line(w / 2 + service, 0, w / 2 + service, l),
+      line(w / 2 - service - 0.2, cy, w / 2 + service + 0.2, cy), // Center service line, 0.2 m past the service lines
+    ],
+    spots: [],
+  };
+};
+
+export const FIELD_TEMPLATES: Record<FieldTemplateId, FieldTemplate> = {
+  FOOTBALL_11: {
+    label: 'Futebol 11', width: 105, length: 68,
+    markings: football({ area: [16.5, 40.32], goalArea: [5.5, 18.32], spot: 11, arc: 9.15, center: 9.15, corner: 1 }),
+  },
+  FOOTBALL_7: {
+    label: 'Futebol 7 (Society)', width: 50, length: 30,
+    markings: football({ area: [9, 18], spot: 8, center: 5, corner: 0.5 }),
+  },
+  FOOTBALL_5: {
+    label: 'Futebol 5', width: 30, length: 20,
+    markings: football({ area: [6, 12], spot: 6, center: 3, corner: 0.25 }),
+  },
+  FUTSAL: { label: 'Futsal', width: 40, length: 20, markings: futsal },
+  BASKETBALL: { label: 'Basquete', width: 28, length: 15, markings: basketball },
+  VOLLEYBALL: { label: 'Vôlei', width: 18, length: 9, markings: volleyball },
+  TENNIS: { label: 'Tênis', width: 23.77, length: 10.97, markings: tennis },
+  PADEL: { label: 'Padel', width: 20, length: 10, markings: padel },
+  HANDBALL: { label: 'Handebol', width: 40, length: 20, markings: handball },
+};
+
+// Markings of the project's field; a custom field gets a halfway line and a 2 m circle
+export const fieldMarkings = (data: SportsProjectData): FieldMarkings => {
+  if (!(data.width > 0) || !(data.length > 0)) return { paths: [], spots: [] };
+  return data.template
+    ? FIELD_TEMPLATES[data.template].markings(data.width, data.length)
+    : halfway(data.width, data.length, 2, false);
+};
+
+export const fieldTemplateLabel = (data: SportsProjectData): string =>
+  data.template ? FIELD_TEMPLATES[data.template].label : 'Personalizado';
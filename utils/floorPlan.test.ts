@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PROJECT, ProjectData, RackBlock } from '../types';
+import { transposeHall } from './floorPlan';
+import { footprintCorners } from './footprint';
+
+const rack = (patch: Partial<RackBlock>): RackBlock => ({
+  id: 'r1', type: 'RACK', x: 4, y: 2, width: 6, depth: 1, height: 8, elevation: 0, label: 'R1', ...patch,
+});
+
+const withRacks = (...racks: RackBlock[]): ProjectData => ({
+  ...DEFAULT_PROJECT, width: 40, length: 20, storage: { isActive: true, racks },
+});
+
+const sorted = (points: { x: number, y: number }[]) =>
+  points.map(p => [Math.round(p.x * 1000) / 1000, Math.round(p.y * 1000) / 1000]).sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+describe('transposeHall', () => {
+  it('swaps the hall and the axis-aligned objects', () => {
+    const data = transposeHall(withRacks(rack({})));
+    expect([data.width, data.length]).toEqual([20, 40]);
+    expect(data.storage.racks[0]).toMatchObject({ x: 2, y: 4, width: 1, depth: 6 });
+    expect(data.storage.racks[0].rotation).toBeUndefined();
+  });
+
+  it('mirrors the footprint of rotated objects', () => {
+    const original = rack({ rotation: 30 });
+    const [moved] = transposeHall(withRacks(original)).storage.racks;
+    expect(moved.rotation).toBe(330);
+    expect(sorted(footprintCorners(moved))).toEqual(sorted(footprintCorners(original).map(p => ({ x: p.y, y: p.x }))));
+  });
+
+  it('is undone by a second transpose', () => {
+    const data = withRacks(rack({ rotation: 45 }), rack({ id: 'r2', rotation: 90 }));
+    expect(transposeHall(transposeHall(data)).storage.racks).toEqual(data.storage.racks);
+  });
+});
@@ -0,0 +1,207 @@
+import { ProjectData, FloorPoint } from '../types';
+import { normalizeRotation } from './footprint';
+
+// --- HALL FLOOR GEOMETRY ---
+// The floor is `data.outline` when set (L-shapes, cut corners, imported plans), otherwise the
+// width × length rectangle. Outline points are in plan meters (origin top-left, y down) and
+// kept normalized: their bounding box is always [0, width] × [0, length].
+
+const EPSILON = 1e-9;
+const SPOT_STEP = 0.5; // Search step when placing new objects (same as the drag snap)
+
+type HallGeometry = Pick<ProjectData, 'width' | 'length' | 'outline'>;
+
+export interface FloorSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+export const rectangleOutline = (width: number, length: number): FloorPoint[] => [
+  { x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: length }, { x: 0, y: length },
+];
+
+export const isPolygonalHall = (data: HallGeometry): boolean => !!data.outline && data.outline.length >= 3;
+
+export const hallOutline = (data: HallGeometry): FloorPoint[] =>
+  isPolygonalHall(data) ? data.outline! : rectangleOutline(data.width, data.length);
+
+export const polygonArea = (points: FloorPoint[]): number => {
+  let sum = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    sum += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(sum) / 2;
+};
+
+export const polygonPerimeter = (points: FloorPoint[]): number =>
+  points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return sum + Math.hypot(q.x - p.x, q.y - p.y);
+  }, 0);
+
+export const hallArea = (data: HallGeometry): number => polygonArea(hallOutline(data));
+export const hallPerimeter = (data: HallGeometry): number => polygonPerimeter(hallOutline(data));
+
+// Ray casting; points exactly on a wall may fall either way
+export const pointInOutline = (points: FloorPoint[], x: number, y: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i], b = points[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+const side = (ax: number, ay: number, bx: number, by: number, px: number, py: number) =>
+  (bx - ax) * (py - ay) - (by - ay) * (px - ax);
+
+// Proper crossing: the segments cut each other at a point interior to both
+const segmentsCross = (a: FloorSegment, b: FloorSegment): boolean => {
+  const d1 = side(b.x1, b.y1, b.x2, b.y2, a.x1, a.y1);
+  const d2 = side(b.x1, b.y1, b.x2, b.y2, a.x2, a.y2);
+  const d3 = side(a.x1, a.y1, a.x2, a.y2, b.x1, b.y1);
+  const d4 = side(a.x1, a.y1, a.x2, a.y2, b.x2, b.y2);
+  return ((d1 > EPSILON && d2 < -EPSILON) || (d1 < -EPSILON && d2 > EPSILON)) &&
+    ((d3 > EPSILON && d4 < -EPSILON) || (d3 < -EPSILON && d4 > EPSILON));
+};
+
+const outlineEdges = (points: FloorPoint[]): FloorSegment[] =>
+  points.map((p, i) => {
+    const q = points[(i + 1) % points.length];
+    return { x1: p.x, y1: p.y, x2: q.x, y2: q.y };
+  });
+
+// Axis-aligned rectangle fully on the floor (touching the walls is allowed)
+export const rectInsideOutline = (points: FloorPoint[], x: number, y: number, width: number, depth: number): boolean => {
+  if (!pointInOutline(points, x + width / 2, y + depth / 2)) return false;
+  const x2 = x + width, y2 = y + depth;
+  // A wall corner inside the rectangle means a notch cuts into it
+  if (points.some(p => p.x > x + EPSILON && p.x < x2 - EPSILON && p.y > y + EPSILON && p.y < y2 - EPSILON)) return false;
+  const sides: FloorSegment[] = [
+    { x1: x, y1: y, x2, y2: y }, { x1: x2, y1: y, x2, y2 },
+    { x1: x2, y1: y2, x2: x, y2 }, { x1: x, y1: y2, x2: x, y2: y },
+  ];
+  const edges = outlineEdges(points);
+  return !edges.some(edge => sides.some(s => segmentsCross(edge, s)));
+};
+
+export const isInsideHall = (data: HallGeometry, x: number, y: number, width: number, depth: number): boolean =>
+  isPolygonalHall(data)
+    ? rectInsideOutline(data.outline!, x, y, width, depth)
+    : x >= -EPSILON && y >= -EPSILON && x + width <= data.width + EPSILON && y + depth <= data.length + EPSILON;
+
+// Parts of the segment that lie on the floor, in the segment's direction
+export const clipSegmentToOutline = (points: FloorPoint[], segment: FloorSegment): FloorSegment[] => {
+  const { x1, y1, x2, y2 } = segment;
+  const dx = x2 - x1, dy = y2 - y1;
+  const cuts = [0, 1];
+  outlineEdges(points).forEach(edge => {
+    const ex = edge.x2 - edge.x1, ey = edge.y2 - edge.y1;
+    const denom = dx * ey - dy * ex;
+    if (Math.abs(denom) < EPSILON) return; // Parallel (collinear overlaps change nothing)
+    const t = ((edge.x1 - x1) * ey - (edge.y1 - y1) * ex) / denom;
+    const u = ((edge.x1 - x1) * dy - (edge.y1 - y1) * dx) / denom;
+    if (t > EPSILON && t < 1 - EPSILON && u >= -EPSILON && u <= 1 + EPSILON) cuts.push(t);
+  });
+  cuts.sort((a, b) => a - b);
+
+  const at = (t: number) => ({ x: x1 + dx * t, y: y1 + dy * t });
+  const pieces: [number, number][] = [];
+  for (let i = 0; i + 1 < cuts.length; i++) {
+    const [t1, t2] = [cuts[i], cuts[i + 1]];
+    if (t2 - t1 < EPSILON) continue;
+    const mid = at((t1 + t2) / 2);
+    if (!pointInOutline(points, mid.x, mid.y)) continue;
+    const last = pieces[pieces.length - 1];
+    if (last && Math.abs(last[1] - t1) < EPSILON) last[1] = t2; // Vertex touch: still one piece
+    else pieces.push([t1, t2]);
+  }
+  return pieces.map(([t1, t2]) => {
+    const a = at(t1), b = at(t2);
+    return { x1: a.x, y1: a.y, x2: b.x, y2: b.y };
+  });
+};
+
+// --- EDITING ---
+
+// Sets the outline: drops repeated points, moves the bounding box to the origin and updates
+// width / length. Objects move with the floor so they stay where they were drawn.
+export const withHallOutline = (data: ProjectData, points: FloorPoint[]): ProjectData => {
+  const cleaned = points
+    .map(p => ({ x: round3(p.x), y: round3(p.y) }))
+    .filter((p, i, all) => {
+      const prev = all[(i + all.length - 1) % all.length];
+      return p.x !== prev.x || p.y !== prev.y;
+    });
+  if (cleaned.length < 3) return data;
+  const minX = Math.min(...cleaned.map(p => p.x));
+  const minY = Math.min(...cleaned.map(p => p.y));
+  const outline = cleaned.map(p => ({ x: round3(p.x - minX), y: round3(p.y - minY) }));
+  return {
+    ...data,
+    outline,
+    width: Math.max(...outline.map(p => p.x)),
+    length: Math.max(...outline.map(p => p.y)),
+    storage: minX === 0 && minY === 0 ? data.storage : {
+      ...data.storage,
+      racks: data.storage.racks.map(r => ({ ...r, x: round3(r.x - minX), y: round3(r.y - minY) })),
+    },
+  };
+};
+
+// Mirror over the diagonal: width ↔ length, with the outline and every object (a mirrored
+// block turns the other way)
+export const transposeHall = (data: ProjectData): ProjectData => ({
+  ...data,
+  width: data.length,
+  length: data.width,
+  ...(data.outline ? { outline: data.outline.map(p => ({ x: p.y, y: p.x })) } : {}),
+  storage: {
+    ...data.storage,
+    racks: data.storage.racks.map(r => ({
+      ...r, x: r.y, y: r.x, width: r.depth, depth: r.width,
+      ...(r.rotation !== undefined ? { rotation: normalizeRotation(-r.rotation) } : {}),
+    })),
+  },
+});
+
+// Starting shapes for the outline editor, cut from the current rectangle
+export type OutlinePreset = 'RECTANGLE' | 'L_SHAPE' | 'CUT_CORNER';
+
+export const presetOutline = (preset: OutlinePreset, width: number, length: number): FloorPoint[] => {
+  const w = round3(width), l = round3(length);
+  switch (preset) {
+    case 'L_SHAPE': {
+      const cx = round3(w / 2), cy = round3(l / 2);
+      return [{ x: 0, y: 0 }, { x: cx, y: 0 }, { x: cx, y: cy }, { x: w, y: cy }, { x: w, y: l }, { x: 0, y: l }];
+    }
+    case 'CUT_CORNER': {
+      const cut = round3(Math.min(w, l) / 4);
+      return [{ x: 0, y: 0 }, { x: w - cut, y: 0 }, { x: w, y: cut }, { x: w, y: l }, { x: 0, y: l }];
+    }
+    default:
+      return rectangleOutline(w, l);
+  }
+};
+
+// First position where a new object fits on the floor, scanning rows from the top-left corner.
+// `isFree` can rule out further spots (e.g. on top of a column).
+export const findFloorSpot = (
+  data: HallGeometry,
+  width: number,
+  depth: number,
+  margin: number = 1,
+  isFree: (x: number, y: number) => boolean = () => true
+): { x: number; y: number } | null => {
+  for (let y = margin; y + depth <= data.length + EPSILON; y += SPOT_STEP) {
+    for (let x = margin; x + width <= data.width + EPSILON; x += SPOT_STEP) {
+      if (isInsideHall(data, x, y, width, depth) && isFree(x, y)) return { x, y };
+    }
+  }
+  return null;
+};
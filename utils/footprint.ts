@@ -0,0 +1,90 @@
+import { FloorPoint } from '../types';
+
+// --- OBJECT FOOTPRINTS (rotation) ---
+// `x`, `y`, `width` and `depth` describe the block before rotation; `rotation` turns it clockwise
+// in plan (y down) about its center, so rotating never moves the center. Checks that work on
+// axis-aligned boxes (walls, building elements, light obstruction) use the rotated bounding
+// box: exact for 90° steps, slightly conservative for free angles.
+
+const EPSILON = 1e-9;
+
+export interface PlanRect {
+  x: number;
+  y: number;
+  width: number;
+  depth: number;
+  rotation?: number;
+}
+
+export interface PlanBounds {
+  x: number;
+  y: number;
+  width: number;
+  depth: number;
+}
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+
+// Degrees in [0, 360)
+export const normalizeRotation = (degrees: number): number => {
+  if (!Number.isFinite(degrees)) return 0;
+  const d = round3(((degrees % 360) + 360) % 360);
+  return d >= 360 ? 0 : d;
+};
+
+export const rotationOf = (obj: PlanRect): number => normalizeRotation(obj.rotation || 0);
+
+export const isRotated = (obj: PlanRect): boolean => rotationOf(obj) !== 0;
+
+// Corners clockwise from the block's own top-left (before rotation)
+export const footprintCorners = (obj: PlanRect): FloorPoint[] => {
+  const cx = obj.x + obj.width / 2, cy = obj.y + obj.depth / 2;
+  const local: [number, number][] = [
+    [-obj.width / 2, -obj.depth / 2], [obj.width / 2, -obj.depth / 2],
+    [obj.width / 2, obj.depth / 2], [-obj.width / 2, obj.depth / 2],
+  ];
+  const angle = (rotationOf(obj) * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  return local.map(([dx, dy]) => ({ x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos }));
+};
+
+export const footprintBounds = (obj: PlanRect): PlanBounds => {
+  if (!isRotated(obj)) return { x: obj.x, y: obj.y, width: obj.width, depth: obj.depth };
+  const corners = footprintCorners(obj);
+  const xs = corners.map(p => p.x), ys = corners.map(p => p.y);
+  const x = Math.min(...xs), y = Math.min(...ys);
+  return { x: round3(x), y: round3(y), width: round3(Math.max(...xs) - x), depth: round3(Math.max(...ys) - y) };
+};
+
+export const unionBounds = (boxes: PlanBounds[]): PlanBounds => {
+  const x = Math.min(...boxes.map(b => b.x)), y = Math.min(...boxes.map(b => b.y));
+  return {
+    x, y,
+    width: Math.max(...boxes.map(b => b.x + b.width)) - x,
+    depth: Math.max(...boxes.map(b => b.y + b.depth)) - y,
+  };
+};
+
+// Separating axis test on the rotated rectangles; touching edges do not overlap
+export const footprintsOverlap = (a: PlanRect, b: PlanRect, tolerance: number = 1e-6): boolean => {
+  const ca = footprintCorners(a), cb = footprintCorners(b);
+  const axes = [ca, cb].flatMap(c => [[c[1].x - c[0].x, c[1].y - c[0].y], [c[3].x - c[0].x, c[3].y - c[0].y]]);
+  return axes.every(([ax, ay]) => {
+    const len = Math.hypot(ax, ay);
+    if (len < EPSILON) return true;
+    const project = (c: FloorPoint[]) => c.map(p => (p.x * ax + p.y * ay) / len);
+    const pa = project(ca), pb = project(cb);
+    return Math.min(Math.max(...pa), Math.max(...pb)) - Math.max(Math.min(...pa), Math.min(...pb)) > tolerance;
+  });
+};
+
+// Point in the rotated rectangle (edges included)
+export const pointInFootprint = (obj: PlanRect, px: number, py: number): boolean => {
+  const cx = obj.x + obj.width / 2, cy = obj.y + obj.depth / 2;
+  const angle = (-rotationOf(obj) * Math.PI) / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const dx = px - cx, dy = py - cy;
+  const lx = dx * cos - dy * sin, ly = dx * sin + dy * cos;
+  return Math.abs(lx) <= obj.width / 2 + EPSILON && Math.abs(ly) <= obj.depth / 2 + EPSILON;
+};
+
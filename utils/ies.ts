@@ -0,0 +1,111 @@
+import { Photometry, PhotometrySymmetry } from '../types';
+import { PhotometryParseError, assertAscending, integrateFlux } from './photometry';
+
+// --- IES LM-63 PARSER (1986, 1991, 1995 and 2002 variants) ---
+
+const ABSOLUTE_PHOTOMETRY = -1; // "lumens per lamp" value for absolute (LED) photometry
+
+const symmetryFromPlanes = (first: number, last: number): PhotometrySymmetry => {
+  if (last === 0) return 'ROTATIONAL';
+  if (first === 0 && last === 90) return 'QUADRANT';
+  if (first === 0 && last === 180) return 'C0_C180';
+  if (first === 90 && last === 270) return 'C90_C270';
+  return 'NONE';
+};
+
+export const parseIES = (text: string, fileName: string = ''): Photometry => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  if (lines.length < 2) throw new PhotometryParseError('Arquivo IES vazio.');
+
+  // Header: optional format line + [KEYWORD] lines until TILT=
+  const keywords: Record<string, string> = {};
+  let i = 0;
+  let lastKey = '';
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line.toUpperCase().startsWith('TILT=')) break;
+    const match = line.match(/^\[(\w+)\]\s*(.*)$/);
+    if (match) {
+      const key = match[1].toUpperCase();
+      // [MORE] continues the previous keyword
+      if (key === 'MORE' && lastKey) { keywords[lastKey] += ` ${match[2]}`; }
+      else { keywords[key] = match[2]; lastKey = key; }
+    }
+  }
+  if (i >= lines.length) throw new PhotometryParseError('Linha "TILT=" não encontrada. O arquivo não parece ser IES LM-63.');
+
+  const tilt = lines[i].trim().substring(5).trim().toUpperCase();
+  const tokens = lines.slice(i + 1).join(' ').trim().split(/[\s,]+/).filter(t => t.length > 0);
+  let pos = 0;
+  const next = (what: string): number => {
+    if (pos >= tokens.length) throw new PhotometryParseError(`Arquivo IES incompleto: faltando ${what}.`);
+    const v = parseFloat(tokens[pos++]);
+    if (!Number.isFinite(v)) throw new PhotometryParseError(`Valor inválido em ${what}: "${tokens[pos - 1]}".`);
+    return v;
+  };
+
+  // TILT=INCLUDE embeds the tilt table; it only affects tilted lamps, so it is skipped
+  if (tilt === 'INCLUDE') {
+    next('geometria da lâmpada (TILT)');
+    const tiltCount = next('número de ângulos (TILT)');
+    pos += tiltCount * 2;
+  }
+
+  const lampCount = next('número de lâmpadas');
+  const lumensPerLamp = next('lúmens por lâmpada');
+  const multiplier = next('multiplicador de candela');
+  const verticalCount = next('número de ângulos verticais');
+  const horizontalCount = next('número de ângulos horizontais');
+  const photometricType = next('tipo fotométrico');
+  next('unidade'); next('largura'); next('comprimento'); next('altura');
+  const ballastFactor = next('fator de reator');
+  next('fator futuro');
+  const inputWatts = next('potência de entrada');
+
+  if (photometricType !== 1) {
+    throw new PhotometryParseError(`Tipo fotométrico ${photometricType} não suportado (apenas Tipo C).`);
+  }
+  if (verticalCount < 1 || horizontalCount < 1) {
+    throw new PhotometryParseError('Número de ângulos inválido no arquivo IES.');
+  }
+
+  const verticalAngles: number[] = [];
+  for (let v = 0; v < verticalCount; v++) verticalAngles.push(next(`ângulo vertical ${v + 1}`));
+  const horizontalAngles: number[] = [];
+  for (let h = 0; h < horizontalCount; h++) horizontalAngles.push(next(`ângulo horizontal ${h + 1}`));
+
+  assertAscending(verticalAngles, 'ângulos verticais');
+  assertAscending(horizontalAngles, 'ângulos horizontais');
+
+  const scale = multiplier * (ballastFactor > 0 ? ballastFactor : 1);
+  const candela: number[][] = [];
+  for (let h = 0; h < horizontalCount; h++) {
+    const row: number[] = [];
+    for (let v = 0; v < verticalCount; v++) row.push(next(`candela [${h + 1}, ${v + 1}]`) * scale);
+    candela.push(row);
+  }
+
+  // Type C files starting at 90° (upward-only) are valid; anything else must start at nadir
+  if (verticalAngles[0] !== 0 && verticalAngles[0] !== 90) {
+    throw new PhotometryParseError(`Ângulo vertical inicial ${verticalAngles[0]}° não suportado.`);
+  }
+
+  const photometry: Photometry = {
+    format: 'IES',
+    fileName,
+    manufacturer: keywords.MANUFAC || '',
+    luminaireName: keywords.LUMINAIRE || keywords.LUMCAT || fileName,
+    lumens: 0,
+    watts: inputWatts,
+    symmetry: symmetryFromPlanes(horizontalAngles[0], horizontalAngles[horizontalAngles.length - 1]),
+    horizontalAngles,
+    verticalAngles,
+    candela,
+  };
+  photometry.lumens = integrateFlux(photometry);
+  // Relative photometry still reports its rated lamp flux when integration is not possible
+  if (photometry.lumens <= 0 && lumensPerLamp !== ABSOLUTE_PHOTOMETRY) {
+    photometry.lumens = lampCount * lumensPerLamp;
+  }
+  return photometry;
+};
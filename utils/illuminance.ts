@@ -0,0 +1,218 @@
+import { ProjectData, FixtureSpec, RackBlock } from '../types';
+import { computeLightingLayout, FixturePoint } from './lightingLayout';
+import { photometryIntensityModel } from './photometry';
+import { hallArea, hallPerimeter, hallOutline, isPolygonalHall, pointInOutline } from './floorPlan';
+import { footprintBounds } from './footprint';
+
+// --- ILLUMINANCE CALCULATION ---
+// Lumen method (average over the hall) plus a point-by-point grid of direct
+// horizontal illuminance on the floor. All results are maintained values (× MF).
+// Racks and mezzanines are opaque boxes: they shade the floor behind/below them.
+// On polygonal halls the grid covers the bounding box; cells off the floor are excluded.
+
+// Luminous intensity (cd) at angle gamma from the downward vertical, in C-plane `c` (radians)
+export type IntensityModel = (gamma: number, c: number) => number;
+
+export interface IlluminanceGrid {
+  cols: number;
+  rows: number;
+  stepX: number;
+  stepY: number;
+  values: number[]; // Row-major lux values at cell centers
+  covered: boolean[]; // Cells occupied by a rack or off the floor (excluded from statistics)
+}
+
+export interface Obstacle {
+  x: number;
+  y: number;
+  width: number;
+  depth: number;
+  bottom: number;
+  top: number;
+}
+
+export interface GridOptions {
+  workPlaneHeight?: number;
+  spacing?: number; // Overrides the EN 12464-1 spacing (e.g. finer grids for the heatmap)
+  obstacles?: Obstacle[];
+}
+
+export interface IlluminanceResult {
+  fixtureCount: number;
+  installedWatts: number;
+  mountingHeight: number;
+  roomIndex: number;
+  utilizationFactor: number;
+  lumenMethodLux: number; // Average from the lumen method
+  averageLux: number; // Eavg from the grid
+  minLux: number;
+  maxLux: number;
+  uniformity: number; // U0 = Emin / Eavg
+  grid: IlluminanceGrid;
+  passes: boolean; // averageLux >= luxRequired
+}
+
+// Utilization factor by room index (typical industrial reflectances 50/30/20)
+const UF_TABLE: [number, number][] = [
+  [0.6, 0.40], [0.8, 0.48], [1.0, 0.54], [1.25, 0.60], [1.5, 0.64],
+  [2.0, 0.70], [2.5, 0.74], [3.0, 0.77], [4.0, 0.81], [5.0, 0.83],
+];
+
+export const utilizationFactor = (roomIndex: number): number => {
+  if (roomIndex <= UF_TABLE[0][0]) return UF_TABLE[0][1];
+  for (let i = 1; i < UF_TABLE.length; i++) {
+    const [k1, u1] = UF_TABLE[i - 1];
+    const [k2, u2] = UF_TABLE[i];
+    if (roomIndex <= k2) return u1 + (u2 - u1) * ((roomIndex - k1) / (k2 - k1));
+  }
+  return UF_TABLE[UF_TABLE.length - 1][1];
+};
+
+// Rotationally symmetric cos^m distribution whose half-intensity angle matches the beam angle
+export const beamIntensityModel = (fixture: FixtureSpec): IntensityModel => {
+  const halfAngle = Math.min(89, Math.max(5, fixture.beamAngle / 2)) * Math.PI / 180;
+  const m = Math.log(0.5) / Math.log(Math.cos(halfAngle));
+  const i0 = fixture.lumens * (m + 1) / (2 * Math.PI);
+  return (gamma: number) => (gamma >= Math.PI / 2 ? 0 : i0 * Math.pow(Math.cos(gamma), m));
+};
+
+// EN 12464-1 grid spacing: p = 0.2 × 5^log10(d), at most 10m
+export const gridSpacing = (size: number): number =>
+  Math.min(10, 0.2 * Math.pow(5, Math.log10(Math.max(size, 1))));
+
+// Direct horizontal illuminance at (px, py, pz) from a fixture at (fx, fy, fz) pointing down
+export const pointIlluminance = (
+  intensity: IntensityModel,
+  fx: number, fy: number, fz: number,
+  px: number, py: number, pz: number
+): number => {
+  const dx = px - fx;
+  const dy = py - fy;
+  const h = fz - pz;
+  if (h <= 0) return 0;
+  const d2 = dx * dx + dy * dy + h * h;
+  const cosGamma = h / Math.sqrt(d2);
+  const gamma = Math.acos(cosGamma);
+  const c = Math.atan2(dy, dx);
+  return (intensity(gamma, c) * cosGamma) / d2;
+};
+
+export const obstaclesFromRacks = (racks: RackBlock[]): Obstacle[] =>
+  racks
+    .filter(r => r.height > 0)
+    .map(r => ({ ...footprintBounds(r), bottom: r.elevation || 0, top: (r.elevation || 0) + r.height }));
+
+// Slab test: does the segment A→B pass through the box?
+export const segmentHitsBox = (ax: number, ay: number, az: number, bx: number, by: number, bz: number, o: Obstacle): boolean => {
+  let tMin = 0, tMax = 1;
+  const axes: [number, number, number, number][] = [
+    [ax, bx - ax, o.x, o.x + o.width],
+    [ay, by - ay, o.y, o.y + o.depth],
+    [az, bz - az, o.bottom, o.top],
+  ];
+  for (const [start, dir, lo, hi] of axes) {
+    if (Math.abs(dir) < 1e-9) {
+      if (start <= lo || start >= hi) return false;
+    } else {
+      let t1 = (lo - start) / dir;
+      let t2 = (hi - start) / dir;
+      if (t1 > t2) [t1, t2] = [t2, t1];
+      tMin = Math.max(tMin, t1);
+      tMax = Math.min(tMax, t2);
+      if (tMin >= tMax) return false;
+    }
+  }
+  return true;
+};
+
+const isCovered = (px: number, py: number, pz: number, obstacles: Obstacle[]) =>
+  obstacles.some(o => o.bottom <= pz && o.top > pz && px > o.x && px < o.x + o.width && py > o.y && py < o.y + o.depth);
+
+export const computeIlluminanceGrid = (
+  data: ProjectData,
+  fixtures: FixturePoint[],
+  intensity: IntensityModel,
+  { workPlaneHeight = 0, spacing, obstacles = [] }: GridOptions = {}
+): IlluminanceGrid => {
+  const stepX = spacing || gridSpacing(data.width);
+  const stepY = spacing || gridSpacing(data.length);
+  const cols = Math.max(1, Math.ceil(data.width / stepX));
+  const rows = Math.max(1, Math.ceil(data.length / stepY));
+  const cellW = data.width / cols;
+  const cellH = data.length / rows;
+  const fz = data.ceilingHeight;
+  const mf = data.lighting.maintenanceFactor;
+  const outline = isPolygonalHall(data) ? hallOutline(data) : null;
+  const values: number[] = [];
+  const covered: boolean[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    const py = (r + 0.5) * cellH;
+    for (let c = 0; c < cols; c++) {
+      const px = (c + 0.5) * cellW;
+      const isPointCovered = (outline !== null && !pointInOutline(outline, px, py)) || isCovered(px, py, workPlaneHeight, obstacles);
+      let e = 0;
+      if (!isPointCovered) {
+        fixtures.forEach(f => {
+          if (obstacles.some(o => segmentHitsBox(f.x, f.y, fz, px, py, workPlaneHeight, o))) return;
+          e += pointIlluminance(intensity, f.x, f.y, fz, px, py, workPlaneHeight);
+        });
+      }
+      values.push(e * mf);
+      covered.push(isPointCovered);
+    }
+  }
+  return { cols, rows, stepX: cellW, stepY: cellH, values, covered };
+};
+
+// Eavg / Emin / Emax over the uncovered cells
+export const gridStatistics = (grid: IlluminanceGrid) => {
+  const open = grid.values.filter((_, i) => !grid.covered[i]);
+  if (open.length === 0) return { averageLux: 0, minLux: 0, maxLux: 0 };
+  let min = Infinity, max = -Infinity, sum = 0;
+  open.forEach(v => { sum += v; if (v < min) min = v; if (v > max) max = v; });
+  return { averageLux: sum / open.length, minLux: min, maxLux: max };
+};
+
+// K = 2A / (h × P); the usual A / (h × (w + l)) for rectangular halls
+export const roomIndexOf = (data: ProjectData): number =>
+  (2 * hallArea(data)) / (data.ceilingHeight * hallPerimeter(data));
+
+// Imported photometry takes precedence over the generic beam model
+export const fixtureIntensityModel = (data: ProjectData): IntensityModel =>
+  data.lighting.photometry ? photometryIntensityModel(data.lighting.photometry) : beamIntensityModel(data.lighting.fixture);
+
+export const computeIlluminance = (
+  data: ProjectData,
+  intensity: IntensityModel = fixtureIntensityModel(data)
+): IlluminanceResult | null => {
+  if (data.width <= 0 || data.length <= 0 || data.ceilingHeight <= 0) return null;
+  const layout = computeLightingLayout(data);
+  if (layout.fixtures.length === 0) return null;
+
+  const { fixture, maintenanceFactor } = data.lighting;
+  const area = hallArea(data);
+  const mountingHeight = data.ceilingHeight;
+  const roomIndex = roomIndexOf(data);
+  const uf = utilizationFactor(roomIndex);
+  const lumenMethodLux = (layout.fixtures.length * fixture.lumens * maintenanceFactor * uf) / area;
+
+  const obstacles = obstaclesFromRacks(data.storage.racks);
+  const grid = computeIlluminanceGrid(data, layout.fixtures, intensity, { obstacles });
+  const { averageLux, minLux, maxLux } = gridStatistics(grid);
+
+  return {
+    fixtureCount: layout.fixtures.length,
+    installedWatts: layout.fixtures.length * fixture.watts,
+    mountingHeight,
+    roomIndex,
+    utilizationFactor: uf,
+    lumenMethodLux,
+    averageLux,
+    minLux,
+    maxLux,
+    uniformity: averageLux > 0 ? minLux / averageLux : 0,
+    grid,
+    passes: averageLux >= data.luxRequired,
+  };
+};
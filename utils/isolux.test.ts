@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { IlluminanceGrid } from './illuminance';
+import { isoluxContours } from './isolux';
+
+// 4 x 2 cells of 1 m rising from 0 to 300 lx along x
+const ramp = (covered: boolean[] = Array(8).fill(false)): IlluminanceGrid => ({
+  cols: 4, rows: 2, stepX: 1, stepY: 1, values: [0, 100, 200, 300, 0, 100, 200, 300], covered,
+});
+
+describe('isoluxContours', () => {
+  it('crosses the lattice where the level lies', () => {
+    expect(isoluxContours(ramp(), [150])).toEqual([{ level: 150, x1: 2, y1: 0.5, x2: 2, y2: 1.5 }]);
+  });
+
+  it('skips squares touching a covered cell', () => {
+    const covered = [false, false, true, false, false, false, false, false];
+    expect(isoluxContours(ramp(covered), [150])).toEqual([]);
+    expect(isoluxContours(ramp(covered), [50])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,78 @@
+import { IlluminanceGrid } from './illuminance';
+
+// --- ISOLUX CONTOURS & FALSE-COLOR SCALE ---
+
+export interface ContourSegment {
+  level: number;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// Blue → cyan → green → yellow → red
+const COLOR_STOPS: [number, [number, number, number]][] = [
+  [0, [37, 99, 235]],
+  [0.25, [6, 182, 212]],
+  [0.5, [34, 197, 94]],
+  [0.75, [250, 204, 21]],
+  [1, [239, 68, 68]],
+];
+
+export const falseColor = (t: number, alpha: number = 1): string => {
+  const v = Math.min(1, Math.max(0, t));
+  let i = 1;
+  while (i < COLOR_STOPS.length - 1 && v > COLOR_STOPS[i][0]) i++;
+  const [t1, c1] = COLOR_STOPS[i - 1];
+  const [t2, c2] = COLOR_STOPS[i];
+  const f = (v - t1) / (t2 - t1);
+  const rgb = c1.map((c, k) => Math.round(c + (c2[k] - c) * f));
+  return `rgba(${rgb[0]}, ${rgb[1]}, ${rgb[2]}, ${alpha})`;
+};
+
+// "Nice" isolux levels between min and max (1-2-5 steps)
+export const isoluxLevels = (min: number, max: number, target: number = 6): number[] => {
+  if (max <= min) return [];
+  const raw = (max - min) / target;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw) || raw;
+  const levels: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v < max; v += step) {
+    if (v > min) levels.push(v);
+  }
+  return levels;
+};
+
+// Marching squares over the cell-center lattice; coordinates in meters.
+// Squares touching a covered cell (rack or off the floor) are skipped
+export const isoluxContours = (grid: IlluminanceGrid, levels: number[]): ContourSegment[] => {
+  const { cols, rows, stepX, stepY, values, covered } = grid;
+  const segments: ContourSegment[] = [];
+  if (cols < 2 || rows < 2) return segments;
+
+  const px = (c: number) => (c + 0.5) * stepX;
+  const py = (r: number) => (r + 0.5) * stepY;
+  const at = (c: number, r: number) => values[r * cols + c];
+  const isCovered = (c: number, r: number) => covered[r * cols + c];
+
+  levels.forEach(level => {
+    for (let r = 0; r < rows - 1; r++) {
+      for (let c = 0; c < cols - 1; c++) {
+        if (isCovered(c, r) || isCovered(c + 1, r) || isCovered(c + 1, r + 1) || isCovered(c, r + 1)) continue;
+        const v0 = at(c, r), v1 = at(c + 1, r), v2 = at(c + 1, r + 1), v3 = at(c, r + 1);
+        // Edge crossings: top, right, bottom, left
+        const lerp = (a: number, b: number) => (level - a) / (b - a);
+        const points: [number, number][] = [];
+        if ((v0 < level) !== (v1 < level)) points.push([px(c) + lerp(v0, v1) * stepX, py(r)]);
+        if ((v1 < level) !== (v2 < level)) points.push([px(c + 1), py(r) + lerp(v1, v2) * stepY]);
+        if ((v3 < level) !== (v2 < level)) points.push([px(c) + lerp(v3, v2) * stepX, py(r + 1)]);
+        if ((v0 < level) !== (v3 < level)) points.push([px(c), py(r) + lerp(v0, v3) * stepY]);
+        // 2 crossings = one segment; 4 (saddle) = two segments
+        for (let k = 0; k + 1 < points.length; k += 2) {
+          segments.push({ level, x1: points[k][0], y1: points[k][1], x2: points[k + 1][0], y2: points[k + 1][1] });
+        }
+      }
+    }
+  });
+  return segments;
+};
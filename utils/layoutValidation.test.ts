@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PROJECT, LightingMode, ProjectData, RackBlock } from '../types';
+import { validateLayout, issueObjectIds } from './layoutValidation';
+
+const rack = (id: string, x: number, y: number, patch: Partial<RackBlock> = {}): RackBlock => ({
+  id, type: 'RACK', x, y, width: 2, depth: 1, height: 6, elevation: 0, label: id, ...patch,
+});
+
+// 40 x 20 m hall, 10 m ceiling, lighting off unless a test turns it on
+const hall = (racks: RackBlock[], patch: Partial<ProjectData> = {}): ProjectData => ({
+  ...DEFAULT_PROJECT, width: 40, length: 20, ceilingHeight: 10,
+  lighting: { ...DEFAULT_PROJECT.lighting, isActive: false },
+  storage: { isActive: true, racks },
+  ...patch,
+});
+
+const kinds = (data: ProjectData) => validateLayout(data).map(i => i.kind);
+
+describe('validateLayout', () => {
+  it('accepts a clean layout', () => {
+    expect(validateLayout(hall([rack('a', 2, 2), rack('b', 2, 7)]))).toEqual([]);
+  });
+
+  it('flags objects off the floor, but not building elements', () => {
+    expect(kinds(hall([rack('a', 39, 2)]))).toEqual(['OUTSIDE']);
+    expect(kinds(hall([rack('p', 39.8, 2, { type: 'COLUMN', width: 0.4, depth: 0.4, height: 10, locked: true })]))).toEqual([]);
+  });
+
+  it('tells overlaps, building elements and mezzanine slabs apart', () => {
+    expect(kinds(hall([rack('a', 2, 2), rack('b', 3, 2)]))).toEqual(['OVERLAP']);
+    expect(kinds(hall([rack('a', 2, 2), rack('p', 3, 2, { type: 'COLUMN', width: 0.4, depth: 0.4, height: 10 })]))).toEqual(['BUILDING']);
+    const slab = rack('m', 0, 0, { type: 'MEZZANINE', width: 10, depth: 10, height: 0.2, elevation: 3 });
+    expect(kinds(hall([slab, rack('a', 2, 2)]))).toEqual(['MEZZANINE']);
+    expect(kinds(hall([slab, rack('a', 2, 2, { height: 2.5 })]))).toEqual([]); // Under the slab
+  });
+
+  it('ignores rotated racks whose bounding boxes meet but footprints do not', () => {
+    expect(kinds(hall([rack('a', 2, 2, { rotation: 45 }), rack('b', 4.1, 3.6)]))).toEqual([]);
+  });
+
+  it('checks the tops against the ceiling and the sprinklers', () => {
+    expect(kinds(hall([rack('a', 2, 2, { height: 10.5 })]))).toEqual(['CEILING']);
+    const issues = validateLayout(hall([rack('a', 2, 2, { height: 9.7 }), rack('b', 2, 12, { height: 9.8 })]));
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: 'SPRINKLER', severity: 'WARNING', objectIds: ['a', 'b'] });
+  });
+
+  it('warns about racks right under a fixture', () => {
+    // One line at x = 20, fixtures at y = 1 and 19
+    const lighting = { ...DEFAULT_PROJECT.lighting, isActive: true, mode: LightingMode.Quantity, value: 1, fixturesPerProfile: 2 };
+    expect(kinds(hall([rack('a', 19, 0.5, { height: 9.6 })], { lighting }))).toEqual(['SPRINKLER', 'FIXTURE']);
+    expect(kinds(hall([rack('a', 10, 0.5, { height: 9.6 })], { lighting }))).toEqual(['SPRINKLER']);
+  });
+
+  it('reports aisles narrower than the forklift needs, once per aisle', () => {
+    const racks = [rack('a1', 2, 2), rack('a2', 4, 2), rack('b1', 2, 5), rack('b2', 4, 5)];
+    const issues = validateLayout(hall(racks));
+    expect(issues.map(i => i.kind)).toEqual(['AISLE']);
+    expect(issues[0].objectIds.sort()).toEqual(['a1', 'a2', 'b1', 'b2']);
+    expect(validateLayout(hall(racks, { storage: { isActive: true, racks, forklift: 'VNA' } }))).toEqual([]);
+  });
+
+  it('treats narrow gaps as back-to-back flues and skips blocked corridors', () => {
+    expect(validateLayout(hall([rack('a', 2, 2), rack('b', 2, 3.3)]))).toEqual([]);
+    expect(validateLayout(hall([rack('a', 2, 2), rack('c', 2, 4), rack('b', 2, 6)]))
+      .some(i => i.kind === 'AISLE' && i.objectIds.includes('a') && i.objectIds.includes('b'))).toBe(false);
+  });
+});
+
+describe('issueObjectIds', () => {
+  it('lists every object once', () => {
+    expect(issueObjectIds(validateLayout(hall([rack('a', 2, 2), rack('b', 3, 2), rack('c', 39, 2)])))).toEqual(['c', 'a', 'b']);
+  });
+});
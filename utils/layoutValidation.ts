@@ -0,0 +1,169 @@
+import { ProjectData, RackBlock, ForkliftType } from '../types';
+import { isInsideHall } from './floorPlan';
+import { isBuildingElement } from './buildingElements';
+import { footprintBounds, footprintsOverlap, PlanBounds } from './footprint';
+import { computeLightingLayout } from './lightingLayout';
+
+// --- LAYOUT VALIDATION ---
+// Checks the storage layout against the building and the installation:
+// - Objects overlapping each other (same height range) or building elements
+// - Racks crossing a mezzanine slab
+// - Tops above the ceiling, inside the sprinkler clearance or too close to a fixture overhead
+// - Aisles between facing racks narrower than the forklift needs
+// Gaps up to FLUE_MAX between racks count as back-to-back flues, not aisles.
+
+export type IssueSeverity = 'ERROR' | 'WARNING';
+export type LayoutIssueKind = 'OVERLAP' | 'BUILDING' | 'MEZZANINE' | 'OUTSIDE' | 'CEILING' | 'SPRINKLER' | 'FIXTURE' | 'AISLE';
+
+export interface LayoutIssue {
+  kind: LayoutIssueKind;
+  severity: IssueSeverity;
+  message: string;
+  objectIds: string[];
+}
+
+export interface ForkliftSpec {
+  label: string;
+  minAisle: number; // Clear aisle width to work the racks (m)
+}
+
+export const FORKLIFTS: Record<ForkliftType, ForkliftSpec> = {
+  PALLET_JACK: { label: 'Transpaleteira', minAisle: 2.0 },
+  COUNTERBALANCE: { label: 'Empilhadeira Contrabalançada', minAisle: 3.5 },
+  REACH: { label: 'Empilhadeira Retrátil', minAisle: 2.8 },
+  VNA: { label: 'Trilateral (VNA)', minAisle: 1.8 },
+};
+
+export const forkliftOf = (data: ProjectData): ForkliftType => data.storage.forklift || 'COUNTERBALANCE';
+
+export const SPRINKLER_CLEARANCE = 0.45; // Below the sprinkler deflectors at the ceiling (m)
+export const FIXTURE_CLEARANCE = 0.5; // Between a rack top and a fixture above it (m)
+const FLUE_MAX = 0.5;
+const MIN_FACING = 0.1; // Shared length for two racks to face each other across an aisle
+const EPSILON = 1e-6;
+
+const fmt = (v: number) => `${v.toFixed(2)}m`;
+const LABEL_LIST_MAX = 4;
+
+const labelList = (objects: RackBlock[]): string =>
+  objects.length <= LABEL_LIST_MAX
+    ? objects.map(o => o.label).join(', ')
+    : `${objects.slice(0, LABEL_LIST_MAX).map(o => o.label).join(', ')} e mais ${objects.length - LABEL_LIST_MAX}`;
+
+const top = (r: RackBlock) => (r.elevation || 0) + r.height;
+const verticalOverlap = (a: RackBlock, b: RackBlock) =>
+  (a.elevation || 0) < top(b) - EPSILON && (b.elevation || 0) < top(a) - EPSILON;
+
+// Gap between two boxes across one axis, when they face each other along the other one
+const facingGap = (a: PlanBounds, b: PlanBounds, axis: 'x' | 'y'): number | null => {
+  const [pos, size, crossPos, crossSize] = axis === 'x' ? ['x', 'width', 'y', 'depth'] as const : ['y', 'depth', 'x', 'width'] as const;
+  const shared = Math.min(a[crossPos] + a[crossSize], b[crossPos] + b[crossSize]) - Math.max(a[crossPos], b[crossPos]);
+  if (shared < MIN_FACING) return null;
+  const gap = Math.max(b[pos] - (a[pos] + a[size]), a[pos] - (b[pos] + b[size]));
+  return gap > EPSILON ? gap : null;
+};
+
+export const validateLayout = (data: ProjectData): LayoutIssue[] => {
+  const issues: LayoutIssue[] = [];
+  const objects = data.storage.racks;
+  const placed = objects.filter(o => !isBuildingElement(o));
+  const elements = objects.filter(isBuildingElement);
+  const bounds = new Map(objects.map(o => [o.id, footprintBounds(o)]));
+  const racks = placed.filter(o => o.type === 'RACK');
+
+  // Off the floor (fixed building elements are drawn where the plan says)
+  placed.forEach(o => {
+    const box = bounds.get(o.id)!;
+    if (!isInsideHall(data, box.x, box.y, box.width, box.depth)) {
+      issues.push({ kind: 'OUTSIDE', severity: 'ERROR', message: `${o.label} está fora do galpão.`, objectIds: [o.id] });
+    }
+  });
+
+  // Overlaps: object × object, object × building element, rack × mezzanine slab
+  const boundsMeet = (a: RackBlock, b: RackBlock) => {
+    const p = bounds.get(a.id)!, q = bounds.get(b.id)!;
+    return p.x < q.x + q.width && q.x < p.x + p.width && p.y < q.y + q.depth && q.y < p.y + p.depth;
+  };
+  placed.forEach((a, i) => {
+    [...placed.slice(i + 1), ...elements].forEach(b => {
+      if (!verticalOverlap(a, b) || !boundsMeet(a, b) || !footprintsOverlap(a, b)) return;
+      if (isBuildingElement(b)) {
+        if (a.type === 'MEZZANINE') return; // Slabs are built around columns
+        issues.push({ kind: 'BUILDING', severity: 'ERROR', message: `${a.label} sobrepõe ${b.label}.`, objectIds: [a.id, b.id] });
+      } else if (a.type === 'MEZZANINE' || b.type === 'MEZZANINE') {
+        const [mezz, other] = a.type === 'MEZZANINE' ? [a, b] : [b, a];
+        issues.push({ kind: 'MEZZANINE', severity: 'ERROR', message: `${other.label} atravessa o mezanino ${mezz.label}.`, objectIds: [a.id, b.id] });
+      } else {
+        issues.push({ kind: 'OVERLAP', severity: 'ERROR', message: `${a.label} e ${b.label} se sobrepõem.`, objectIds: [a.id, b.id] });
+      }
+    });
+  });
+
+  // Heights against the ceiling, the sprinklers and the fixtures
+  const ceiling = data.ceilingHeight;
+  const fixtures = ceiling > 0 ? computeLightingLayout(data).fixtures : [];
+  const nearSprinklers: RackBlock[] = [], nearFixtures: RackBlock[] = [];
+  placed.forEach(o => {
+    if (!(ceiling > 0)) return;
+    if (top(o) > ceiling + EPSILON) {
+      issues.push({ kind: 'CEILING', severity: 'ERROR', message: `${o.label} (${fmt(top(o))}) ultrapassa o pé-direito de ${fmt(ceiling)}.`, objectIds: [o.id] });
+      return;
+    }
+    if (o.type !== 'RACK') return;
+    if (top(o) > ceiling - SPRINKLER_CLEARANCE + EPSILON) nearSprinklers.push(o);
+    const box = bounds.get(o.id)!;
+    const underFixture = fixtures.some(f =>
+      f.x > box.x - FIXTURE_CLEARANCE && f.x < box.x + box.width + FIXTURE_CLEARANCE &&
+      f.y > box.y - FIXTURE_CLEARANCE && f.y < box.y + box.depth + FIXTURE_CLEARANCE);
+    if (underFixture && top(o) > ceiling - FIXTURE_CLEARANCE + EPSILON) nearFixtures.push(o);
+  });
+  // One issue for all racks of the same kind (an array usually shares its height)
+  if (nearSprinklers.length > 0) {
+    issues.push({ kind: 'SPRINKLER', severity: 'WARNING', message: `${labelList(nearSprinklers)}: topo a menos de ${fmt(SPRINKLER_CLEARANCE)} dos sprinklers.`, objectIds: nearSprinklers.map(o => o.id) });
+  }
+  if (nearFixtures.length > 0) {
+    issues.push({ kind: 'FIXTURE', severity: 'WARNING', message: `${labelList(nearFixtures)}: topo a menos de ${fmt(FIXTURE_CLEARANCE)} das luminárias.`, objectIds: nearFixtures.map(o => o.id) });
+  }
+
+  // Aisles between facing racks; one issue per aisle (same gap on the same line)
+  const forklift = FORKLIFTS[forkliftOf(data)];
+  const aisles = new Map<string, LayoutIssue>();
+  const boxes = racks.map(r => bounds.get(r.id)!);
+  racks.forEach((a, i) => {
+    for (let j = i + 1; j < racks.length; j++) {
+      (['x', 'y'] as const).forEach(axis => {
+        const gap = facingGap(boxes[i], boxes[j], axis);
+        if (gap === null || gap <= FLUE_MAX || gap >= forklift.minAisle - EPSILON) return;
+        // No aisle if something else stands in the corridor between them
+        const [first, second] = boxes[i][axis] < boxes[j][axis] ? [boxes[i], boxes[j]] : [boxes[j], boxes[i]];
+        const start = axis === 'x' ? first.x + first.width : first.y + first.depth;
+        const corridor: PlanBounds = axis === 'x'
+          ? { x: start, y: Math.max(first.y, second.y), width: gap, depth: Math.min(first.y + first.depth, second.y + second.depth) - Math.max(first.y, second.y) }
+          : { x: Math.max(first.x, second.x), y: start, width: Math.min(first.x + first.width, second.x + second.width) - Math.max(first.x, second.x), depth: gap };
+        const blocked = boxes.some((c, k) => k !== i && k !== j &&
+          c.x < corridor.x + corridor.width - EPSILON && c.x + c.width > corridor.x + EPSILON &&
+          c.y < corridor.y + corridor.depth - EPSILON && c.y + c.depth > corridor.y + EPSILON);
+        if (blocked) return;
+        const key = `${axis}:${start.toFixed(2)}:${gap.toFixed(2)}`;
+        const existing = aisles.get(key);
+        if (existing) {
+          [a.id, racks[j].id].forEach(id => { if (!existing.objectIds.includes(id)) existing.objectIds.push(id); });
+          return;
+        }
+        aisles.set(key, {
+          kind: 'AISLE',
+          severity: 'WARNING',
+          message: `Corredor de ${fmt(gap)} entre ${a.label} e ${racks[j].label}: mínimo ${fmt(forklift.minAisle)} para ${forklift.label}.`,
+          objectIds: [a.id, racks[j].id],
+        });
+      });
+    }
+  });
+  issues.push(...aisles.values());
+
+  return issues;
+};
+
+// Ids of every object involved in an issue (highlighted on the canvas)
+export const issueObjectIds = (issues: LayoutIssue[]): string[] =>
+  [...new Set(issues.flatMap(issue => issue.objectIds))];
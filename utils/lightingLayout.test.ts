@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PROJECT, LightingConfig, LightingMode, LightingOrientation, ProjectData } from '../types';
+import { computeLightingLayout, computeProfilePositions } from './lightingLayout';
+
+// 40 x 20 m hall, longitudinal lines (positions across the 40 m width)
+const hall = (lighting: Partial<LightingConfig> = {}, patch: Partial<ProjectData> = {}): ProjectData => ({
+  ...DEFAULT_PROJECT,
+  width: 40,
+  length: 20,
+  ceilingHeight: 10,
+  ...patch,
+  lighting: { ...DEFAULT_PROJECT.lighting, ...lighting },
+});
+
+const quantity = (value: number, offset = 2) => hall({ mode: LightingMode.Quantity, value, offset });
+const distance = (value: number, offset = 2) => hall({ mode: LightingMode.Distance, value, offset });
+
+describe('computeProfilePositions', () => {
+  it('spreads Quantity lines between the offsets', () => {
+    expect(computeProfilePositions(quantity(3))).toEqual([2, 20, 38]);
+  });
+
+  it('centers a single Quantity line whatever the offset', () => {
+    expect(computeProfilePositions(quantity(1))).toEqual([20]);
+    expect(computeProfilePositions(quantity(1, 30))).toEqual([20]);
+  });
+
+  it('gives no Quantity lines for values below 1', () => {
+    expect(computeProfilePositions(quantity(0.5))).toEqual([]);
+    expect(computeProfilePositions(quantity(0))).toEqual([]);
+    expect(computeProfilePositions(quantity(-3))).toEqual([]);
+  });
+
+  it('uses whole Quantity lines only', () => {
+    expect(computeProfilePositions(quantity(2.7))).toEqual([2, 38]);
+  });
+
+  it('centers the Distance span inside the offsets', () => {
+    expect(computeProfilePositions(distance(5))).toEqual([2.5, 7.5, 12.5, 17.5, 22.5, 27.5, 32.5, 37.5]);
+  });
+
+  it('keeps the last Distance line when the spacing divides the hall exactly', () => {
+    expect(computeProfilePositions(distance(10, 0))).toEqual([0, 10, 20, 30, 40]);
+  });
+
+  it('gives a single centered line when the spacing is larger than the room left', () => {
+    expect(computeProfilePositions(distance(50))).toEqual([20]);
+  });
+
+  it('gives no Distance lines for spacings of 0.01 m or less', () => {
+    expect(computeProfilePositions(distance(0.01))).toEqual([]);
+    expect(computeProfilePositions(distance(0))).toEqual([]);
+    expect(computeProfilePositions(distance(-5))).toEqual([]);
+  });
+
+  it('gives no lines when the offset is larger than the hall', () => {
+    expect(computeProfilePositions(quantity(3, 25))).toEqual([]);
+    expect(computeProfilePositions(distance(5, 25))).toEqual([]);
+    expect(computeProfilePositions(quantity(3, 100))).toEqual([]);
+  });
+
+  it('clamps negative offsets to the walls', () => {
+    expect(computeProfilePositions(quantity(2, -5))).toEqual([0, 40]);
+  });
+
+  it('ignores non-numeric values', () => {
+    expect(computeProfilePositions(quantity(NaN))).toEqual([]);
+    expect(computeProfilePositions(distance(5, NaN))).toEqual([0, 5, 10, 15, 20, 25, 30, 35, 40]); // Offset treated as 0
+  });
+
+  it('measures transversal lines across the length', () => {
+    const data = hall({ orientation: LightingOrientation.Transversal, mode: LightingMode.Quantity, value: 3, offset: 2 });
+    expect(computeProfilePositions(data)).toEqual([2, 10, 18]);
+  });
+});
+
+describe('computeLightingLayout', () => {
+  it('is empty when lighting is off or the hall has no size', () => {
+    expect(computeLightingLayout(hall({ isActive: false, fixturesPerProfile: 4 })).profiles).toEqual([]);
+    expect(computeLightingLayout(hall({ fixturesPerProfile: 4 }, { width: 0 })).fixtures).toEqual([]);
+    expect(computeLightingLayout(hall({ fixturesPerProfile: 4 }, { length: NaN })).fixtures).toEqual([]);
+  });
+
+  it('is empty when the offset is larger than the hall', () => {
+    const layout = computeLightingLayout(hall({ mode: LightingMode.Distance, value: 5, offset: 25, fixturesPerProfile: 4 }));
+    expect(layout.profiles).toEqual([]);
+    expect(layout.fixtures).toEqual([]);
+    expect(layout.profileSpacing).toBe(0);
+  });
+
+  it('runs the lines wall to wall and reports their spacing', () => {
+    const layout = computeLightingLayout(quantity(3));
+    expect(layout.profiles).toEqual([
+      { position: 2, x1: 2, y1: 0, x2: 2, y2: 20 },
+      { position: 20, x1: 20, y1: 0, x2: 20, y2: 20 },
+      { position: 38, x1: 38, y1: 0, x2: 38, y2: 20 },
+    ]);
+    expect(layout.profileSpacing).toBe(18);
+  });
+
+  it('places fixtures 1 m from the walls along each line', () => {
+    const layout = computeLightingLayout(hall({ mode: LightingMode.Quantity, value: 2, offset: 5, fixturesPerProfile: 3 }));
+    expect(layout.fixtures).toEqual([
+      { x: 5, y: 1, profileIndex: 0 },
+      { x: 5, y: 10, profileIndex: 0 },
+      { x: 5, y: 19, profileIndex: 0 },
+      { x: 35, y: 1, profileIndex: 1 },
+      { x: 35, y: 10, profileIndex: 1 },
+      { x: 35, y: 19, profileIndex: 1 },
+    ]);
+  });
+
+  it('centers a single fixture per line', () => {
+    const layout = computeLightingLayout(hall({ mode: LightingMode.Quantity, value: 1, fixturesPerProfile: 1 }));
+    expect(layout.fixtures).toEqual([{ x: 20, y: 10, profileIndex: 0 }]);
+  });
+
+  it('shrinks the wall margin on lines shorter than 2 m', () => {
+    const layout = computeLightingLayout(hall({ mode: LightingMode.Quantity, value: 1, fixturesPerProfile: 2 }, { length: 1.5 }));
+    expect(layout.fixtures.map(f => f.y)).toEqual([0.75, 0.75]);
+  });
+
+  it('clips lines to a polygonal hall and drops fixtures off the floor', () => {
+    // L-shape: the right half is only 10 m long
+    const outline = [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 40, y: 10 }, { x: 20, y: 10 }, { x: 20, y: 20 }, { x: 0, y: 20 }];
+    const layout = computeLightingLayout(hall({ mode: LightingMode.Quantity, value: 2, offset: 5, fixturesPerProfile: 3 }, { outline }));
+    expect(layout.profiles.map(p => [p.position, Math.min(p.y1, p.y2), Math.max(p.y1, p.y2)])).toEqual([[5, 0, 20], [35, 0, 10]]);
+    expect(layout.fixtures.filter(f => f.profileIndex === 1).map(f => f.y)).toEqual([1, 10]);
+  });
+
+  it('moves a fixture off a column along its line', () => {
+    const column = {
+      id: 'c1', type: 'COLUMN' as const, x: 4.8, y: 9.8, width: 0.4, depth: 0.4, height: 10, elevation: 0, label: 'P1', locked: true,
+    };
+    const data = hall({ mode: LightingMode.Quantity, value: 1, offset: 0, fixturesPerProfile: 3 }, {
+      width: 10, storage: { isActive: true, racks: [column] },
+    });
+    const [, middle] = computeLightingLayout(data).fixtures;
+    expect(middle.x).toBe(5);
+    expect(Math.abs(middle.y - 10)).toBeGreaterThanOrEqual(0.5);
+  });
+});
@@ -0,0 +1,141 @@
+import { ProjectData, LightingOrientation, LightingMode } from '../types';
+import { isPolygonalHall, clipSegmentToOutline } from './floorPlan';
+import { blocksFixtures } from './buildingElements';
+import { footprintBounds } from './footprint';
+
+// --- LIGHTING LAYOUT ---
+// Profile lines (perfilados) and fixture positions in meters, from the hall origin (top-left).
+// Shared by the 2D/3D renderers, the illuminance calculation and the report.
+//
+// Edge cases:
+// - Quantity mode uses whole lines only; 1 line is always centered, < 1 gives none.
+// - Offsets are clamped to >= 0; when 2 × offset exceeds the hall there is no room
+//   for the lines and the layout is empty (both modes).
+// - Along the profile the 1m wall margin shrinks on halls shorter than 2m.
+// - Polygonal halls: each line is clipped to the floor (one ProfileLine per piece, sharing
+//   `position`); fixtures keep the spacing of the full line and only those on the floor remain.
+// - A fixture on a column, beam or ceiling-level obstacle slides along its profile (at most
+//   half the fixture spacing) to the nearest free spot; with none it is left out.
+
+const FIXTURE_MARGIN = 1; // Distance from the wall to the first/last fixture along a profile
+const EPSILON = 1e-9;
+const FIXTURE_CLEARANCE = 0.3; // Minimum gap between a fixture and a building element
+const SHIFT_STEP = 0.1;
+
+export interface ProfileLine {
+  position: number; // Distance from the first wall across the profile axis
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface FixturePoint {
+  x: number;
+  y: number;
+  profileIndex: number;
+}
+
+export interface LightingLayout {
+  isLongitudinal: boolean;
+  profileLength: number;
+  profileSpacing: number; // Distance between consecutive lines (0 with fewer than 2)
+  profiles: ProfileLine[];
+  fixtures: FixturePoint[];
+}
+
+const finiteOrZero = (v: number) => (Number.isFinite(v) ? v : 0);
+
+export const computeProfilePositions = (data: ProjectData): number[] => {
+  const { orientation, mode } = data.lighting;
+  const value = finiteOrZero(data.lighting.value);
+  const offset = Math.max(0, finiteOrZero(data.lighting.offset));
+  const isLongitudinal = orientation === LightingOrientation.Longitudinal;
+  const axisLimit = isLongitudinal ? data.width : data.length;
+  const available = axisLimit - (offset * 2);
+  const positions: number[] = [];
+
+  if (mode === LightingMode.Quantity) {
+    const count = Math.floor(value);
+    if (count === 1) {
+      positions.push(axisLimit / 2);
+    } else if (count > 1 && available >= 0) {
+      const step = available / (count - 1);
+      for (let i = 0; i < count; i++) { positions.push(offset + (i * step)); }
+    }
+  } else {
+    // Mode: Distance
+    // Profiles fitting within the safe area (axisLimit - 2*offset), centered.
+    if (value > 0.01 && available >= 0) {
+      // Count how many gaps of size 'value' fit
+      const intervals = Math.floor((available + EPSILON) / value);
+      const count = intervals + 1;
+      const span = intervals * value;
+      // Center the span within the available space relative to the offset
+      const start = offset + ((available - span) / 2);
+      for (let i = 0; i < count; i++) { positions.push(start + (i * value)); }
+    }
+  }
+
+  return positions.filter(pos => pos >= -EPSILON && pos <= axisLimit + EPSILON);
+};
+
+export const computeLightingLayout = (data: ProjectData): LightingLayout => {
+  const isLongitudinal = data.lighting.orientation === LightingOrientation.Longitudinal;
+  const profileLength = isLongitudinal ? data.length : data.width;
+  const empty: LightingLayout = { isLongitudinal, profileLength, profileSpacing: 0, profiles: [], fixtures: [] };
+  if (!data.lighting.isActive || !(data.width > 0) || !(data.length > 0)) return empty;
+
+  const positions = computeProfilePositions(data);
+  const fullLines: ProfileLine[] = positions.map(pos => isLongitudinal
+    ? { position: pos, x1: pos, y1: 0, x2: pos, y2: data.length }
+    : { position: pos, x1: 0, y1: pos, x2: data.width, y2: pos });
+  const profiles: ProfileLine[] = isPolygonalHall(data)
+    ? fullLines.flatMap(line => clipSegmentToOutline(data.outline!, line).map(piece => ({ position: line.position, ...piece })))
+    : fullLines;
+  // Distance along the profile axis (y for longitudinal lines, x for transversal ones)
+  const along = (p: ProfileLine) =>
+    isLongitudinal ? [Math.min(p.y1, p.y2), Math.max(p.y1, p.y2)] : [Math.min(p.x1, p.x2), Math.max(p.x1, p.x2)];
+  const onFloor = (pos: number, distAlong: number) => profiles.some(p => {
+    if (Math.abs(p.position - pos) > EPSILON) return false;
+    const [start, end] = along(p);
+    return distAlong >= start - EPSILON && distAlong <= end + EPSILON;
+  });
+
+  const blockers = data.storage.racks.filter(r => blocksFixtures(r, data.ceilingHeight)).map(footprintBounds);
+  const isFree = (x: number, y: number) => !blockers.some(b =>
+    x > b.x - FIXTURE_CLEARANCE && x < b.x + b.width + FIXTURE_CLEARANCE &&
+    y > b.y - FIXTURE_CLEARANCE && y < b.y + b.depth + FIXTURE_CLEARANCE);
+
+  const fixtures: FixturePoint[] = [];
+  const fixturesPerProfile = Math.floor(finiteOrZero(data.lighting.fixturesPerProfile));
+  if (fixturesPerProfile > 0) {
+    const margin = Math.min(FIXTURE_MARGIN, profileLength / 2);
+    const usableLen = profileLength - (margin * 2);
+    const step = fixturesPerProfile > 1 ? usableLen / (fixturesPerProfile - 1) : 0;
+    const shiftLimit = (step > 0 ? step : profileLength) / 2;
+    positions.forEach((pos, profileIndex) => {
+      const fits = (distAlong: number) =>
+        onFloor(pos, distAlong) && (isLongitudinal ? isFree(pos, distAlong) : isFree(distAlong, pos));
+      for (let i = 0; i < fixturesPerProfile; i++) {
+        let distAlong: number | null = fixturesPerProfile === 1 ? profileLength / 2 : margin + (i * step);
+        if (!onFloor(pos, distAlong)) continue;
+        if (!fits(distAlong)) {
+          const regular = distAlong;
+          distAlong = null;
+          for (let shift = SHIFT_STEP; shift <= shiftLimit + EPSILON && distAlong === null; shift += SHIFT_STEP) {
+            if (fits(regular + shift)) distAlong = regular + shift;
+            else if (fits(regular - shift)) distAlong = regular - shift;
+          }
+          if (distAlong === null) continue;
+        }
+        fixtures.push(isLongitudinal
+          ? { x: pos, y: distAlong, profileIndex }
+          : { x: distAlong, y: pos, profileIndex });
+      }
+    });
+  }
+
+  const profileSpacing = positions.length > 1 ? positions[1] - positions[0] : 0;
+  return { isLongitudinal, profileLength, profileSpacing, profiles, fixtures };
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PROJECT, LightingMode, ProjectData } from '../types';
+import { optimizeLighting } from './lightingOptimizer';
+
+const hall = (patch: Partial<ProjectData> = {}): ProjectData => ({
+  ...DEFAULT_PROJECT, width: 60, length: 30, ceilingHeight: 6, luxRequired: 300, ...patch,
+});
+
+describe('optimizeLighting', () => {
+  it('returns layouts that reach the required illuminance, fewest fixtures first', () => {
+    const results = optimizeLighting(hall(), 0.4);
+    expect(results).toHaveLength(3);
+    results.forEach(c => expect(c.averageLux).toBeGreaterThanOrEqual(300));
+    const passing = results.filter(c => c.meetsUniformity).map(c => c.fixtureCount);
+    expect(passing).toEqual([...passing].sort((a, b) => a - b));
+  });
+
+  it('tries line spacings as well as line counts', () => {
+    const results = optimizeLighting(hall(), 0.4, 10);
+    expect(results.some(c => c.lighting.mode === LightingMode.Distance)).toBe(true);
+    expect(results.some(c => c.lighting.mode === LightingMode.Quantity)).toBe(true);
+    results.filter(c => c.lighting.mode === LightingMode.Distance).forEach(c => {
+      expect(c.lighting.value % 0.5).toBe(0);
+      expect(c.lighting.value).toBeLessThanOrEqual(6 * 1.5);
+    });
+  });
+
+  it('gives nothing without a ceiling height or a target', () => {
+    expect(optimizeLighting(hall({ ceilingHeight: 0 }), 0.4)).toEqual([]);
+    expect(optimizeLighting(hall({ luxRequired: 0 }), 0.4)).toEqual([]);
+  });
+});
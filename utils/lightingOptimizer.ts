@@ -0,0 +1,128 @@
+import { ProjectData, LightingConfig, LightingOrientation, LightingMode } from '../types';
+import { computeIlluminance, fixtureIntensityModel, utilizationFactor, roomIndexOf } from './illuminance';
+import { hallArea } from './floorPlan';
+import { computeLightingLayout } from './lightingLayout';
+
+// --- AUTOMATIC LIGHTING LAYOUT ("Auto-dimensionar") ---
+// Searches orientation, number of profile lines or their spacing, and fixtures per profile for
+// the layouts that reach `luxRequired` and the uniformity target with the fewest fixtures.
+
+export interface LayoutCandidate {
+  lighting: LightingConfig;
+  profileCount: number;
+  fixtureCount: number;
+  installedWatts: number;
+  averageLux: number;
+  uniformity: number;
+  meetsUniformity: boolean;
+}
+
+const MIN_SPACING_RATIO = 0.5; // Profile spacing / mounting height
+const MAX_SPACING_RATIO = 1.5;
+const MAX_PROFILES = 60;
+const MAX_FIXTURES_PER_PROFILE = 100;
+const SPACING_STEP = 0.5; // Distance-mode candidates: round spacings (m)
+const FINALISTS = 8; // Screened layouts checked on the full illuminance grid
+const MAX_STEPS_PER_FINALIST = 4;
+
+// Line layouts to try: every line count (Quantity, evenly spread, half a gap to the walls) and
+// every round spacing (Distance) within the spacing / mounting height limits
+const lineLayouts = (data: ProjectData): LightingConfig[] => {
+  const { width, length, ceilingHeight } = data;
+  const layouts: LightingConfig[] = [];
+  [LightingOrientation.Longitudinal, LightingOrientation.Transversal].forEach(orientation => {
+    const axisLimit = orientation === LightingOrientation.Longitudinal ? width : length;
+    const base = { ...data.lighting, isActive: true, orientation, fixturesPerProfile: 0 };
+    const minLines = Math.max(1, Math.ceil(axisLimit / (ceilingHeight * MAX_SPACING_RATIO)));
+    const maxLines = Math.min(MAX_PROFILES, Math.max(minLines, Math.floor(axisLimit / (ceilingHeight * MIN_SPACING_RATIO))));
+    for (let lines = minLines; lines <= maxLines; lines++) {
+      const offset = Math.round((axisLimit / (lines * 2)) * 100) / 100;
+      layouts.push({ ...base, mode: LightingMode.Quantity, value: lines, offset });
+    }
+    const minSpacing = Math.max(SPACING_STEP, Math.ceil((ceilingHeight * MIN_SPACING_RATIO) / SPACING_STEP) * SPACING_STEP);
+    for (let spacing = minSpacing; spacing <= ceilingHeight * MAX_SPACING_RATIO && spacing < axisLimit; spacing += SPACING_STEP) {
+      if (axisLimit / spacing > MAX_PROFILES) continue;
+      layouts.push({ ...base, mode: LightingMode.Distance, value: spacing, offset: spacing / 2 });
+    }
+  });
+  return layouts;
+};
+
+// Two stages keep the search fast on large halls: the lumen method sizes every line layout
+// (no grid), then only the finalists with the fewest fixtures run the point-by-point grid
+export const optimizeLighting = (data: ProjectData, uniformityTarget: number, maxResults: number = 3): LayoutCandidate[] => {
+  const { ceilingHeight, luxRequired } = data;
+  if (data.width <= 0 || data.length <= 0 || ceilingHeight <= 0 || luxRequired <= 0) return [];
+
+  const intensity = fixtureIntensityModel(data);
+  const { fixture, maintenanceFactor } = data.lighting;
+  const area = hallArea(data);
+  const uf = utilizationFactor(roomIndexOf(data));
+  // Lumen-method estimate of the total fixture count
+  const estimatedTotal = Math.max(1, Math.ceil((luxRequired * area) / (fixture.lumens * maintenanceFactor * uf)));
+
+  // Stage 1: fixtures per profile from the estimate; the same lines reached by both modes count once
+  const seen = new Set<string>();
+  const screened: { lighting: LightingConfig; maxPerProfile: number; fixtureCount: number; spacingRatio: number }[] = [];
+  lineLayouts(data).forEach(lighting => {
+    const { profiles, profileLength, profileSpacing } = computeLightingLayout({ ...data, lighting });
+    if (profiles.length === 0) return;
+    const key = `${lighting.orientation}:${profiles.map(p => p.position.toFixed(2)).join(',')}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    const maxPerProfile = Math.min(MAX_FIXTURES_PER_PROFILE, Math.max(1, Math.floor(profileLength)));
+    const perProfile = Math.min(maxPerProfile, Math.max(1, Math.ceil(estimatedTotal / profiles.length)));
+    const trial = { ...lighting, fixturesPerProfile: perProfile };
+    screened.push({
+      lighting: trial,
+      maxPerProfile,
+      fixtureCount: computeLightingLayout({ ...data, lighting: trial }).fixtures.length,
+      spacingRatio: profiles.length > 1 ? profileSpacing / ceilingHeight : MAX_SPACING_RATIO,
+    });
+  });
+
+  const finalists = screened
+    .sort((a, b) => a.fixtureCount - b.fixtureCount || Math.abs(a.spacingRatio - 1) - Math.abs(b.spacingRatio - 1))
+    .slice(0, FINALISTS);
+
+  const evaluate = (lighting: LightingConfig): LayoutCandidate | null => {
+    const result = computeIlluminance({ ...data, lighting }, intensity);
+    if (!result || result.averageLux < luxRequired) return null;
+    return {
+      lighting,
+      profileCount: computeLightingLayout({ ...data, lighting }).profiles.length,
+      fixtureCount: result.fixtureCount,
+      installedWatts: result.installedWatts,
+      averageLux: result.averageLux,
+      uniformity: result.uniformity,
+      meetsUniformity: result.uniformity >= uniformityTarget,
+    };
+  };
+
+  // Stage 2: from the estimate, walk down while the grid still passes or up until it does
+  const candidates: LayoutCandidate[] = [];
+  finalists.forEach(({ lighting, maxPerProfile }) => {
+    let perProfile = lighting.fixturesPerProfile;
+    const at = (n: number) => evaluate({ ...lighting, fixturesPerProfile: n });
+    let best = at(perProfile);
+    for (let step = 0; step < MAX_STEPS_PER_FINALIST; step++) {
+      if (best) {
+        const fewer = perProfile > 1 ? at(perProfile - 1) : null;
+        if (!fewer) break;
+        best = fewer; perProfile--;
+      } else {
+        if (perProfile >= maxPerProfile) break;
+        perProfile++;
+        best = at(perProfile);
+      }
+    }
+    if (best) candidates.push(best);
+  });
+
+  return candidates
+    .sort((a, b) =>
+      Number(b.meetsUniformity) - Number(a.meetsUniformity) ||
+      a.fixtureCount - b.fixtureCount ||
+      b.uniformity - a.uniformity)
+    .slice(0, maxResults);
+};
@@ -0,0 +1,130 @@
+// --- ORBIT CAMERA (3D viewport) ---
+// World axes: X = plan x, Y = up, Z = plan y (towards the bottom wall). The camera orbits a
+// target point: yaw turns about the vertical (0 = looking from +Z), pitch lifts it above the
+// floor. Matrices are column-major Float32Arrays, as WebGL expects.
+
+export type Vec3 = [number, number, number];
+
+export interface OrbitCamera {
+  target: Vec3;
+  yaw: number; // Radians
+  pitch: number; // Radians, 0 = level, π/2 = straight down
+  distance: number;
+}
+
+export type CameraPreset = 'ISO' | 'TOP' | 'FRONT' | 'SIDE';
+
+export const CAMERA_PRESETS: { id: CameraPreset; label: string }[] = [
+  { id: 'ISO', label: 'Iso' },
+  { id: 'TOP', label: 'Topo' },
+  { id: 'FRONT', label: 'Frente' },
+  { id: 'SIDE', label: 'Lateral' },
+];
+
+export const FOV = (45 * Math.PI) / 180;
+const MAX_PITCH = Math.PI / 2 - 0.001; // Straight down leaves lookAt without an up direction
+const MIN_PITCH = -0.1;
+
+const PRESET_ANGLES: Record<CameraPreset, { yaw: number; pitch: number }> = {
+  ISO: { yaw: Math.PI / 4, pitch: Math.atan(1 / Math.SQRT2) }, // Same corner as the isometric drawing
+  TOP: { yaw: 0, pitch: MAX_PITCH },
+  FRONT: { yaw: 0, pitch: 0.05 },
+  SIDE: { yaw: Math.PI / 2, pitch: 0.05 },
+};
+
+export interface SceneBounds {
+  min: Vec3;
+  max: Vec3;
+}
+
+const boundsRadius = (b: SceneBounds) =>
+  Math.max(1, Math.hypot(b.max[0] - b.min[0], b.max[1] - b.min[1], b.max[2] - b.min[2]) / 2);
+
+// Camera framing the whole scene from a preset direction
+export const presetCamera = (preset: CameraPreset, bounds: SceneBounds): OrbitCamera => ({
+  target: [0, 1, 2].map(i => (bounds.min[i] + bounds.max[i]) / 2) as Vec3,
+  ...PRESET_ANGLES[preset],
+  distance: (boundsRadius(bounds) / Math.sin(FOV / 2)) * 1.05,
+});
+
+export const cameraEye = (c: OrbitCamera): Vec3 => [
+  c.target[0] + c.distance * Math.cos(c.pitch) * Math.sin(c.yaw),
+  c.target[1] + c.distance * Math.sin(c.pitch),
+  c.target[2] + c.distance * Math.cos(c.pitch) * Math.cos(c.yaw),
+];
+
+export const orbit = (c: OrbitCamera, dYaw: number, dPitch: number): OrbitCamera => ({
+  ...c,
+  yaw: c.yaw + dYaw,
+  pitch: Math.min(MAX_PITCH, Math.max(MIN_PITCH, c.pitch + dPitch)),
+});
+
+// Zoom towards the target; `bounds` keeps the distance within a sensible range of the scene size
+export const zoom = (c: OrbitCamera, factor: number, bounds: SceneBounds): OrbitCamera => {
+  const r = boundsRadius(bounds);
+  return { ...c, distance: Math.min(r * 20, Math.max(r * 0.05, c.distance * factor)) };
+};
+
+// Moves the target in the view plane by screen pixels (`viewHeight` = viewport height in px)
+export const pan = (c: OrbitCamera, dxPx: number, dyPx: number, viewHeight: number): OrbitCamera => {
+  const metersPerPx = (2 * c.distance * Math.tan(FOV / 2)) / viewHeight;
+  const right: Vec3 = [Math.cos(c.yaw), 0, -Math.sin(c.yaw)];
+  const up: Vec3 = [-Math.sin(c.pitch) * Math.sin(c.yaw), Math.cos(c.pitch), -Math.sin(c.pitch) * Math.cos(c.yaw)];
+  return {
+    ...c,
+    target: [0, 1, 2].map(i => c.target[i] - right[i] * dxPx * metersPerPx + up[i] * dyPx * metersPerPx) as Vec3,
+  };
+};
+
+// --- Matrices ---
+
+const multiply = (a: Float32Array, b: Float32Array): Float32Array => {
+  const out = new Float32Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[col * 4 + k];
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+};
+
+const perspective = (fovy: number, aspect: number, near: number, far: number): Float32Array => {
+  const f = 1 / Math.tan(fovy / 2);
+  const out = new Float32Array(16);
+  out[0] = f / aspect;
+  out[5] = f;
+  out[10] = (far + near) / (near - far);
+  out[11] = -1;
+  out[14] = (2 * far * near) / (near - far);
+  return out;
+};
+
+const normalize = (v: Vec3): Vec3 => {
+  const len = Math.hypot(v[0], v[1], v[2]) || 1;
+  return [v[0] / len, v[1] / len, v[2] / len];
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const lookAt = (eye: Vec3, target: Vec3, up: Vec3): Float32Array => {
+  const z = normalize([eye[0] - target[0], eye[1] - target[1], eye[2] - target[2]]);
+  const x = normalize(cross(up, z));
+  const y = cross(z, x);
+  return new Float32Array([
+    x[0], y[0], z[0], 0,
+    x[1], y[1], z[1], 0,
+    x[2], y[2], z[2], 0,
+    -dot(x, eye), -dot(y, eye), -dot(z, eye), 1,
+  ]);
+};
+
+// Projection × view; near / far planes follow the camera distance so depth precision holds
+export const viewProjection = (c: OrbitCamera, aspect: number, bounds: SceneBounds): Float32Array => {
+  const far = c.distance + boundsRadius(bounds) * 4;
+  const near = Math.max(0.05, far / 1000);
+  return multiply(perspective(FOV, aspect, near, far), lookAt(cameraEye(c), c.target, [0, 1, 0]));
+};
@@ -0,0 +1,414 @@
+// --- MINIMAL VECTOR PDF WRITER ---
+// Pages expose the subset of CanvasRenderingContext2D used by the scene renderers
+// (paths, rects, arcs, text, dashes, transforms, clipping), so the same drawing code
+// produces vector output. Units are PDF points with a top-left origin, like a canvas.
+// Text uses the standard Helvetica fonts (WinAnsi), so no font is embedded.
+
+export type PaperSize = 'A4' | 'A3';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export const PAPER_SIZES_MM: Record<PaperSize, [number, number]> = {
+  A4: [210, 297],
+  A3: [297, 420],
+};
+
+export const MM_TO_PT = 72 / 25.4;
+
+export const pageSizePt = (paper: PaperSize, orientation: PaperOrientation) => {
+  const [short, long] = PAPER_SIZES_MM[paper];
+  const [w, h] = orientation === 'portrait' ? [short, long] : [long, short];
+  return { width: w * MM_TO_PT, height: h * MM_TO_PT };
+};
+
+// --- FONT METRICS (Helvetica / Helvetica-Bold AFM widths, ASCII 32..126) ---
+
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsi still provides
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+const winAnsiCode = (ch: string): number => {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (code >= 0xA0 && code <= 0xFF) return code;
+  return WIN_ANSI_EXTRA[ch] ?? 63; // '?'
+};
+
+// Literal string body: WinAnsi bytes, escaped and kept ASCII with octal codes
+const pdfString = (text: string): string => Array.from(text).map(ch => {
+  const code = winAnsiCode(ch);
+  if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+  return code > 126 ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code);
+}).join('');
+
+const charWidth = (ch: string, bold: boolean): number => {
+  const table = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  // Accented letters take the width of their base letter
+  const base = ch.normalize('NFD').charAt(0);
+  const code = base.charCodeAt(0);
+  return code >= 32 && code <= 126 ? table[code - 32] : 556;
+};
+
+export const textWidth = (text: string, size: number, bold: boolean = false): number => {
+  let units = 0;
+  for (const ch of text) units += charWidth(ch, bold);
+  return (units / 1000) * size;
+};
+
+// Greedy word wrap; words longer than the line are kept whole
+export const wrapText = (text: string, maxWidth: number, size: number, bold: boolean = false): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+// --- COLORS ---
+
+interface Rgba { r: number; g: number; b: number; a: number; }
+
+const parseColor = (css: string): Rgba => {
+  const value = css.trim();
+  if (value.startsWith('#')) {
+    const hex = value.length === 4 ? value.slice(1).split('').map(c => c + c).join('') : value.slice(1, 7);
+    const n = parseInt(hex, 16);
+    if (!isNaN(n)) return { r: ((n >> 16) & 255) / 255, g: ((n >> 8) & 255) / 255, b: (n & 255) / 255, a: 1 };
+  }
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (match) {
+    const [r, g, b, a = 1] = match[1].split(',').map(p => parseFloat(p));
+    return { r: r / 255, g: g / 255, b: b / 255, a };
+  }
+  if (value === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  return { r: 0, g: 0, b: 0, a: 1 };
+};
+
+// --- CANVAS-LIKE PAGE ---
+
+type Matrix = [number, number, number, number, number, number];
+
+interface PageState {
+  matrix: Matrix;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  dash: number[];
+}
+
+const num = (v: number) => (Number.isFinite(v) ? String(Math.round(v * 100) / 100) : '0');
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+export class PdfPage {
+  readonly width: number;
+  readonly height: number;
+  readonly ops: string[] = [];
+
+  // Canvas properties (shadows are accepted and ignored)
+  shadowBlur = 0;
+  shadowColor = 'transparent';
+
+  private state: PageState;
+  private stack: PageState[] = [];
+  private path: string[] = [];
+  private hasCurrentPoint = false;
+
+  constructor(private doc: PdfDocument, width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.state = {
+      matrix: [1, 0, 0, -1, 0, height], // Canvas y-down → PDF y-up
+      fillStyle: '#000000',
+      strokeStyle: '#000000',
+      lineWidth: 1,
+      font: '10px sans-serif',
+      textAlign: 'start',
+      textBaseline: 'alphabetic',
+      dash: [],
+    };
+  }
+
+  get fillStyle() { return this.state.fillStyle; }
+  set fillStyle(v: string) { this.state.fillStyle = v; }
+  get strokeStyle() { return this.state.strokeStyle; }
+  set strokeStyle(v: string) { this.state.strokeStyle = v; }
+  get lineWidth() { return this.state.lineWidth; }
+  set lineWidth(v: number) { this.state.lineWidth = v; }
+  get font() { return this.state.font; }
+  set font(v: string) { this.state.font = v; }
+  get textAlign() { return this.state.textAlign; }
+  set textAlign(v: CanvasTextAlign) { this.state.textAlign = v; }
+  get textBaseline() { return this.state.textBaseline; }
+  set textBaseline(v: CanvasTextBaseline) { this.state.textBaseline = v; }
+
+  // Lets the scene renderers draw on this page
+  asContext(): CanvasRenderingContext2D {
+    return this as unknown as CanvasRenderingContext2D;
+  }
+
+  // --- State ---
+
+  save() {
+    this.stack.push({ ...this.state, dash: [...this.state.dash] });
+    this.ops.push('q');
+  }
+
+  restore() {
+    const prev = this.stack.pop();
+    if (!prev) return;
+    this.state = prev;
+    this.ops.push('Q');
+  }
+
+  transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.state.matrix = multiply(this.state.matrix, [a, b, c, d, e, f]);
+  }
+
+  translate(x: number, y: number) { this.transform(1, 0, 0, 1, x, y); }
+  scale(x: number, y: number) { this.transform(x, 0, 0, y, 0, 0); }
+  rotate(angle: number) {
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    this.transform(cos, sin, -sin, cos, 0, 0);
+  }
+
+  setLineDash(segments: number[]) { this.state.dash = [...segments]; }
+
+  // --- Paths ---
+
+  private point(x: number, y: number): string {
+    const m = this.state.matrix;
+    return `${num(m[0] * x + m[2] * y + m[4])} ${num(m[1] * x + m[3] * y + m[5])}`;
+  }
+
+  private get unitScale() {
+    const m = this.state.matrix;
+    return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+  }
+
+  beginPath() {
+    this.path = [];
+    this.hasCurrentPoint = false;
+  }
+
+  moveTo(x: number, y: number) {
+    this.path.push(`${this.point(x, y)} m`);
+    this.hasCurrentPoint = true;
+  }
+
+  lineTo(x: number, y: number) {
+    if (!this.hasCurrentPoint) { this.moveTo(x, y); return; }
+    this.path.push(`${this.point(x, y)} l`);
+  }
+
+  closePath() {
+    if (this.hasCurrentPoint) this.path.push('h');
+  }
+
+  rect(x: number, y: number, w: number, h: number) {
+    this.moveTo(x, y);
+    this.lineTo(x + w, y);
+    this.lineTo(x + w, y + h);
+    this.lineTo(x, y + h);
+    this.closePath();
+  }
+
+  // Circular arc as cubic Béziers of at most 90° each
+  arc(cx: number, cy: number, r: number, start: number, end: number, counterclockwise: boolean = false) {
+    let sweep = end - start;
+    if (!counterclockwise && sweep < 0) sweep = (sweep % (2 * Math.PI)) + 2 * Math.PI;
+    if (counterclockwise && sweep > 0) sweep = (sweep % (2 * Math.PI)) - 2 * Math.PI;
+    if (Math.abs(end - start) >= 2 * Math.PI) sweep = counterclockwise ? -2 * Math.PI : 2 * Math.PI;
+
+    const x0 = cx + r * Math.cos(start), y0 = cy + r * Math.sin(start);
+    if (this.hasCurrentPoint) this.lineTo(x0, y0); else this.moveTo(x0, y0);
+
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const delta = sweep / segments;
+    const k = (4 / 3) * Math.tan(delta / 4);
+    let a = start;
+    for (let i = 0; i < segments; i++) {
+      const b = a + delta;
+      const c1x = cx + r * (Math.cos(a) - k * Math.sin(a)), c1y = cy + r * (Math.sin(a) + k * Math.cos(a));
+      const c2x = cx + r * (Math.cos(b) + k * Math.sin(b)), c2y = cy + r * (Math.sin(b) - k * Math.cos(b));
+      const ex = cx + r * Math.cos(b), ey = cy + r * Math.sin(b);
+      this.path.push(`${this.point(c1x, c1y)} ${this.point(c2x, c2y)} ${this.point(ex, ey)} c`);
+      a = b;
+    }
+  }
+
+  private paintFill(color: string): boolean {
+    const { r, g, b, a } = parseColor(color);
+    if (a <= 0) return false;
+    this.ops.push(`/${this.doc.alphaState(a)} gs ${num(r)} ${num(g)} ${num(b)} rg`);
+    return true;
+  }
+
+  private paintStroke(color: string): boolean {
+    const { r, g, b, a } = parseColor(color);
+    if (a <= 0) return false;
+    const s = this.unitScale;
+    const dash = this.state.dash.map(d => num(d * s)).join(' ');
+    this.ops.push(`/${this.doc.alphaState(a)} gs ${num(r)} ${num(g)} ${num(b)} RG ${num(this.state.lineWidth * s)} w [${dash}] 0 d`);
+    return true;
+  }
+
+  fill() {
+    if (this.path.length && this.paintFill(this.state.fillStyle)) this.ops.push(`${this.path.join(' ')} f`);
+  }
+
+  stroke() {
+    if (this.path.length && this.paintStroke(this.state.strokeStyle)) this.ops.push(`${this.path.join(' ')} S`);
+  }
+
+  // Intersects the clip with the current path until the matching restore()
+  clip() {
+    if (this.path.length) this.ops.push(`${this.path.join(' ')} W n`);
+  }
+
+  fillRect(x: number, y: number, w: number, h: number) {
+    const saved = this.path, savedPoint = this.hasCurrentPoint;
+    this.beginPath(); this.rect(x, y, w, h); this.fill();
+    this.path = saved; this.hasCurrentPoint = savedPoint;
+  }
+
+  strokeRect(x: number, y: number, w: number, h: number) {
+    const saved = this.path, savedPoint = this.hasCurrentPoint;
+    this.beginPath(); this.rect(x, y, w, h); this.stroke();
+    this.path = saved; this.hasCurrentPoint = savedPoint;
+  }
+
+  // --- Text ---
+
+  private parsedFont() {
+    const size = parseFloat((this.state.font.match(/([\d.]+)px/) || [])[1] || '10');
+    const bold = /\bbold\b|\b[6-9]00\b/.test(this.state.font);
+    return { size, bold };
+  }
+
+  measureText(text: string): { width: number } {
+    const { size, bold } = this.parsedFont();
+    return { width: textWidth(text, size, bold) };
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const { size, bold } = this.parsedFont();
+    const width = textWidth(text, size, bold);
+    const align = this.state.textAlign;
+    const left = align === 'center' ? x - width / 2 : (align === 'right' || align === 'end') ? x - width : x;
+    const baselineShift: Record<string, number> = { top: 0.75, hanging: 0.75, middle: 0.35, bottom: -0.22, ideographic: -0.22 };
+    const baseline = y + (baselineShift[this.state.textBaseline] || 0) * size;
+
+    if (!this.paintFill(this.state.fillStyle)) return;
+    // Glyph space is y-up: flip it back inside the canvas transform
+    const m = multiply(this.state.matrix, [1, 0, 0, -1, left, baseline]);
+    this.ops.push(`BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${m.map(num).join(' ')} Tm (${pdfString(text)}) Tj ET`);
+  }
+}
+
+// --- DOCUMENT ---
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+  private alphaStates = new Map<number, string>();
+
+  constructor(private title: string = '') {}
+
+  addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(this, width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  // Shared ExtGState name for a fill/stroke opacity
+  alphaState(alpha: number): string {
+    const key = Math.round(Math.min(1, Math.max(0, alpha)) * 100);
+    let name = this.alphaStates.get(key);
+    if (!name) {
+      name = `GA${key}`;
+      this.alphaStates.set(key, name);
+    }
+    return name;
+  }
+
+  toBlob(): Blob {
+    const objects: string[] = [];
+    const add = (body: string) => { objects.push(body); return objects.length; };
+    const reserve = () => add('');
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const fontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const states = Array.from(this.alphaStates.entries())
+      .map(([key, name]) => `/${name} ${add(`<< /Type /ExtGState /ca ${key / 100} /CA ${key / 100} >>`)} 0 R`);
+    const resources = `<< /Font << /F1 ${fontId} 0 R /F2 ${boldFontId} 0 R >> /ExtGState << ${states.join(' ')} >> >>`;
+
+    const pageIds = this.pages.map(page => {
+      const content = page.ops.join('\n');
+      const contentId = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources ${resources} /Contents ${contentId} 0 R >>`);
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    const infoId = add(`<< /Title (${pdfString(this.title)}) /Producer (Schema) >>`);
+
+    // Everything is ASCII, so string length equals byte length
+    let out = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    offsets.forEach(offset => { out += `${String(offset).padStart(10, '0')} 00000 n \n`; });
+    out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    return new Blob([out], { type: 'application/pdf' });
+  }
+}
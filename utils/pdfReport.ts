@@ -0,0 +1,391 @@
+import { ProjectData, SportsProjectData, LightingMode } from '../types';
+import { PdfDocument, PdfPage, PaperSize, PaperOrientation, pageSizePt, MM_TO_PT, textWidth, wrapText } from './pdf';
+import { computeLightingLayout } from './lightingLayout';
+import { computeIlluminance } from './illuminance';
+import { hallArea, isPolygonalHall } from './floorPlan';
+import { PriceCatalog, computeBom, bomTotal } from './bom';
+import { fieldTemplateLabel } from './fieldTemplates';
+import { computeSportsLighting, floodlightMount, VERTICAL_HEIGHT } from './sportsLighting';
+
+// --- PDF REPORT ---
+// Sheets: 2D plan at a standard scale, isometric 3D view, then the technical memorial
+// (project data, lighting results, bill of materials, observations) flowing over as
+// many pages as needed. Every sheet carries the frame and title block.
+
+export interface PdfReportOptions {
+  paper: PaperSize;
+  orientation: PaperOrientation;
+}
+
+// Scene renderers supplied by the canvas component (sizes in canvas px)
+export interface ReportScenes {
+  planFitScale: (width: number, height: number) => number; // px/m that fits the whole plan
+  drawPlan: (ctx: CanvasRenderingContext2D, width: number, height: number, pxPerMeter: number) => void;
+  draw3D: (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+}
+
+const MARGIN = 10 * MM_TO_PT;
+const TITLE_BLOCK_HEIGHT = 18 * MM_TO_PT;
+const SCENE_PT_PER_PX = 0.5; // Scene fonts/lines are sized for screens; halve them on paper
+const STANDARD_SCALES = [20, 25, 50, 75, 100, 125, 200, 250, 500, 750, 1000, 1250, 2000, 2500, 5000];
+const SCALE_BAR_STEPS = [1, 2, 5, 10, 20, 25, 50, 100, 200, 500];
+
+const TEXT_DARK = '#121212';
+const TEXT_GRAY = '#666666';
+const BRAND_ORANGE = '#F03200';
+const BRAND_TEAL = '#42C0B5';
+const LINE_GRAY = '#d1d5db';
+
+const isIndustrialData = (data: ProjectData | SportsProjectData): data is ProjectData => 'lighting' in data;
+
+const formatNumber = (v: number, decimals: number = 2) =>
+  v.toLocaleString('pt-BR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+interface Sheet {
+  page: PdfPage;
+  title: string;
+  scale: string;
+}
+
+const drawText = (page: PdfPage, text: string, x: number, y: number, size: number, color: string, bold: boolean = false, align: CanvasTextAlign = 'left') => {
+  page.font = `${bold ? 'bold ' : ''}${size}px Helvetica`;
+  page.fillStyle = color;
+  page.textAlign = align;
+  page.textBaseline = 'alphabetic';
+  page.fillText(text, x, y);
+};
+
+// Trims text with an ellipsis so it fits a title block cell
+const fitText = (text: string, maxWidth: number, size: number, bold: boolean) => {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 1 && textWidth(`${cut}…`, size, bold) > maxWidth) cut = cut.slice(0, -1);
+  return `${cut}…`;
+};
+
+const drawTitleBlock = (sheet: Sheet, index: number, total: number, projectName: string, subtitle: string, dateStr: string) => {
+  const { page } = sheet;
+  const x = MARGIN, w = page.width - MARGIN * 2;
+  const y = page.height - MARGIN - TITLE_BLOCK_HEIGHT;
+
+  page.lineWidth = 1.2; page.strokeStyle = TEXT_DARK; page.setLineDash([]);
+  page.strokeRect(MARGIN, MARGIN, w, page.height - MARGIN * 2);
+  page.strokeRect(x, y, w, TITLE_BLOCK_HEIGHT);
+
+  // Brand | Project | Sheet | Scale | Date | Page
+  const fractions = [0.16, 0.3, 0.22, 0.1, 0.11, 0.11];
+  const cells = [
+    ['', ''],
+    ['PROJETO', projectName],
+    ['FOLHA', sheet.title],
+    ['ESCALA', sheet.scale],
+    ['DATA', dateStr],
+    ['PÁGINA', `${index + 1} / ${total}`],
+  ];
+  let cx = x;
+  fractions.forEach((f, i) => {
+    const cw = w * f;
+    if (i > 0) {
+      page.lineWidth = 0.6;
+      page.beginPath(); page.moveTo(cx, y); page.lineTo(cx, y + TITLE_BLOCK_HEIGHT); page.stroke();
+      drawText(page, cells[i][0], cx + 6, y + 14, 6.5, TEXT_GRAY, true);
+      drawText(page, fitText(cells[i][1], cw - 12, 10, true), cx + 6, y + 34, 10, TEXT_DARK, true);
+    } else {
+      drawText(page, 'Schema', cx + 8, y + 24, 16, TEXT_DARK, true);
+      drawText(page, subtitle, cx + 8, y + 36, 6.5, BRAND_ORANGE, true);
+    }
+    cx += cw;
+  });
+};
+
+const drawScaleBar = (page: PdfPage, x: number, y: number, ptPerMeter: number) => {
+  const maxLength = 50 * MM_TO_PT;
+  const step = [...SCALE_BAR_STEPS].reverse().find(s => s * 4 * ptPerMeter <= maxLength) || SCALE_BAR_STEPS[0];
+  const segment = step * ptPerMeter;
+  page.lineWidth = 0.6; page.strokeStyle = TEXT_DARK; page.setLineDash([]);
+  for (let i = 0; i < 4; i++) {
+    page.fillStyle = i % 2 === 0 ? TEXT_DARK : '#ffffff';
+    page.fillRect(x + i * segment, y, segment, 4);
+    page.strokeRect(x + i * segment, y, segment, 4);
+    drawText(page, `${i * step}`, x + i * segment, y + 12, 6.5, TEXT_DARK, false, 'center');
+  }
+  drawText(page, `${step * 4} m`, x + 4 * segment, y + 12, 6.5, TEXT_DARK, false, 'center');
+};
+
+export const buildPdfReport = (
+  data: ProjectData | SportsProjectData,
+  options: PdfReportOptions,
+  scenes: ReportScenes,
+  catalog?: PriceCatalog
+): Blob => {
+  const industrial = isIndustrialData(data) ? data : null;
+  const projectName = data.projectName || 'Sem Título';
+  const subtitle = industrial ? 'INDUSTRIAL BUILDER' : 'SPORTS BUILDER';
+  const { width: pageW, height: pageH } = pageSizePt(options.paper, options.orientation);
+
+  const doc = new PdfDocument(projectName);
+  const sheets: Sheet[] = [];
+  const addSheet = (title: string, scale: string = '-') => {
+    const sheet = { page: doc.addPage(pageW, pageH), title, scale };
+    sheets.push(sheet);
+    return sheet.page;
+  };
+
+  // Drawing area inside the frame, above the title block
+  const area = {
+    x: MARGIN,
+    y: MARGIN,
+    width: pageW - MARGIN * 2,
+    height: pageH - MARGIN * 2 - TITLE_BLOCK_HEIGHT,
+  };
+  const sceneW = area.width / SCENE_PT_PER_PX;
+  const sceneH = area.height / SCENE_PT_PER_PX;
+
+  // --- SHEET: 2D PLAN ---
+  if (data.width > 0 && data.length > 0) {
+    const fitPxPerMeter = scenes.planFitScale(sceneW, sceneH);
+    const ptPerMeterAt = (n: number) => (1000 / n) * MM_TO_PT;
+    const denominator = STANDARD_SCALES.find(n => ptPerMeterAt(n) / SCENE_PT_PER_PX <= fitPxPerMeter);
+    const ptPerMeter = denominator ? ptPerMeterAt(denominator) : fitPxPerMeter * SCENE_PT_PER_PX;
+    const scaleText = denominator ? `1:${denominator}` : `~1:${Math.round(1000 * MM_TO_PT / ptPerMeter)}`;
+
+    const page = addSheet('Planta Baixa (2D)', scaleText);
+    page.save();
+    page.beginPath(); page.rect(area.x, area.y, area.width, area.height); page.clip();
+    page.translate(area.x, area.y);
+    page.scale(SCENE_PT_PER_PX, SCENE_PT_PER_PX);
+    scenes.drawPlan(page.asContext(), sceneW, sceneH, ptPerMeter / SCENE_PT_PER_PX);
+    page.restore();
+    drawText(page, `ESCALA ${scaleText}`, area.x + 10, area.y + area.height - 24, 7, TEXT_DARK, true);
+    drawScaleBar(page, area.x + 10, area.y + area.height - 18, ptPerMeter);
+  }
+
+  // --- SHEET: 3D VIEW ---
+  {
+    const page = addSheet('Perspectiva Isométrica (3D)');
+    page.fillStyle = '#0f172a';
+    page.fillRect(area.x, area.y, area.width, area.height);
+    page.save();
+    page.beginPath(); page.rect(area.x, area.y, area.width, area.height); page.clip();
+    page.translate(area.x, area.y);
+    page.scale(SCENE_PT_PER_PX, SCENE_PT_PER_PX);
+    scenes.draw3D(page.asContext(), sceneW, sceneH);
+    page.restore();
+  }
+
+  // --- SHEETS: TECHNICAL MEMORIAL (flowing) ---
+  const pad = 8 * MM_TO_PT;
+  const left = area.x + pad;
+  const contentW = area.width - pad * 2;
+  const bottom = area.y + area.height - pad;
+  let page = addSheet('Memorial Técnico');
+  let y = area.y + pad;
+
+  const ensureSpace = (h: number) => {
+    if (y + h <= bottom) return false;
+    page = addSheet('Memorial Técnico (cont.)');
+    y = area.y + pad;
+    return true;
+  };
+
+  const sectionTitle = (title: string, color: string = TEXT_DARK) => {
+    ensureSpace(40);
+    y += 6;
+    drawText(page, title, left, y + 10, 11, color, true);
+    page.strokeStyle = color; page.lineWidth = 1; page.setLineDash([]);
+    page.beginPath(); page.moveTo(left, y + 15); page.lineTo(left + contentW, y + 15); page.stroke();
+    y += 26;
+  };
+
+  interface Column { header: string; width: number; align?: CanvasTextAlign; }
+  const ROW_H = 15;
+  const table = (columns: Column[], rows: string[][], boldLastRow: boolean = false) => {
+    const widths = columns.map(c => c.width * contentW);
+    const cellX = (i: number) => left + widths.slice(0, i).reduce((s, w) => s + w, 0);
+    const textX = (i: number) => {
+      const align = columns[i].align || 'left';
+      if (align === 'right') return cellX(i) + widths[i] - 4;
+      if (align === 'center') return cellX(i) + widths[i] / 2;
+      return cellX(i) + 4;
+    };
+    const header = () => {
+      page.fillStyle = '#f1f5f9';
+      page.fillRect(left, y, contentW, ROW_H);
+      columns.forEach((c, i) => drawText(page, c.header.toUpperCase(), textX(i), y + 10.5, 6.5, TEXT_GRAY, true, c.align || 'left'));
+      y += ROW_H;
+    };
+    header();
+    rows.forEach((row, r) => {
+      if (ensureSpace(ROW_H)) header();
+      const bold = boldLastRow && r === rows.length - 1;
+      if (r % 2 === 1) { page.fillStyle = '#f8f9fa'; page.fillRect(left, y, contentW, ROW_H); }
+      row.forEach((cell, i) => drawText(page, fitText(cell, widths[i] - 8, 8.5, bold), textX(i), y + 10.5, 8.5, TEXT_DARK, bold, columns[i].align || 'left'));
+      page.strokeStyle = LINE_GRAY; page.lineWidth = 0.4;
+      page.beginPath(); page.moveTo(left, y + ROW_H); page.lineTo(left + contentW, y + ROW_H); page.stroke();
+      y += ROW_H;
+    });
+    y += 10;
+  };
+
+  const keyValues = (rows: [string, string][]) =>
+    table([{ header: 'Item', width: 0.35 }, { header: 'Valor', width: 0.65 }], rows);
+
+  // Project data
+  sectionTitle('DADOS DO PROJETO');
+  const projectRows: [string, string][] = [
+    ['Nome do Projeto', projectName],
+    ['Dimensões', `${data.width}m x ${data.length}m (Área: ${formatNumber(hallArea(data), 0)} m²)`],
+  ];
+  if (industrial && isPolygonalHall(industrial)) {
+    projectRows.push(['Planta', `Poligonal, ${industrial.outline!.length} vértices (cotas do retângulo envolvente)`]);
+  }
+  if (industrial) {
+    const { lighting } = industrial;
+    projectRows.push(['Pé Direito', `${industrial.ceilingHeight}m`]);
+    projectRows.push(['Nível de Lux Requerido', `${industrial.luxRequired} lux`]);
+    if (lighting.isActive) {
+      const layout = computeLightingLayout(industrial);
+      const modeText = lighting.mode === LightingMode.Distance ? `Distância ${lighting.value}m` : `${lighting.value} Linhas`;
+      const spacingText = layout.profileSpacing > 0 ? `, a cada ${layout.profileSpacing.toFixed(2)}m` : '';
+      projectRows.push(['Infra. Iluminação', `${lighting.orientation} | ${modeText} (Offset ${lighting.offset}m)`]);
+      projectRows.push(['Perfilados / Luminárias', `${layout.profiles.length} Perfilados${spacingText} | ${layout.fixtures.length} Luminárias`]);
+      projectRows.push(['Luminária', `${lighting.fixture.name} (${lighting.fixture.lumens} lm, ${lighting.fixture.watts} W)`]);
+      if (lighting.photometry) projectRows.push(['Fotometria', `${lighting.photometry.format}: ${lighting.photometry.fileName}`]);
+      projectRows.push(['Fator de Manutenção', lighting.maintenanceFactor.toFixed(2)]);
+    } else {
+      projectRows.push(['Infra. Iluminação', 'Não Definido']);
+    }
+    const racksCount = industrial.storage.racks.filter(r => r.type === 'RACK').length;
+    const mezzCount = industrial.storage.racks.filter(r => r.type === 'MEZZANINE').length;
+    projectRows.push(['Objetos', `${racksCount} Racks, ${mezzCount} Mezaninos`]);
+    const columnCount = industrial.storage.racks.filter(r => r.type === 'COLUMN').length;
+    const beamCount = industrial.storage.racks.filter(r => r.type === 'BEAM').length;
+    const obstacleCount = industrial.storage.racks.filter(r => r.type === 'OBSTACLE').length;
+    if (columnCount + beamCount + obstacleCount > 0) {
+      projectRows.push(['Estrutura', `${columnCount} Pilares, ${beamCount} Vigas, ${obstacleCount} Obstáculos`]);
+    }
+  } else {
+    const sports = data as SportsProjectData;
+    projectRows.push(['Modalidade', fieldTemplateLabel(sports)]);
+    const posts = sports.objects.filter(o => o.type === 'POST').length;
+    const coverings = sports.objects.filter(o => o.type === 'COVERING').length;
+    projectRows.push(['Objetos', `${posts} Postes, ${coverings} Coberturas`]);
+  }
+  keyValues(projectRows);
+
+  // Sports: posts along the field (same chain as the plan dimensions) and coverings
+  if (!industrial) {
+    const objects = (data as SportsProjectData).objects;
+    if (objects.length > 0) {
+      sectionTitle('POSTES E COBERTURAS', BRAND_TEAL);
+      const posts = objects.filter(o => o.type === 'POST').sort((a, b) => a.x - b.x);
+      let previous = 0;
+      table([
+        { header: 'Objeto', width: 0.22 },
+        { header: 'Centro X / Y (m)', width: 0.22, align: 'right' },
+        { header: 'Dist. Anterior (m)', width: 0.18, align: 'right' },
+        { header: 'Dimensões (m)', width: 0.2, align: 'right' },
+        { header: 'Altura / Elev. (m)', width: 0.18, align: 'right' },
+      ], [
+        ...posts.map(o => {
+          const cx = o.x + o.width / 2, cy = o.y + o.depth / 2;
+          const row = [o.label, `${formatNumber(cx)} / ${formatNumber(cy)}`, formatNumber(cx - previous), `Ø ${formatNumber(o.width)}`, formatNumber(o.height)];
+          previous = cx;
+          return row;
+        }),
+        ...objects.filter(o => o.type === 'COVERING').map(o => [
+          o.label, `${formatNumber(o.x + o.width / 2)} / ${formatNumber(o.y + o.depth / 2)}`, '-',
+          `${formatNumber(o.width)} x ${formatNumber(o.depth)}`, formatNumber(o.elevation),
+        ]),
+      ]);
+    }
+  }
+
+  // Sports lighting: EN 12193 results and the aiming of every floodlight
+  if (!industrial) {
+    const sports = data as SportsProjectData;
+    const lighting = computeSportsLighting(sports);
+    if (lighting) {
+      const { fixture, lightingClass, maintenanceFactor } = sports.floodlighting;
+      sectionTitle('ILUMINAÇÃO ESPORTIVA (EN 12193)', BRAND_TEAL);
+      keyValues([
+        ['Classe', `${lightingClass} (Eh,méd >= ${lighting.requirement.lux} lux, U2 >= ${lighting.requirement.uniformity.toFixed(2)})`],
+        ['Refletor', `${fixture.name} (${fixture.lumens} lm, ${fixture.watts} W, facho ${fixture.beamAngle}°)`],
+        ['Refletores / Potência', `${lighting.floodlightCount} | ${(lighting.installedWatts / 1000).toFixed(1)} kW (FM ${maintenanceFactor.toFixed(2)})`],
+        ['Eh méd. / mín. / máx.', `${lighting.horizontal.averageLux.toFixed(0)} / ${lighting.horizontal.minLux.toFixed(0)} / ${lighting.horizontal.maxLux.toFixed(0)} lux`],
+        ['Eh U1 / U2', `${lighting.horizontal.u1.toFixed(2)} / ${lighting.horizontal.u2.toFixed(2)}`],
+        [`Ev méd. (${formatNumber(VERTICAL_HEIGHT)}m) / U1 / U2`, `${lighting.vertical.averageLux.toFixed(0)} lux / ${lighting.vertical.u1.toFixed(2)} / ${lighting.vertical.u2.toFixed(2)}`],
+        ['Resultado', lighting.passes ? 'ATENDE ao requisito' : 'NÃO ATENDE ao requisito'],
+      ]);
+      table([
+        { header: 'Poste', width: 0.25 },
+        { header: 'Refletor', width: 0.15 },
+        { header: 'Inclinação (°)', width: 0.2, align: 'right' },
+        { header: 'Azimute (°)', width: 0.2, align: 'right' },
+        { header: 'Montagem (m)', width: 0.2, align: 'right' },
+      ], sports.objects.filter(o => o.type === 'POST').sort((a, b) => a.x - b.x).flatMap(post =>
+        (post.floodlights || []).map((f, i) => [
+          post.label, `R${i + 1}`, formatNumber(f.tilt, 1), formatNumber(f.azimuth, 1), formatNumber(floodlightMount(post).z),
+        ])
+      ));
+    }
+  }
+
+  // Lighting results
+  if (industrial) {
+    sectionTitle('RESULTADOS LUMINOTÉCNICOS', BRAND_TEAL);
+    const illuminance = computeIlluminance(industrial);
+    if (illuminance) {
+      const floorArea = hallArea(industrial);
+      keyValues([
+        ['Iluminância Média (Grade)', `${illuminance.averageLux.toFixed(0)} lux`],
+        ['Método dos Lúmens', `${illuminance.lumenMethodLux.toFixed(0)} lux (K=${illuminance.roomIndex.toFixed(2)}, FU=${illuminance.utilizationFactor.toFixed(2)})`],
+        ['Emin / Emax', `${illuminance.minLux.toFixed(0)} / ${illuminance.maxLux.toFixed(0)} lux`],
+        ['Uniformidade (U0 = Emin/Emed)', illuminance.uniformity.toFixed(2)],
+        ['Potência Instalada', `${(illuminance.installedWatts / 1000).toFixed(1)} kW (${formatNumber(floorArea > 0 ? illuminance.installedWatts / floorArea : 0)} W/m²)`],
+        ['Resultado', illuminance.passes ? 'ATENDE ao requisito' : 'NÃO ATENDE ao requisito'],
+      ]);
+    } else {
+      ensureSpace(20);
+      drawText(page, 'Defina pé direito, perfilados e luminárias para calcular a iluminância.', left, y + 10, 8.5, TEXT_GRAY);
+      y += 24;
+    }
+
+    // Bill of materials
+    if (catalog) {
+      const lines = computeBom(industrial, catalog);
+      sectionTitle('LISTA DE MATERIAIS', BRAND_ORANGE);
+      if (lines.length === 0) {
+        drawText(page, 'Nenhum item no projeto.', left, y + 10, 8.5, TEXT_GRAY);
+        y += 24;
+      } else {
+        table([
+          { header: 'Item', width: 0.42 },
+          { header: 'Qtd.', width: 0.14, align: 'right' },
+          { header: 'Unid.', width: 0.08, align: 'center' },
+          { header: 'Preço Unit. (R$)', width: 0.18, align: 'right' },
+          { header: 'Total (R$)', width: 0.18, align: 'right' },
+        ], [
+          ...lines.map(l => [l.description, formatNumber(l.quantity, l.unit === 'un' ? 0 : 2), l.unit, formatNumber(l.unitPrice), formatNumber(l.total)]),
+          ['TOTAL ESTIMADO', '', '', '', formatNumber(bomTotal(lines))],
+        ], true);
+      }
+    }
+  }
+
+  // Observations, wrapped to the content width
+  if (data.observations.trim()) {
+    sectionTitle('OBSERVAÇÕES');
+    const LINE_H = 12;
+    wrapText(data.observations, contentW - 16, 9).forEach(line => {
+      ensureSpace(LINE_H);
+      drawText(page, line, left + 8, y + 9, 9, '#9a3412');
+      y += LINE_H;
+    });
+  }
+
+  const dateStr = new Date().toLocaleDateString('pt-BR');
+  sheets.forEach((sheet, i) => drawTitleBlock(sheet, i, sheets.length, projectName, subtitle, dateStr));
+
+  return doc.toBlob();
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { parseIES } from './ies';
+import { parseEulumdat } from './eulumdat';
+import { PhotometryParseError, candelaAt, beamAngleOf } from './photometry';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), 'utf8');
+
+describe('parseIES', () => {
+  it('reads an LM-63-2002 file with absolute photometry', () => {
+    const p = parseIES(fixture('highbay-rotational.ies'), 'highbay-rotational.ies');
+    expect(p).toMatchObject({
+      format: 'IES',
+      manufacturer: 'Silicon LED',
+      luminaireName: 'High Bay LED 150W 120 graus', // [MORE] continues [LUMINAIRE]
+      watts: 150,
+      symmetry: 'ROTATIONAL',
+      horizontalAngles: [0],
+      verticalAngles: [0, 45, 90],
+      candela: [[1000, 1000, 1000]], // × candela multiplier 2
+    });
+    // Uniform 1000 cd over the lower hemisphere: 2π × 1000 lm
+    expect(p.lumens).toBeCloseTo(2 * Math.PI * 1000, -1);
+  });
+
+  it('skips an embedded TILT=INCLUDE table and applies the ballast factor', () => {
+    const p = parseIES(fixture('linear-quadrant-tilt.ies'));
+    expect(p.symmetry).toBe('QUADRANT');
+    expect(p.watts).toBe(60);
+    expect(p.candela[0].map(v => Math.round(v))).toEqual([900, 630, 0]);
+    expect(p.candela[2].map(v => Math.round(v))).toEqual([900, 270, 0]);
+    // Quadrant data mirrors onto the other three quadrants
+    expect(candelaAt(p, 45, 270)).toBeCloseTo(candelaAt(p, 45, 90));
+    expect(candelaAt(p, 45, 135)).toBeCloseTo(candelaAt(p, 45, 45));
+  });
+
+  it('reads legacy 1986 files with comma separators and C0-C180 planes', () => {
+    const p = parseIES(fixture('legacy-c0c180.ies'), 'legacy-c0c180.ies');
+    expect(p.symmetry).toBe('C0_C180');
+    expect(p.luminaireName).toBe('legacy-c0c180.ies');
+    expect(p.horizontalAngles).toEqual([0, 90, 180]);
+    expect(candelaAt(p, 0, 270)).toBe(900); // C270 mirrors C90
+    expect(p.lumens).toBeGreaterThan(0);
+  });
+
+  describe('malformed input', () => {
+    const valid = fixture('highbay-rotational.ies');
+
+    it.each([
+      ['an empty file', ''],
+      ['no TILT line', valid.replace('TILT=NONE', '')],
+      ['missing candela values', valid.replace('500 500 500', '500 500')],
+      ['a non-numeric value', valid.replace('0 45 90', '0 abc 90')],
+      ['descending angles', valid.replace('0 45 90', '0 90 45')],
+      ['a Type A/B file', valid.replace('1 -1 2 3 1 1 2', '1 -1 2 3 1 2 2')],
+      ['a first gamma angle other than 0° or 90°', valid.replace('0 45 90', '10 45 90')],
+      ['no angles', valid.replace('1 -1 2 3 1 1 2', '1 -1 2 0 1 1 2')],
+    ])('rejects %s', (_, text) => {
+      expect(() => parseIES(text)).toThrow(PhotometryParseError);
+    });
+  });
+});
+
+describe('parseEulumdat', () => {
+  it('reads a rotationally symmetric file in cd/klm', () => {
+    const p = parseEulumdat(fixture('downlight-rotational.ldt'), 'downlight-rotational.ldt');
+    expect(p).toMatchObject({
+      format: 'LDT',
+      manufacturer: 'Silicon LED',
+      luminaireName: 'Downlight 20W',
+      watts: 20,
+      symmetry: 'ROTATIONAL',
+      horizontalAngles: [0],
+      verticalAngles: [0, 30, 60, 90],
+    });
+    expect(p.candela[0]).toEqual([600, 500, 240, 0]); // cd/klm × 2 klm
+    expect(p.lumens).toBeCloseTo(1800); // 2000 lm lamps × 90% LORL
+    expect(beamAngleOf(p)).toBeGreaterThan(60);
+  });
+
+  it('keeps only the C0-C180 planes stored for Isym 2', () => {
+    const p = parseEulumdat(fixture('floodlight-c0c180.ldt'));
+    expect(p.symmetry).toBe('C0_C180');
+    expect(p.horizontalAngles).toEqual([0, 90, 180]);
+    expect(p.candela[1]).toEqual([10000, 5000, 0]); // C90 × 20 klm
+    expect(candelaAt(p, 0, 270)).toBe(10000);
+    expect(p.lumens).toBeCloseTo(17000);
+  });
+
+  describe('malformed input', () => {
+    const valid = fixture('downlight-rotational.ldt');
+    const lines = valid.split('\n');
+    const withLine = (index: number, value: string) => lines.map((l, i) => (i === index ? value : l)).join('\n');
+
+    it.each([
+      ['an empty file', ''],
+      ['a truncated file', lines.slice(0, 40).join('\n')],
+      ['an invalid symmetry', withLine(2, '7')],
+      ['a non-numeric value', withLine(5, 'quatro')],
+      ['descending gamma angles', valid.replace('0\n30\n60\n90\n300', '0\n60\n30\n90\n300')],
+      ['a lamp set without lamps', withLine(26, '0')],
+    ])('rejects %s', (_, text) => {
+      expect(() => parseEulumdat(text)).toThrow(PhotometryParseError);
+    });
+
+    it('rejects a C-plane count that does not fit the symmetry', () => {
+      // 3 planes cannot be split into the C0-C180 half
+      const flood = fixture('floodlight-c0c180.ldt').split('\n');
+      flood[3] = '3';
+      const text = flood.join('\n').replace('0\n90\n180\n270\n0\n45\n90', '0\n120\n240\n0\n45\n90');
+      expect(() => parseEulumdat(text)).toThrow(/incompatível com a simetria/);
+    });
+  });
+});
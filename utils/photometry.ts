@@ -0,0 +1,106 @@
+import { Photometry, PhotometrySymmetry } from '../types';
+import { IntensityModel } from './illuminance';
+
+// --- PHOTOMETRY (shared by the IES and EULUMDAT parsers) ---
+// Intensities are absolute candela on Type C planes: `horizontalAngles` are the
+// C-planes (degrees) in the range the file provides, `verticalAngles` are gamma
+// angles from the downward vertical, `candela[h][v]` the values.
+
+export class PhotometryParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhotometryParseError';
+  }
+}
+
+export const assertAscending = (angles: number[], label: string) => {
+  for (let i = 1; i < angles.length; i++) {
+    if (angles[i] <= angles[i - 1]) {
+      throw new PhotometryParseError(`Os ${label} devem estar em ordem crescente (${angles[i - 1]}° → ${angles[i]}°).`);
+    }
+  }
+};
+
+// Folds any C angle onto the range covered by the file's planes
+const foldCAngle = (c: number, symmetry: PhotometrySymmetry): number => {
+  let a = ((c % 360) + 360) % 360;
+  switch (symmetry) {
+    case 'ROTATIONAL': return 0;
+    case 'C0_C180': return a > 180 ? 360 - a : a;
+    case 'C90_C270':
+      if (a < 90) return 180 - a;
+      if (a > 270) return 540 - a;
+      return a;
+    case 'QUADRANT':
+      if (a > 180) a = 360 - a;
+      return a > 90 ? 180 - a : a;
+    default: return a;
+  }
+};
+
+// Index of the segment [arr[i], arr[i + 1]] containing v, plus the blend factor
+const locate = (arr: number[], v: number): [number, number] => {
+  if (arr.length === 1 || v <= arr[0]) return [0, 0];
+  if (v >= arr[arr.length - 1]) return [arr.length - 1, 0];
+  let i = 0;
+  while (i < arr.length - 2 && v > arr[i + 1]) i++;
+  const span = arr[i + 1] - arr[i];
+  return [i, span > 0 ? (v - arr[i]) / span : 0];
+};
+
+const planeValue = (p: Photometry, h: number, gamma: number): number => {
+  const vs = p.verticalAngles;
+  if (gamma < vs[0] || gamma > vs[vs.length - 1]) return 0; // Outside the measured hemisphere
+  const [vi, vt] = locate(vs, gamma);
+  const row = p.candela[h];
+  return vt === 0 ? row[vi] : row[vi] * (1 - vt) + row[vi + 1] * vt;
+};
+
+// Bilinear interpolation of the intensity (cd) at gamma / C in degrees
+export const candelaAt = (p: Photometry, gamma: number, c: number): number => {
+  const cf = foldCAngle(c, p.symmetry);
+  const hs = p.horizontalAngles;
+  if (hs.length === 1) return planeValue(p, 0, gamma);
+
+  // Full 360° data wraps from the last plane back to C0
+  if (p.symmetry === 'NONE' && cf > hs[hs.length - 1]) {
+    const last = hs.length - 1;
+    const span = 360 - hs[last];
+    const t = span > 0 ? (cf - hs[last]) / span : 0;
+    return planeValue(p, last, gamma) * (1 - t) + planeValue(p, 0, gamma) * t;
+  }
+  const [hi, ht] = locate(hs, cf);
+  if (ht === 0) return planeValue(p, hi, gamma);
+  return planeValue(p, hi, gamma) * (1 - ht) + planeValue(p, hi + 1, gamma) * ht;
+};
+
+// Total luminaire flux (lm) by integrating the distribution over the sphere
+export const integrateFlux = (p: Photometry): number => {
+  const dG = 1, dC = 5;
+  const rad = Math.PI / 180;
+  let flux = 0;
+  for (let g = dG / 2; g < 180; g += dG) {
+    const band = Math.sin(g * rad) * dG * rad * dC * rad;
+    for (let c = dC / 2; c < 360; c += dC) {
+      flux += candelaAt(p, g, c) * band;
+    }
+  }
+  return flux;
+};
+
+// Full beam angle (degrees) where the averaged intensity falls to 50% of its peak
+export const beamAngleOf = (p: Photometry): number => {
+  const avgAt = (g: number) => (candelaAt(p, g, 0) + candelaAt(p, g, 90) + candelaAt(p, g, 180) + candelaAt(p, g, 270)) / 4;
+  let peak = 0;
+  for (let g = 0; g <= 90; g++) peak = Math.max(peak, avgAt(g));
+  if (peak <= 0) return 0;
+  for (let g = 0; g <= 180; g += 0.5) {
+    if (avgAt(g) < peak / 2 && g > 0) return g * 2;
+  }
+  return 180;
+};
+
+export const photometryIntensityModel = (p: Photometry): IntensityModel => {
+  const deg = 180 / Math.PI;
+  return (gamma: number, c: number) => candelaAt(p, gamma * deg, c * deg);
+};
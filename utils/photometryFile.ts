@@ -0,0 +1,14 @@
+import { Photometry } from '../types';
+import { PhotometryParseError } from './photometry';
+import { parseIES } from './ies';
+import { parseEulumdat } from './eulumdat';
+
+export const PHOTOMETRY_FILE_ACCEPT = '.ies,.IES,.ldt,.LDT';
+
+export const readPhotometryFile = async (file: File): Promise<Photometry> => {
+  const text = await file.text();
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.ies')) return parseIES(text, file.name);
+  if (name.endsWith('.ldt')) return parseEulumdat(text, file.name);
+  throw new PhotometryParseError('Formato não suportado. Use arquivos .ies (IES LM-63) ou .ldt (EULUMDAT).');
+};
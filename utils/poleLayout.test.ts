@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SPORTS_PROJECT, SportsObject, SportsProjectData } from '../types';
+import { generatePoleLayout, refitPolesToLength, syncPolePairs, releaseOrphans } from './poleLayout';
+
+// 40 x 20 m field, 4 poles 2 m outside the sidelines
+const field = (patch: Partial<SportsProjectData> = {}): SportsProjectData => ({
+  ...DEFAULT_SPORTS_PROJECT, width: 40, length: 20, ...patch,
+});
+
+const poles = () => generatePoleLayout(field(), { count: 4, setback: 2, height: 12, diameter: 0.4 });
+
+const isMirrored = (objects: SportsObject[], length: number) => objects.every(o => {
+  const partner = objects.find(p => p.pairId === o.pairId && p.id !== o.id)!;
+  return partner.x === o.x && Math.abs(partner.y - (length - o.y - o.depth)) < 1e-9;
+});
+
+describe('refitPolesToLength', () => {
+  it('keeps the bottom poles at their setback from the new sideline', () => {
+    const refit = refitPolesToLength(poles(), 20, 30);
+    expect(refit.map(p => p.y)).toEqual([-2.2, -2.2, 31.8, 31.8]);
+    expect(isMirrored(refit, 30)).toBe(true);
+  });
+
+  it('mirrors the pairs again from their top pole', () => {
+    const [top, ...rest] = poles();
+    const skewed = [{ ...top, x: 5, floodlights: [{ id: 'f1', tilt: 20, azimuth: 30 }] }, ...rest];
+    const refit = refitPolesToLength(skewed, 20, 25);
+    const partner = refit.find(p => p.pairId === top.pairId && p.id !== top.id)!;
+    expect(partner).toMatchObject({ x: 5, y: 26.8 });
+    expect(partner.floodlights?.[0]).toMatchObject({ tilt: 20, azimuth: 330 });
+  });
+
+  it('leaves coverings and unchanged lengths alone', () => {
+    const covering: SportsObject = { id: 'c', type: 'COVERING', x: 0, y: 15, width: 10, depth: 5, height: 0.2, elevation: 4, label: 'C1' };
+    const objects = [...poles(), covering];
+    expect(refitPolesToLength(objects, 20, 20)).toBe(objects);
+    expect(refitPolesToLength(objects, 20, 30).find(o => o.id === 'c')).toBe(covering);
+  });
+});
+
+describe('syncPolePairs', () => {
+  it('mirrors an edited pole onto its partner across the long axis', () => {
+    const before = poles();
+    const [top] = before;
+    const edited = { ...top, x: 8, y: -3.2, height: 15, floodlights: [{ id: 'f1', tilt: 25, azimuth: 10 }] };
+    const after = syncPolePairs(before, before.map(o => (o.id === top.id ? edited : o)), 20);
+    const partner = after.find(o => o.pairId === top.pairId && o.id !== top.id)!;
+    expect(partner).toMatchObject({ x: 8, y: 22.8, height: 15, label: 'P3' });
+    expect(partner.floodlights).toEqual([{ id: expect.any(String), tilt: 25, azimuth: 350 }]);
+  });
+
+  it('keeps the partner floodlight ids', () => {
+    const withLights = poles().map(o => ({ ...o, floodlights: [{ id: `${o.id}-f`, tilt: 20, azimuth: 0 }] }));
+    const [top] = withLights;
+    const edited = { ...top, floodlights: [{ id: `${top.id}-f`, tilt: 30, azimuth: 45 }] };
+    const after = syncPolePairs(withLights, withLights.map(o => (o.id === top.id ? edited : o)), 20);
+    const partner = after.find(o => o.pairId === top.pairId && o.id !== top.id)!;
+    expect(partner.floodlights).toEqual([{ id: `${partner.id}-f`, tilt: 30, azimuth: 315 }]);
+  });
+
+  it('lets both poles of a pair edited together keep their own values', () => {
+    const before = poles();
+    const next = before.map(o => (o.pairId === before[0].pairId ? { ...o, x: o.x + 1 + (o.y > 10 ? 1 : 0) } : o));
+    expect(syncPolePairs(before, next, 20)).toEqual(next);
+  });
+
+  it('leaves unpaired objects and unchanged lists alone', () => {
+    const before = poles();
+    expect(syncPolePairs(before, before, 20)).toBe(before);
+    const loose = { ...before[0], pairId: undefined, x: 30 };
+    const next = [loose, ...before.slice(1)];
+    expect(syncPolePairs(before, next, 20)).toBe(next);
+  });
+});
+
+describe('releaseOrphans', () => {
+  it('unpairs a pole whose partner was removed', () => {
+    const [top, second, ...rest] = poles();
+    const remaining = releaseOrphans([top, second, ...rest.filter(o => o.pairId !== top.pairId)]);
+    expect(remaining.find(o => o.id === top.id)!.pairId).toBeUndefined();
+    expect(remaining.find(o => o.id === second.id)!.pairId).toBe(second.pairId);
+  });
+});
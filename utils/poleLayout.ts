@@ -0,0 +1,113 @@
+import { FieldTemplateId, SportsLightingClass, SportsObject, SportsProjectData } from '../types';
+
+// --- POLE LAYOUT ---
+// Poles in pairs facing each other across the field: one on each sideline at the same x, the
+// bottom one mirrored about the long axis (y = length / 2). Pairs share a `pairId`; editing one
+// pole (position, height, floodlights) applies the mirrored edit to its partner.
+
+export type PoleCount = 4 | 6 | 8;
+
+export const POLE_COUNTS: PoleCount[] = [4, 6, 8];
+
+export interface PoleLayoutOptions {
+  count: PoleCount;
+  setback: number; // From the sideline to the pole center (m)
+  height: number;
+  diameter: number;
+}
+
+const DEFAULT_SETBACK = 2;
+const MIN_POLE_HEIGHT = 8;
+
+// Outside the run-off area of each sport
+const SETBACKS: Record<FieldTemplateId, number> = {
+  FOOTBALL_11: 5,
+  FOOTBALL_7: 3,
+  FOOTBALL_5: 2,
+  FUTSAL: 2,
+  BASKETBALL: 2,
+  VOLLEYBALL: 3,
+  HANDBALL: 2,
+  TENNIS: 3.5,
+  PADEL: 0.5,
+};
+
+// Minimum angle from the field's long axis up to the floodlights (glare control); stricter
+// for the competition classes
+const AIMING_ELEVATION: Record<SportsLightingClass, number> = { I: 27, II: 25, III: 20 };
+
+export const suggestedPoleLayout = (data: SportsProjectData, count: PoleCount = 4): PoleLayoutOptions => {
+  const setback = data.template ? SETBACKS[data.template] : DEFAULT_SETBACK;
+  const reach = data.length / 2 + setback;
+  const height = reach * Math.tan(AIMING_ELEVATION[data.floodlighting.lightingClass] * Math.PI / 180);
+  return { count, setback, height: Math.max(MIN_POLE_HEIGHT, Math.ceil(height * 2) / 2), diameter: 0.3 };
+};
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// count / 2 poles per sideline, evenly spread along the field (centers at w·(i + ½)/n)
+export const generatePoleLayout = (data: SportsProjectData, options: PoleLayoutOptions): SportsObject[] => {
+  const perSide = options.count / 2;
+  const r = options.diameter / 2;
+  const top: SportsObject[] = [];
+  const bottom: SportsObject[] = [];
+  for (let i = 0; i < perSide; i++) {
+    const cx = (data.width * (i + 0.5)) / perSide;
+    const pairId = newId();
+    const pole = { type: 'POST' as const, width: options.diameter, depth: options.diameter, height: options.height, elevation: 0, pairId };
+    top.push({ ...pole, id: newId(), x: cx - r, y: -options.setback - r, label: '' });
+    bottom.push({ ...pole, id: newId(), x: cx - r, y: data.length + options.setback - r, label: '' });
+  }
+  return [...top, ...bottom].map((p, i) => ({ ...p, label: `P${i + 1}` }));
+};
+
+const mirrorAzimuth = (azimuth: number) => (360 - azimuth) % 360;
+
+// `source` reflected about the long axis, keeping the partner's id, label and floodlight ids
+const mirroredPartner = (source: SportsObject, partner: SportsObject, length: number): SportsObject => ({
+  ...partner,
+  x: source.x,
+  y: Math.round((length - source.y - source.depth) * 1000) / 1000,
+  width: source.width,
+  depth: source.depth,
+  height: source.height,
+  elevation: source.elevation,
+  floodlights: source.floodlights?.map((f, i) => ({
+    id: partner.floodlights?.[i]?.id ?? newId(),
+    tilt: f.tilt,
+    azimuth: mirrorAzimuth(f.azimuth),
+  })),
+});
+
+// Mirrors every edited pole (object whose reference changed from `previous`) onto its partner.
+// When both poles of a pair were edited together (e.g. dragged as a selection) neither wins.
+export const syncPolePairs = (previous: SportsObject[], next: SportsObject[], length: number): SportsObject[] => {
+  const before = new Map(previous.map(o => [o.id, o]));
+  const edited = next.filter(o => o.pairId && before.get(o.id) !== o);
+  if (edited.length === 0) return next;
+  const editedIds = new Set(edited.map(o => o.id));
+  const partnerUpdates = new Map<string, SportsObject>();
+  edited.forEach(source => {
+    const partner = next.find(o => o.pairId === source.pairId && o.id !== source.id);
+    if (!partner || editedIds.has(partner.id)) return;
+    partnerUpdates.set(partner.id, mirroredPartner(source, partner, length));
+  });
+  return next.map(o => partnerUpdates.get(o.id) ?? o);
+};
+
+// Removing one pole of a pair releases the other
+export const releaseOrphans = (objects: SportsObject[]): SportsObject[] =>
+  objects.map(o => (o.pairId && !objects.some(p => p.pairId === o.pairId && p.id !== o.id) ? { ...o, pairId: undefined } : o));
+
+// New field length: poles past the long axis keep their distance to the bottom sideline, then
+// every pair is mirrored again from its top pole so the partners stay symmetric
+export const refitPolesToLength = (objects: SportsObject[], previousLength: number, length: number): SportsObject[] => {
+  if (previousLength === length) return objects;
+  const shift = length - previousLength;
+  const moved = objects.map(o => (o.type === 'POST' && o.y + o.depth / 2 > previousLength / 2
+      ? { ...o, y: Math.round((o.y + shift) * 1000) / 1000 } : o));
+  return moved.map(o => {
+    const partner = o.pairId ? moved.find(p => p.pairId === o.pairId && p.id !== o.id) : undefined;
+    return partner && partner.y < o.y ? mirroredPartner(partner, o, length) : o;
+  });
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PROJECT } from '../types';
+import { parseProjectFile, serializeProject, ProjectFileError } from './projectFile';
+
+// Version 1 files are bare ProjectData dumps with the legacy `fixtureQty` total
+const legacy = (patch: Record<string, unknown>) => JSON.stringify({
+  width: 40,
+  length: 20,
+  ceilingHeight: 10,
+  lighting: { isActive: true, orientation: 'LONGITUDINAL', mode: 'QUANTITY', value: 4, offset: 2, fixtureQty: 10 },
+  storage: { isActive: false, racks: [] },
+  luxRequired: 300,
+  ...patch,
+});
+
+describe('parseProjectFile', () => {
+  it('round-trips the current version', () => {
+    const data = { ...DEFAULT_PROJECT, projectName: 'Galpão A', width: 40, length: 20, ceilingHeight: 10 };
+    expect(parseProjectFile(serializeProject(data))).toMatchObject({ projectName: 'Galpão A', width: 40, length: 20 });
+  });
+
+  it('spreads the v1 fixture total over the profile lines', () => {
+    expect(parseProjectFile(legacy({})).lighting.fixturesPerProfile).toBe(3); // 10 fixtures on 4 lines
+  });
+
+  it('migrates v1 files without lighting', () => {
+    expect(parseProjectFile(legacy({ lighting: undefined })).lighting.fixturesPerProfile).toBe(0);
+  });
+
+  it.each([['texto'], [42], [[1, 2]], [true]])('rejects a v1 lighting of %j with a ProjectFileError', (lighting) => {
+    expect(() => parseProjectFile(legacy({ lighting }))).toThrow(ProjectFileError);
+  });
+});
@@ -0,0 +1,325 @@
+import {
+  ProjectData,
+  DEFAULT_PROJECT,
+  LightingConfig,
+  FixtureSpec,
+  Photometry,
+  PhotometrySymmetry,
+  LightingOrientation,
+  LightingMode,
+  RackBlock,
+  ObjectType,
+  ObstacleKind,
+  FloorPoint,
+  ForkliftType
+} from '../types';
+import { computeProfilePositions } from './lightingLayout';
+import { downloadBlob, fileBaseName } from './download';
+import { normalizeRotation } from './footprint';
+
+// --- PROJECT FILE (.schema.json) ---
+// Version 1: raw ProjectData dumps without envelope, lighting only had the total `fixtureQty`.
+// Version 2: { format, version, savedAt, project } envelope with `fixturesPerProfile`.
+
+export const PROJECT_FILE_FORMAT = 'schema-project';
+export const PROJECT_FILE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.schema.json';
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: string;
+  project: ProjectData;
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+type Migration = (project: Record<string, unknown>) => Record<string, unknown>;
+
+// Each entry upgrades a project from version N to N + 1
+const MIGRATIONS: Record<number, Migration> = {
+  1: (project) => {
+    if (project.lighting != null && !isPlainObject(project.lighting)) {
+      throw new ProjectFileError('Campo "lighting" deve ser um objeto.');
+    }
+    const lighting: Record<string, unknown> = isPlainObject(project.lighting) ? { ...project.lighting } : {};
+    if (lighting.fixturesPerProfile === undefined) {
+      // Legacy total is spread evenly over the profile lines
+      const lines = Math.max(1, countProfileLines(project, lighting));
+      const total = Number(lighting.fixtureQty) || 0;
+      lighting.fixturesPerProfile = total > 0 ? Math.ceil(total / lines) : 0;
+    }
+    return { ...project, lighting };
+  }
+};
+
+const countProfileLines = (project: Record<string, unknown>, lighting: Record<string, unknown>): number =>
+  computeProfilePositions({
+    ...DEFAULT_PROJECT,
+    width: Number(project.width) || 0,
+    length: Number(project.length) || 0,
+    lighting: {
+      ...DEFAULT_PROJECT.lighting,
+      orientation: lighting.orientation === LightingOrientation.Transversal ? LightingOrientation.Transversal : LightingOrientation.Longitudinal,
+      mode: lighting.mode === LightingMode.Quantity ? LightingMode.Quantity : LightingMode.Distance,
+      value: Number(lighting.value) || 0,
+      offset: Number(lighting.offset) || 0,
+    }
+  }).length;
+
+// --- VALIDATION ---
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isOneOf = <T extends string>(v: unknown, allowed: readonly T[]): v is T =>
+  typeof v === 'string' && (allowed as readonly string[]).includes(v);
+
+const readNumber = (obj: Record<string, unknown>, key: string, path: string, fallback?: number): number => {
+  const v = obj[key];
+  if (v === undefined && fallback !== undefined) return fallback;
+  if (!isFiniteNumber(v)) {
+    throw new ProjectFileError(`Campo "${path}${key}" deve ser um número (recebido: ${JSON.stringify(v)}).`);
+  }
+  if (v < 0) {
+    throw new ProjectFileError(`Campo "${path}${key}" não pode ser negativo (recebido: ${v}).`);
+  }
+  return v;
+};
+
+const readString = (obj: Record<string, unknown>, key: string, path: string, fallback?: string): string => {
+  const v = obj[key];
+  if (v === undefined && fallback !== undefined) return fallback;
+  if (typeof v !== 'string') {
+    throw new ProjectFileError(`Campo "${path}${key}" deve ser um texto.`);
+  }
+  return v;
+};
+
+const readBoolean = (obj: Record<string, unknown>, key: string, path: string, fallback: boolean): boolean => {
+  const v = obj[key];
+  if (v === undefined) return fallback;
+  if (typeof v !== 'boolean') {
+    throw new ProjectFileError(`Campo "${path}${key}" deve ser verdadeiro/falso.`);
+  }
+  return v;
+};
+
+const readEnum = <T extends string>(obj: Record<string, unknown>, key: string, path: string, allowed: T[], fallback: T): T => {
+  const v = obj[key];
+  if (v === undefined) return fallback;
+  if (!isOneOf(v, allowed)) {
+    throw new ProjectFileError(`Campo "${path}${key}" inválido: "${String(v)}". Valores aceitos: ${allowed.join(', ')}.`);
+  }
+  return v;
+};
+
+const validateFixture = (raw: unknown): FixtureSpec => {
+  const d = DEFAULT_PROJECT.lighting.fixture;
+  if (raw === undefined) return { ...d };
+  if (!isPlainObject(raw)) throw new ProjectFileError('Campo "lighting.fixture" deve ser um objeto.');
+  const p = 'lighting.fixture.';
+  return {
+    name: readString(raw, 'name', p, d.name),
+    lumens: readNumber(raw, 'lumens', p, d.lumens),
+    watts: readNumber(raw, 'watts', p, d.watts),
+    beamAngle: readNumber(raw, 'beamAngle', p, d.beamAngle),
+  };
+};
+
+const PHOTOMETRY_SYMMETRIES: PhotometrySymmetry[] = ['NONE', 'ROTATIONAL', 'C0_C180', 'C90_C270', 'QUADRANT'];
+
+const readNumberList = (obj: Record<string, unknown>, key: string, path: string): number[] => {
+  const v = obj[key];
+  if (!Array.isArray(v) || v.length === 0 || !v.every(isFiniteNumber)) {
+    throw new ProjectFileError(`Campo "${path}${key}" deve ser uma lista de números.`);
+  }
+  return v;
+};
+
+const validatePhotometry = (raw: unknown): Photometry | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isPlainObject(raw)) throw new ProjectFileError('Campo "lighting.photometry" deve ser um objeto.');
+  const p = 'lighting.photometry.';
+  const horizontalAngles = readNumberList(raw, 'horizontalAngles', p);
+  const verticalAngles = readNumberList(raw, 'verticalAngles', p);
+  if (!Array.isArray(raw.candela) || raw.candela.length !== horizontalAngles.length) {
+    throw new ProjectFileError(`Campo "${p}candela" deve ter uma linha por plano C.`);
+  }
+  const candela = raw.candela.map((row: unknown, i: number): number[] => {
+    if (!Array.isArray(row) || row.length !== verticalAngles.length || !row.every(isFiniteNumber)) {
+      throw new ProjectFileError(`Campo "${p}candela[${i}]" deve ter um valor por ângulo vertical.`);
+    }
+    return row;
+  });
+  return {
+    format: readEnum(raw, 'format', p, ['IES', 'LDT'], 'IES'),
+    fileName: readString(raw, 'fileName', p, ''),
+    manufacturer: readString(raw, 'manufacturer', p, ''),
+    luminaireName: readString(raw, 'luminaireName', p, ''),
+    lumens: readNumber(raw, 'lumens', p),
+    watts: readNumber(raw, 'watts', p, 0),
+    symmetry: readEnum(raw, 'symmetry', p, PHOTOMETRY_SYMMETRIES, 'NONE'),
+    horizontalAngles,
+    verticalAngles,
+    candela,
+  };
+};
+
+const validateLighting = (raw: unknown): LightingConfig => {
+  if (raw === undefined) return { ...DEFAULT_PROJECT.lighting };
+  if (!isPlainObject(raw)) throw new ProjectFileError('Campo "lighting" deve ser um objeto.');
+  const d = DEFAULT_PROJECT.lighting;
+  const p = 'lighting.';
+  return {
+    isActive: readBoolean(raw, 'isActive', p, d.isActive),
+    orientation: readEnum(raw, 'orientation', p, Object.values(LightingOrientation), d.orientation),
+    mode: readEnum(raw, 'mode', p, Object.values(LightingMode), d.mode),
+    value: readNumber(raw, 'value', p, d.value),
+    offset: readNumber(raw, 'offset', p, d.offset),
+    fixtureQty: readNumber(raw, 'fixtureQty', p, d.fixtureQty),
+    fixturesPerProfile: readNumber(raw, 'fixturesPerProfile', p, d.fixturesPerProfile),
+    fixture: validateFixture(raw.fixture),
+    maintenanceFactor: readNumber(raw, 'maintenanceFactor', p, d.maintenanceFactor),
+    photometry: validatePhotometry(raw.photometry),
+  };
+};
+
+const OBJECT_TYPES: ObjectType[] = ['RACK', 'MEZZANINE', 'COLUMN', 'BEAM', 'OBSTACLE'];
+const OBSTACLE_KINDS: ObstacleKind[] = ['GENERIC', 'DOOR', 'DOCK', 'HVAC'];
+const FORKLIFT_TYPES: ForkliftType[] = ['PALLET_JACK', 'COUNTERBALANCE', 'REACH', 'VNA'];
+
+const validateRack = (raw: unknown, index: number): RackBlock => {
+  const p = `storage.racks[${index}].`;
+  if (!isPlainObject(raw)) throw new ProjectFileError(`Item "storage.racks[${index}]" deve ser um objeto.`);
+  const type = readEnum(raw, 'type', p, OBJECT_TYPES, 'RACK');
+  const width = readNumber(raw, 'width', p);
+  const depth = readNumber(raw, 'depth', p);
+  if (width <= 0 || depth <= 0) {
+    throw new ProjectFileError(`Objeto "${p.slice(0, -1)}" precisa de largura e comprimento maiores que zero.`);
+  }
+  const locked = readBoolean(raw, 'locked', p, false);
+  const obstacleKind = type === 'OBSTACLE' ? readEnum(raw, 'obstacleKind', p, OBSTACLE_KINDS, 'GENERIC') : 'GENERIC';
+  const rotation = normalizeRotation(readNumber(raw, 'rotation', p, 0));
+  const groupId = readString(raw, 'groupId', p, '');
+  return {
+    id: readString(raw, 'id', p, Math.random().toString(36).substr(2, 9)),
+    type,
+    x: readNumber(raw, 'x', p),
+    y: readNumber(raw, 'y', p),
+    width,
+    depth,
+    height: readNumber(raw, 'height', p, type === 'MEZZANINE' ? 0.2 : 0),
+    elevation: readNumber(raw, 'elevation', p, 0),
+    label: readString(raw, 'label', p, ''),
+    ...(locked ? { locked } : {}),
+    ...(obstacleKind !== 'GENERIC' ? { obstacleKind } : {}),
+    ...(rotation ? { rotation } : {}),
+    ...(groupId ? { groupId } : {}),
+  };
+};
+
+const validateOutline = (raw: unknown): FloorPoint[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw) || raw.length < 3) {
+    throw new ProjectFileError('Campo "outline" deve ser uma lista com pelo menos 3 vértices.');
+  }
+  return raw.map((point, index) => {
+    if (!isPlainObject(point)) throw new ProjectFileError(`Item "outline[${index}]" deve ser um objeto.`);
+    const p = `outline[${index}].`;
+    return { x: readNumber(point, 'x', p), y: readNumber(point, 'y', p) };
+  });
+};
+
+const validateProject = (raw: unknown): ProjectData => {
+  if (!isPlainObject(raw)) throw new ProjectFileError('Conteúdo do projeto ausente ou inválido.');
+
+  const storageRaw = raw.storage === undefined ? DEFAULT_PROJECT.storage : raw.storage;
+  if (!isPlainObject(storageRaw)) throw new ProjectFileError('Campo "storage" deve ser um objeto.');
+  const racksRaw = storageRaw.racks === undefined ? [] : storageRaw.racks;
+  if (!Array.isArray(racksRaw)) throw new ProjectFileError('Campo "storage.racks" deve ser uma lista.');
+  const racks = racksRaw.map(validateRack);
+
+  const ids = new Set<string>();
+  racks.forEach(r => {
+    if (ids.has(r.id)) r.id = Math.random().toString(36).substr(2, 9);
+    ids.add(r.id);
+  });
+
+  const forklift = storageRaw.forklift === undefined ? undefined : readEnum(storageRaw, 'forklift', 'storage.', FORKLIFT_TYPES, 'COUNTERBALANCE');
+  const outline = validateOutline(raw.outline);
+
+  return {
+    projectName: readString(raw, 'projectName', '', DEFAULT_PROJECT.projectName),
+    width: readNumber(raw, 'width', ''),
+    length: readNumber(raw, 'length', ''),
+    ...(outline ? { outline } : {}),
+    ceilingHeight: readNumber(raw, 'ceilingHeight', '', 0),
+    lighting: validateLighting(raw.lighting),
+    storage: {
+      isActive: readBoolean(storageRaw, 'isActive', 'storage.', racks.length > 0),
+      racks,
+      ...(forklift ? { forklift } : {}),
+    },
+    luxRequired: readNumber(raw, 'luxRequired', '', DEFAULT_PROJECT.luxRequired),
+    observations: readString(raw, 'observations', '', ''),
+  };
+};
+
+// --- PUBLIC API ---
+
+export const serializeProject = (data: ProjectData): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    project: data,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseProjectFile = (text: string): ProjectData => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('O arquivo não é um JSON válido.');
+  }
+  if (!isPlainObject(json)) throw new ProjectFileError('O arquivo não contém um projeto Schema.');
+
+  // Version 1 files are the bare ProjectData object
+  const hasEnvelope = json.format !== undefined || json.version !== undefined;
+  if (hasEnvelope && json.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError(`Formato desconhecido: "${String(json.format)}".`);
+  }
+  const version = hasEnvelope ? json.version : 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError(`Versão de arquivo inválida: ${JSON.stringify(version)}.`);
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`Arquivo gerado por uma versão mais nova do Schema (v${version}). Atualize o aplicativo.`);
+  }
+
+  const content = hasEnvelope ? json.project : json;
+  if (!isPlainObject(content)) throw new ProjectFileError('Conteúdo do projeto ausente ou inválido.');
+  let project: Record<string, unknown> = JSON.parse(JSON.stringify(content));
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    project = MIGRATIONS[v](project);
+  }
+  return validateProject(project);
+};
+
+export const downloadProjectFile = (data: ProjectData) => {
+  const blob = new Blob([serializeProject(data)], { type: 'application/json' });
+  downloadBlob(blob, `${fileBaseName(data.projectName)}${PROJECT_FILE_EXTENSION}`);
+};
+
+export const readProjectFile = (file: File): Promise<ProjectData> =>
+  file.text().then(parseProjectFile);
@@ -0,0 +1,108 @@
+import { ProjectData } from '../types';
+import { serializeProject, parseProjectFile } from './projectFile';
+
+// --- LOCAL PROJECT LIBRARY (IndexedDB) ---
+// Projects are stored in the same versioned format as the .schema.json files,
+// so records written by older versions go through the same migrations on load.
+
+const DB_NAME = 'schema-library';
+const DB_VERSION = 1;
+const STORE = 'projects';
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  width: number;
+  length: number;
+  updatedAt: number;
+  currentStep: number;
+  thumbnail: string; // PNG data URL
+}
+
+interface LibraryRecord extends LibraryEntry {
+  file: string; // serialized ProjectFile
+}
+
+export interface LibraryProject {
+  entry: LibraryEntry;
+  data: ProjectData;
+}
+
+export const createProjectId = () => Math.random().toString(36).substr(2, 9);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toEntry = ({ file, ...entry }: LibraryRecord): LibraryEntry => entry;
+
+export const listProjects = async (): Promise<LibraryEntry[]> => {
+  const records = await run<LibraryRecord[]>('readonly', store => store.getAll());
+  return records.map(toEntry).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<LibraryProject | null> => {
+  const record = await run<LibraryRecord | undefined>('readonly', store => store.get(id));
+  if (!record) return null;
+  return { entry: toEntry(record), data: parseProjectFile(record.file) };
+};
+
+export const saveProject = async (id: string, data: ProjectData, currentStep: number, thumbnail: string): Promise<void> => {
+  const record: LibraryRecord = {
+    id,
+    name: data.projectName,
+    width: data.width,
+    length: data.length,
+    updatedAt: Date.now(),
+    currentStep,
+    thumbnail,
+    file: serializeProject(data),
+  };
+  await run('readwrite', store => store.put(record));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await loadProject(id);
+  if (!project) return;
+  const { entry, data } = project;
+  await saveProject(id, { ...data, projectName: name }, entry.currentStep, entry.thumbnail);
+};
+
+export const duplicateProject = async (id: string): Promise<string | null> => {
+  const project = await loadProject(id);
+  if (!project) return null;
+  const { entry, data } = project;
+  const newId = createProjectId();
+  await saveProject(newId, { ...data, projectName: `${data.projectName} (Cópia)` }, entry.currentStep, entry.thumbnail);
+  return newId;
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PROJECT, ProjectData, RackBlock } from '../types';
+import { DEFAULT_RACK_ARRAY, RackArrayOptions, generateRackArray, rackArraySize } from './rackArray';
+
+const hall = (racks: RackBlock[] = []): ProjectData => ({
+  ...DEFAULT_PROJECT, width: 40, length: 20, ceilingHeight: 10, storage: { isActive: racks.length > 0, racks },
+});
+
+// 2 rows × 3 bays of 2 × 1 m, back to back, from (1, 1)
+const options = (patch: Partial<RackArrayOptions> = {}): RackArrayOptions => ({
+  ...DEFAULT_RACK_ARRAY, rows: 2, baysPerRow: 3, bayWidth: 2, bayDepth: 1, height: 6, x: 1, y: 1, ...patch,
+});
+
+const existing = (id: string, patch: Partial<RackBlock>): RackBlock => ({
+  id, type: 'RACK', x: 0, y: 0, width: 1, depth: 1, height: 6, elevation: 0, label: id, ...patch,
+});
+
+describe('generateRackArray', () => {
+  it('lays out lettered rows of bays sharing one group', () => {
+    const { racks, skipped, occupied } = generateRackArray(hall(), options());
+    expect(racks.map(r => [r.label, r.x, r.y])).toEqual([
+      ['A01', 1, 1], ['A02', 3, 1], ['A03', 5, 1],
+      ['B01', 1, 2], ['B02', 3, 2], ['B03', 5, 2],
+    ]);
+    expect(new Set(racks.map(r => r.groupId)).size).toBe(1);
+    expect([skipped, occupied]).toEqual([0, 0]);
+    expect(rackArraySize(options())).toEqual({ width: 6, depth: 2 });
+  });
+
+  it('leaves out bays off the floor or on a column', () => {
+    const column = existing('p', { type: 'COLUMN', x: 3.2, y: 1.2, width: 0.4, depth: 0.4, height: 10, locked: true });
+    const { racks, skipped } = generateRackArray(hall([column]), options({ x: 35 }));
+    expect(skipped).toBe(2); // Third bay of each row past the 40 m wall
+    const onColumn = generateRackArray(hall([column]), options());
+    expect(onColumn.skipped).toBe(1);
+    expect(onColumn.racks.map(r => r.label)).not.toContain('A02');
+    expect(racks).toHaveLength(4);
+  });
+
+  it('leaves out and counts bays on racks already placed', () => {
+    const { racks, occupied } = generateRackArray(hall([existing('x', { x: 5.5, y: 1.5 })]), options());
+    expect(occupied).toBe(2); // A03 and B03
+    expect(racks.map(r => r.label)).toEqual(['A01', 'A02', 'B01', 'B02']);
+  });
+
+  it('fits under a mezzanine slab above the racks', () => {
+    const slab = existing('m', { type: 'MEZZANINE', width: 10, depth: 10, height: 0.2, elevation: 7 });
+    expect(generateRackArray(hall([slab]), options()).occupied).toBe(0);
+    expect(generateRackArray(hall([{ ...slab, elevation: 3 }]), options()).occupied).toBe(6);
+  });
+
+  it('continues the row letters of arrays already on the plan', () => {
+    const first = generateRackArray(hall(), options()).racks;
+    const { racks } = generateRackArray(hall(first), options({ y: 10 }));
+    expect(racks[0].label).toBe('C01');
+  });
+});
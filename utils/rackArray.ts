@@ -0,0 +1,146 @@
+import { ProjectData, RackBlock } from '../types';
+import { isInsideHall } from './floorPlan';
+import { overlapsBuildingElement, axisLetter, isBuildingElement } from './buildingElements';
+import { footprintsOverlap } from './footprint';
+
+// --- RACK ARRAYS ---
+// N rows × M bays of selective racks, generated in one go. Bays of a row sit side by side
+// along the row direction; rows are separated by aisles, or paired back-to-back. Every bay of
+// an array shares a `groupId`, so picking one on the plan selects the whole array.
+
+export type RackRowDirection = 'X' | 'Y'; // Axis the rows run along
+
+export interface RackArrayOptions {
+  rows: number;
+  baysPerRow: number;
+  bayWidth: number; // Along the row (m)
+  bayDepth: number; // Across the row (m)
+  height: number;
+  aisleWidth: number; // Clear width between facing rows (m)
+  backToBack: boolean; // Rows paired with no aisle between them
+  direction: RackRowDirection;
+  x: number; // Top-left corner of the array (m)
+  y: number;
+}
+
+export const DEFAULT_RACK_ARRAY: RackArrayOptions = {
+  rows: 4,
+  baysPerRow: 10,
+  bayWidth: 2.7,
+  bayDepth: 1.1,
+  height: 6,
+  aisleWidth: 3,
+  backToBack: true,
+  direction: 'X',
+  x: 1,
+  y: 1,
+};
+
+export interface RackArrayResult {
+  racks: RackBlock[];
+  skipped: number; // Bays left out: off the floor or on a building element
+  occupied: number; // Bays left out: on racks or mezzanines already placed
+}
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+const EPSILON = 1e-6;
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Offsets of each row across the row direction, from the array edge
+const rowOffsets = (options: RackArrayOptions): number[] => {
+  const offsets: number[] = [];
+  let offset = 0;
+  for (let i = 0; i < options.rows; i++) {
+    offsets.push(round3(offset));
+    const pairedWithNext = options.backToBack && i % 2 === 0 && i + 1 < options.rows;
+    offset += options.bayDepth + (pairedWithNext ? 0 : options.aisleWidth);
+  }
+  return offsets;
+};
+
+// Overall size of the array in plan (no trailing aisle)
+export const rackArraySize = (options: RackArrayOptions): { width: number; depth: number } => {
+  if (options.rows < 1 || options.baysPerRow < 1) return { width: 0, depth: 0 };
+  const offsets = rowOffsets(options);
+  const along = round3(options.baysPerRow * options.bayWidth);
+  const across = round3(offsets[offsets.length - 1] + options.bayDepth);
+  return options.direction === 'X' ? { width: along, depth: across } : { width: across, depth: along };
+};
+
+// Inverse of axisLetter (rows are lettered like the structural grid)
+const rowIndexOf = (letters: string): number =>
+  letters.split('').reduce((n, c) => n * 26 + (c.charCodeAt(0) - 64), 0) - 1;
+
+export const ARRAY_LABEL = /^([A-Z]+)(\d{2,})$/; // Row letters + bay number, e.g. A01
+
+// First row letter not used yet by arrays already on the plan
+export const nextRowIndex = (racks: RackBlock[]): number =>
+  racks.reduce((next, r) => {
+    const match = r.type === 'RACK' && r.groupId ? ARRAY_LABEL.exec(r.label) : null;
+    return match ? Math.max(next, rowIndexOf(match[1]) + 1) : next;
+  }, 0);
+
+export const generateRackArray = (data: ProjectData, options: RackArrayOptions): RackArrayResult => {
+  const { rows, baysPerRow, bayWidth, bayDepth, height } = options;
+  if (!(rows >= 1) || !(baysPerRow >= 1) || !(bayWidth > 0) || !(bayDepth > 0)) return { racks: [], skipped: 0, occupied: 0 };
+  const groupId = newId();
+  const firstRow = nextRowIndex(data.storage.racks);
+  const digits = Math.max(2, String(Math.floor(baysPerRow)).length);
+  const alongX = options.direction === 'X';
+  // Objects already placed in the same height range (a rack fits under a high mezzanine)
+  const placed = data.storage.racks.filter(r => !isBuildingElement(r) &&
+      (r.elevation || 0) < height - EPSILON && (r.elevation || 0) + r.height > EPSILON);
+
+  const racks: RackBlock[] = [];
+  let skipped = 0, occupied = 0;
+  rowOffsets(options).forEach((offset, row) => {
+    for (let bay = 0; bay < Math.floor(baysPerRow); bay++) {
+      const along = bay * bayWidth;
+      const rack: RackBlock = {
+        id: newId(),
+        type: 'RACK',
+        x: round3(options.x + (alongX ? along : offset)),
+        y: round3(options.y + (alongX ? offset : along)),
+        width: alongX ? bayWidth : bayDepth,
+        depth: alongX ? bayDepth : bayWidth,
+        height,
+        elevation: 0,
+        label: `${axisLetter(firstRow + row)}${String(bay + 1).padStart(digits, '0')}`,
+        groupId,
+      };
+      if (!isInsideHall(data, rack.x, rack.y, rack.width, rack.depth) ||
+          overlapsBuildingElement(data.storage.racks, rack, rack.x, rack.y)) {
+        skipped++;
+        continue;
+      }
+      if (placed.some(r => footprintsOverlap(r, rack))) {
+        occupied++;
+        continue;
+      }
+      racks.push(rack);
+    }
+  });
+  return { racks, skipped, occupied };
+};
+
+// --- GROUPS ---
+
+export interface RackGroup {
+  id: string;
+  label: string; // First–last bay label
+  count: number;
+}
+
+export const rackGroups = (racks: RackBlock[]): RackGroup[] => {
+  const groups = new Map<string, RackBlock[]>();
+  racks.forEach(r => {
+    if (!r.groupId) return;
+    const members = groups.get(r.groupId);
+    if (members) members.push(r); else groups.set(r.groupId, [r]);
+  });
+  return [...groups.entries()].map(([id, members]) => ({
+    id,
+    label: members.length > 1 ? `${members[0].label}–${members[members.length - 1].label}` : members[0].label,
+    count: members.length,
+  }));
+};
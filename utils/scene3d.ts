@@ -0,0 +1,232 @@
+import { FloorPoint, ProjectData, RackBlock, SportsObject, SportsProjectData } from '../types';
+import { footprintCorners } from './footprint';
+import { hallOutline } from './floorPlan';
+import { isBuildingElement, obstacleKindOf } from './buildingElements';
+import { computeLightingLayout } from './lightingLayout';
+import { fieldMarkings } from './fieldTemplates';
+import { floodlightMount, floodlightAimPoint } from './sportsLighting';
+import { SceneBounds } from './orbitCamera';
+import {
+  PALLET_STROKE, MEZZANINE_STROKE, LIGHTING_COLOR, GRASS_COLOR, FIELD_LINE_COLOR, POST_COLOR, AIM_LINE_COLOR
+} from '../constants';
+
+// --- 3D SCENE (WebGL viewport) ---
+// The project as triangle and line buffers in world space (X = plan x, Y = up, Z = plan y).
+// Every vertex carries position, normal, RGBA color and an emissive flag (drawn unlit:
+// fixtures, floodlights, lines). Walls, coverings and open obstacles go in the transparent
+// batch, drawn after the opaque one without writing depth.
+
+export const VERTEX_FLOATS = 11; // xyz + normal + rgba + emissive
+
+export interface Scene3D {
+  opaque: Float32Array;
+  transparent: Float32Array;
+  lines: Float32Array;
+  bounds: SceneBounds;
+}
+
+type RGBA = [number, number, number, number];
+
+const rgba = (hex: string, alpha = 1): RGBA => {
+  const v = parseInt(hex.slice(1), 16);
+  return [((v >> 16) & 255) / 255, ((v >> 8) & 255) / 255, (v & 255) / 255, alpha];
+};
+
+const LINE_LIFT = 0.02; // Floor lines sit just above the floor to avoid z-fighting
+const POST_SIDES = 12;
+
+class SceneBuilder {
+  opaque: number[] = [];
+  transparent: number[] = [];
+  lines: number[] = [];
+  min = [Infinity, Infinity, Infinity];
+  max = [-Infinity, -Infinity, -Infinity];
+
+  private vertex(target: number[], p: number[], n: number[], c: RGBA, emissive: boolean) {
+    target.push(p[0], p[1], p[2], n[0], n[1], n[2], c[0], c[1], c[2], c[3], emissive ? 1 : 0);
+    for (let i = 0; i < 3; i++) { this.min[i] = Math.min(this.min[i], p[i]); this.max[i] = Math.max(this.max[i], p[i]); }
+  }
+
+  // Planar polygon (convex, or already triangulated as a fan) with one normal
+  triangle(a: number[], b: number[], c: number[], color: RGBA, emissive = false) {
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const len = Math.hypot(n[0], n[1], n[2]) || 1;
+    const normal = n.map(x => x / len);
+    const target = color[3] < 1 ? this.transparent : this.opaque;
+    [a, b, c].forEach(p => this.vertex(target, p, normal, color, emissive));
+  }
+
+  quad(a: number[], b: number[], c: number[], d: number[], color: RGBA, emissive = false) {
+    this.triangle(a, b, c, color, emissive);
+    this.triangle(a, c, d, color, emissive);
+  }
+
+  line(a: number[], b: number[], color: RGBA) {
+    this.vertex(this.lines, a, [0, 0, 0], color, true);
+    this.vertex(this.lines, b, [0, 0, 0], color, true);
+  }
+
+  // Vertical prism over a plan footprint (clockwise corners), from `bottom` to `top`
+  prism(corners: FloorPoint[], bottom: number, top: number, color: RGBA, emissive = false) {
+    const lo = corners.map(p => [p.x, bottom, p.y]);
+    const hi = corners.map(p => [p.x, top, p.y]);
+    for (let i = 1; i < corners.length - 1; i++) {
+      this.triangle(hi[0], hi[i + 1], hi[i], color, emissive);
+      this.triangle(lo[0], lo[i], lo[i + 1], color, emissive);
+    }
+    corners.forEach((_, i) => {
+      const j = (i + 1) % corners.length;
+      this.quad(lo[j], lo[i], hi[i], hi[j], color, emissive); // Outward normals
+    });
+  }
+
+  build(): Scene3D {
+    const empty = !Number.isFinite(this.min[0]);
+    return {
+      opaque: new Float32Array(this.opaque),
+      transparent: new Float32Array(this.transparent),
+      lines: new Float32Array(this.lines),
+      bounds: empty
+        ? { min: [0, 0, 0], max: [10, 5, 10] }
+        : { min: [this.min[0], this.min[1], this.min[2]], max: [this.max[0], this.max[1], this.max[2]] },
+    };
+  }
+}
+
+// Ear clipping for the (simple, possibly concave) hall outline
+const triangulate = (points: FloorPoint[]): [number, number, number][] => {
+  let signed = 0;
+  points.forEach((p, i) => { const q = points[(i + 1) % points.length]; signed += p.x * q.y - q.x * p.y; });
+  const orientation = Math.sign(signed) || 1;
+  const crossAt = (a: FloorPoint, b: FloorPoint, c: FloorPoint) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  const inside = (p: FloorPoint, a: FloorPoint, b: FloorPoint, c: FloorPoint) =>
+    crossAt(a, b, p) * orientation > 0 && crossAt(b, c, p) * orientation > 0 && crossAt(c, a, p) * orientation > 0;
+  const remaining = points.map((_, i) => i);
+  const triangles: [number, number, number][] = [];
+  let guard = points.length * points.length;
+  while (remaining.length > 3 && guard-- > 0) {
+    for (let k = 0; k < remaining.length; k++) {
+      const [ia, ib, ic] = [remaining[(k + remaining.length - 1) % remaining.length], remaining[k], remaining[(k + 1) % remaining.length]];
+      const [a, b, c] = [points[ia], points[ib], points[ic]];
+      if (crossAt(a, b, c) * orientation <= 0) continue; // Reflex corner
+      if (remaining.some(i => i !== ia && i !== ib && i !== ic && inside(points[i], a, b, c))) continue;
+      triangles.push([ia, ib, ic]);
+      remaining.splice(k, 1);
+      break;
+    }
+  }
+  if (remaining.length === 3) triangles.push([remaining[0], remaining[1], remaining[2]]);
+  return triangles;
+};
+
+const floor = (s: SceneBuilder, outline: FloorPoint[], color: RGBA) => {
+  triangulate(outline).forEach(([a, b, c]) => {
+    const [pa, pb, pc] = [outline[a], outline[b], outline[c]].map(p => [p.x, 0, p.y]);
+    // Normal up regardless of the outline's winding
+    const up = (pb[0] - pa[0]) * (pc[2] - pa[2]) - (pb[2] - pa[2]) * (pc[0] - pa[0]) < 0;
+    if (up) s.triangle(pa, pb, pc, color); else s.triangle(pa, pc, pb, color);
+  });
+};
+
+// Same palette as the isometric drawing
+const objectColor = (obj: RackBlock): RGBA => {
+  if (obj.type === 'OBSTACLE') {
+    const kind = obstacleKindOf(obj);
+    if (kind === 'HVAC') return rgba('#60a5fa', 0.7);
+    if (kind === 'DOOR') return rgba('#fbbf24', 0.6);
+    if (kind === 'DOCK') return rgba('#facc15', 0.6);
+    return rgba('#9ca3af', 0.6);
+  }
+  if (isBuildingElement(obj)) return rgba('#9ca3af');
+  return obj.type === 'MEZZANINE' ? rgba(MEZZANINE_STROKE) : rgba(PALLET_STROKE);
+};
+
+const industrialScene = (s: SceneBuilder, data: ProjectData) => {
+  const outline = hallOutline(data);
+  const h = data.ceilingHeight;
+  floor(s, outline, rgba('#d1d5db'));
+
+  data.storage.racks.forEach(obj => {
+    const el = obj.elevation || 0;
+    s.prism(footprintCorners(obj), el, el + Math.max(obj.height, 0.02), objectColor(obj));
+  });
+
+  if (h > 0) {
+    // Walls (see-through) and the roof line
+    const wall = rgba('#94a3b8', 0.18);
+    outline.forEach((p, i) => {
+      const q = outline[(i + 1) % outline.length];
+      s.quad([p.x, 0, p.y], [q.x, 0, q.y], [q.x, h, q.y], [p.x, h, p.y], wall);
+      s.line([p.x, h, p.y], [q.x, h, q.y], rgba('#F03200'));
+      s.line([p.x, 0, p.y], [p.x, h, p.y], rgba('#6b7280'));
+    });
+
+    // Profiles and fixtures just under the roof
+    if (data.lighting.isActive) {
+      const layout = computeLightingLayout(data);
+      layout.profiles.forEach(p => s.line([p.x1, h - 0.05, p.y1], [p.x2, h - 0.05, p.y2], rgba(LIGHTING_COLOR)));
+      layout.fixtures.forEach(f => {
+        const r = 0.3;
+        s.prism(
+          [{ x: f.x - r, y: f.y - r }, { x: f.x + r, y: f.y - r }, { x: f.x + r, y: f.y + r }, { x: f.x - r, y: f.y + r }],
+          h - 0.2, h - 0.1, rgba('#F6C847'), true
+        );
+      });
+    }
+  }
+};
+
+const postPrism = (post: SportsObject): FloorPoint[] => {
+  const cx = post.x + post.width / 2, cy = post.y + post.depth / 2;
+  return Array.from({ length: POST_SIDES }, (_, i) => {
+    const a = (i / POST_SIDES) * Math.PI * 2;
+    return { x: cx + (post.width / 2) * Math.cos(a), y: cy + (post.depth / 2) * Math.sin(a) };
+  });
+};
+
+const sportsScene = (s: SceneBuilder, data: SportsProjectData) => {
+  floor(s, hallOutline(data), rgba(GRASS_COLOR));
+  const lineColor = rgba(FIELD_LINE_COLOR);
+  const outline = hallOutline(data);
+  outline.forEach((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    s.line([p.x, LINE_LIFT, p.y], [q.x, LINE_LIFT, q.y], lineColor);
+  });
+  fieldMarkings(data).paths.forEach(path => {
+    const points = path.closed ? [...path.points, path.points[0]] : path.points;
+    for (let i = 1; i < points.length; i++) {
+      s.line([points[i - 1].x, LINE_LIFT, points[i - 1].y], [points[i].x, LINE_LIFT, points[i].y], lineColor);
+    }
+  });
+
+  data.objects.forEach(obj => {
+    const el = obj.elevation || 0;
+    if (obj.type === 'POST') {
+      s.prism(postPrism(obj), el, el + obj.height, rgba(POST_COLOR));
+      // Floodlight heads (emissive) and their aiming lines
+      const mount = floodlightMount(obj);
+      (obj.floodlights || []).forEach(f => {
+        const r = 0.35;
+        s.prism(
+          [{ x: mount.x - r, y: mount.y - r }, { x: mount.x + r, y: mount.y - r }, { x: mount.x + r, y: mount.y + r }, { x: mount.x - r, y: mount.y + r }],
+          mount.z - 0.2, mount.z + 0.2, rgba('#F6C847'), true
+        );
+        const aim = floodlightAimPoint(obj, f);
+        s.line([mount.x, mount.z, mount.y], [aim.x, LINE_LIFT, aim.y], rgba(AIM_LINE_COLOR));
+      });
+    } else {
+      s.prism(footprintCorners(obj), el, el + Math.max(obj.height, 0.02), rgba('#e2e8f0', 0.55));
+    }
+  });
+};
+
+export const buildScene3D = (data: ProjectData | SportsProjectData, mode: 'INDUSTRIAL' | 'SPORTS'): Scene3D => {
+  const s = new SceneBuilder();
+  if (data.width > 0 && data.length > 0) {
+    if (mode === 'SPORTS') sportsScene(s, data as SportsProjectData);
+    else industrialScene(s, data as ProjectData);
+  }
+  return s.build();
+};
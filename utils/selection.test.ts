@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { RackBlock } from '../types';
+import { alignSelection, distributeSelection, duplicateRacks, expandToGroups } from './selection';
+
+const rack = (id: string, x: number, y: number, patch: Partial<RackBlock> = {}): RackBlock => ({
+  id, type: 'RACK', x, y, width: 2, depth: 1, height: 6, elevation: 0, label: id, ...patch,
+});
+
+const byId = (moves: { id: string, x: number, y: number }[]) => Object.fromEntries(moves.map(m => [m.id, [m.x, m.y]]));
+
+describe('alignSelection', () => {
+  const objects = [rack('a', 0, 0), rack('b', 5, 3), rack('c', 10, 6, { width: 4 })];
+
+  it('lines the units up on the edge of the selection box', () => {
+    expect(byId(alignSelection(objects, ['a', 'b', 'c'], 'LEFT'))).toEqual({ a: [0, 0], b: [0, 3], c: [0, 6] });
+    expect(byId(alignSelection(objects, ['a', 'b', 'c'], 'RIGHT'))).toEqual({ a: [12, 0], b: [12, 3], c: [10, 6] });
+    expect(byId(alignSelection(objects, ['a', 'b'], 'BOTTOM'))).toEqual({ a: [0, 3], b: [5, 3] });
+  });
+
+  it('centers on the selection box', () => {
+    expect(byId(alignSelection(objects, ['a', 'c'], 'CENTER_X'))).toEqual({ a: [6, 0], c: [5, 6] });
+  });
+
+  it('moves an array as one block', () => {
+    const array = [rack('a1', 0, 0, { groupId: 'g' }), rack('a2', 2, 0, { groupId: 'g' }), rack('b', 10, 5)];
+    expect(byId(alignSelection(array, ['a1', 'a2', 'b'], 'RIGHT'))).toEqual({ a1: [8, 0], a2: [10, 0], b: [10, 5] });
+  });
+
+  it('needs two units', () => {
+    const array = [rack('a1', 0, 0, { groupId: 'g' }), rack('a2', 5, 0, { groupId: 'g' })];
+    expect(alignSelection(array, ['a1', 'a2'], 'TOP')).toEqual([]);
+  });
+});
+
+describe('distributeSelection', () => {
+  it('spreads equal gaps between the first and last units', () => {
+    const objects = [rack('a', 0, 0), rack('b', 3, 0), rack('c', 12, 0)];
+    expect(byId(distributeSelection(objects, ['c', 'a', 'b'], 'X'))).toEqual({ a: [0, 0], b: [6, 0], c: [12, 0] });
+  });
+
+  it('needs three units', () => {
+    expect(distributeSelection([rack('a', 0, 0), rack('b', 3, 0)], ['a', 'b'], 'Y')).toEqual([]);
+  });
+});
+
+describe('expandToGroups', () => {
+  it('adds the other bays of a selected array', () => {
+    const objects = [rack('a1', 0, 0, { groupId: 'g' }), rack('a2', 2, 0, { groupId: 'g' }), rack('b', 10, 5)];
+    expect(expandToGroups(objects, ['a2'])).toEqual(['a1', 'a2']);
+  });
+});
+
+describe('duplicateRacks', () => {
+  it('continues the B# / M# numbering with fresh ids', () => {
+    const racks = [rack('1', 0, 0, { label: 'B1' }), rack('2', 5, 0, { label: 'B2' }), rack('m', 0, 5, { type: 'MEZZANINE', label: 'M1' })];
+    const copies = duplicateRacks(racks, ['1', 'm'], 1);
+    expect(copies.map(c => [c.label, c.x, c.y])).toEqual([['B3', 1, 1], ['M2', 1, 6]]);
+    copies.forEach(c => expect(racks.some(r => r.id === c.id)).toBe(false));
+  });
+
+  it('gives a copied array a new group and the next row letter', () => {
+    const racks = [
+      rack('a1', 0, 0, { groupId: 'g', label: 'A01' }), rack('a2', 2, 0, { groupId: 'g', label: 'A02' }),
+      rack('b1', 0, 3, { groupId: 'g', label: 'B01' }),
+    ];
+    const copies = duplicateRacks(racks, ['a1', 'a2', 'b1'], 0.5);
+    expect(copies.map(c => c.label)).toEqual(['C01', 'C02', 'D01']);
+    expect(new Set(copies.map(c => c.groupId)).size).toBe(1);
+    expect(copies[0].groupId).not.toBe('g');
+  });
+
+  it('skips locked building elements', () => {
+    const column = rack('p', 0, 0, { type: 'COLUMN', label: 'P1', locked: true });
+    expect(duplicateRacks([column], ['p'], 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { RackBlock } from '../types';
+import { footprintBounds, unionBounds, PlanRect, PlanBounds } from './footprint';
+import { axisLetter } from './buildingElements';
+import { ARRAY_LABEL, nextRowIndex } from './rackArray';
+
+// --- CANVAS SELECTION ---
+// Multi-object editing on the plan. Rack arrays act as one unit: selecting a bay selects the
+// whole array, and align / distribute move arrays as blocks instead of pulling bays apart.
+
+export interface SelectableObject extends PlanRect {
+  id: string;
+  groupId?: string;
+}
+
+export interface ObjectMove {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export type AlignMode = 'LEFT' | 'CENTER_X' | 'RIGHT' | 'TOP' | 'CENTER_Y' | 'BOTTOM';
+export type DistributeAxis = 'X' | 'Y';
+
+const round3 = (v: number) => Math.round(v * 1000) / 1000;
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Adds the other bays of every selected array
+export const expandToGroups = (objects: SelectableObject[], ids: string[]): string[] => {
+  const groups = new Set(objects.filter(o => ids.includes(o.id) && o.groupId).map(o => o.groupId));
+  return objects.filter(o => ids.includes(o.id) || (!!o.groupId && groups.has(o.groupId))).map(o => o.id);
+};
+
+interface SelectionUnit {
+  members: SelectableObject[];
+  box: PlanBounds;
+}
+
+const selectionUnits = (objects: SelectableObject[], ids: string[]): SelectionUnit[] => {
+  const units = new Map<string, SelectableObject[]>();
+  objects.filter(o => ids.includes(o.id)).forEach(o => {
+    const key = o.groupId || `#${o.id}`;
+    const members = units.get(key);
+    if (members) members.push(o); else units.set(key, [o]);
+  });
+  return [...units.values()].map(members => ({ members, box: unionBounds(members.map(footprintBounds)) }));
+};
+
+// Arrays count once: aligning needs two units, distributing three
+export const selectionUnitCount = (objects: SelectableObject[], ids: string[]): number =>
+  selectionUnits(objects, ids).length;
+
+const unitMoves = (unit: SelectionUnit, dx: number, dy: number): ObjectMove[] =>
+  unit.members.map(o => ({ id: o.id, x: round3(o.x + dx), y: round3(o.y + dy) }));
+
+export const alignSelection = (objects: SelectableObject[], ids: string[], mode: AlignMode): ObjectMove[] => {
+  const units = selectionUnits(objects, ids);
+  if (units.length < 2) return [];
+  const all = unionBounds(units.map(u => u.box));
+  return units.flatMap(unit => {
+    const { box } = unit;
+    switch (mode) {
+      case 'LEFT': return unitMoves(unit, all.x - box.x, 0);
+      case 'CENTER_X': return unitMoves(unit, all.x + all.width / 2 - (box.x + box.width / 2), 0);
+      case 'RIGHT': return unitMoves(unit, all.x + all.width - (box.x + box.width), 0);
+      case 'TOP': return unitMoves(unit, 0, all.y - box.y);
+      case 'CENTER_Y': return unitMoves(unit, 0, all.y + all.depth / 2 - (box.y + box.depth / 2));
+      default: return unitMoves(unit, 0, all.y + all.depth - (box.y + box.depth));
+    }
+  });
+};
+
+// Equal gaps between neighbours; the first and last units stay in place
+export const distributeSelection = (objects: SelectableObject[], ids: string[], axis: DistributeAxis): ObjectMove[] => {
+  const units = selectionUnits(objects, ids);
+  if (units.length < 3) return [];
+  const pos = (b: PlanBounds) => (axis === 'X' ? b.x : b.y);
+  const size = (b: PlanBounds) => (axis === 'X' ? b.width : b.depth);
+  units.sort((a, b) => pos(a.box) - pos(b.box));
+  const first = units[0].box, last = units[units.length - 1].box;
+  const span = pos(last) + size(last) - pos(first);
+  const gap = (span - units.reduce((sum, u) => sum + size(u.box), 0)) / (units.length - 1);
+  let cursor = pos(first);
+  return units.flatMap(unit => {
+    const delta = cursor - pos(unit.box);
+    cursor += size(unit.box) + gap;
+    return axis === 'X' ? unitMoves(unit, delta, 0) : unitMoves(unit, 0, delta);
+  });
+};
+
+// Copies shifted by `offset`, with fresh ids and labels. Copied arrays keep their layout under
+// new row letters; single racks and mezzanines continue the B# / M# numbering.
+export const duplicateRacks = (racks: RackBlock[], ids: string[], offset: number): RackBlock[] => {
+  const sources = racks.filter(r => ids.includes(r.id) && !r.locked);
+  const groupIds = new Map<string, string>();
+  const rowLetters = new Map<string, string>();
+  let nextRow = nextRowIndex(racks);
+  const counters: Record<string, number> = {
+    RACK: racks.filter(r => r.type === 'RACK').length,
+    MEZZANINE: racks.filter(r => r.type === 'MEZZANINE').length,
+  };
+
+  return sources.map(source => {
+    let label = source.label;
+    let groupId: string | undefined;
+    const arrayLabel = ARRAY_LABEL.exec(source.label);
+    if (source.groupId) {
+      if (!groupIds.has(source.groupId)) groupIds.set(source.groupId, newId());
+      groupId = groupIds.get(source.groupId);
+      if (arrayLabel) {
+        const key = `${source.groupId}:${arrayLabel[1]}`;
+        if (!rowLetters.has(key)) rowLetters.set(key, axisLetter(nextRow++));
+        label = `${rowLetters.get(key)}${arrayLabel[2]}`;
+      }
+    } else if (source.type in counters) {
+      label = `${source.type === 'MEZZANINE' ? 'M' : 'B'}${++counters[source.type]}`;
+    }
+    return {
+      ...source,
+      id: newId(),
+      x: round3(source.x + offset),
+      y: round3(source.y + offset),
+      label,
+      ...(groupId ? { groupId } : {}),
+    };
+  });
+};
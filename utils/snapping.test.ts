@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { SnapSettings, snapMove, wallSegments } from './snapping';
+
+const box = (x: number, y: number, width = 2, depth = 1) => ({ x, y, width, depth });
+const settings = (patch: Partial<SnapSettings> = {}): SnapSettings => ({ grid: 0.5, magnetic: false, aisleSnap: false, aisle: 3, ...patch });
+
+describe('snapMove', () => {
+  it('lands on the grid without magnetic targets', () => {
+    const result = snapMove(box(0, 0), 1.3, 0.8, [], [], settings(), 0.2);
+    expect([result.dx, result.dy]).toEqual([1.5, 1]);
+    expect(result.guides).toEqual([]);
+  });
+
+  it('keeps the raw move with the grid off', () => {
+    const result = snapMove(box(0, 0), 1.3, 0.8, [], [], settings({ grid: 0 }), 0.2);
+    expect([result.dx, result.dy]).toEqual([1.3, 0.8]);
+  });
+
+  it('lets a nearby edge win over the grid on its axis', () => {
+    // Right edge at 4.9 → 5.03 (the other object's left edge); y still on the grid
+    const result = snapMove(box(0, 0), 2.9, 0.8, [box(5.03, 3)], [], settings({ magnetic: true }), 0.2);
+    expect(result.dx).toBeCloseTo(3.03);
+    expect(result.dy).toBe(1);
+    expect(result.guides).toEqual([{ kind: 'EDGE', axis: 'x', at: 5.03, from: 1, to: 4 }]);
+  });
+
+  it('ignores targets beyond the threshold', () => {
+    const result = snapMove(box(0, 0), 2.5, 0, [box(5.03, 3)], [], settings({ magnetic: true }), 0.2);
+    expect(result.dx).toBe(2.5);
+    expect(result.guides).toEqual([]);
+  });
+
+  it('snaps to the walls', () => {
+    const walls = wallSegments([{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 }, { x: 0, y: 10 }]);
+    const result = snapMove(box(5, 5), 12.9, 0, [], walls, settings({ magnetic: true }), 0.2);
+    expect(result.dx).toBeCloseTo(13);
+    expect(result.guides[0]).toMatchObject({ kind: 'WALL', axis: 'x', at: 20 });
+  });
+
+  it('stops an aisle width away from a facing object', () => {
+    const result = snapMove(box(0, 0), 5.9, 0, [box(11, 0)], [], settings({ aisleSnap: true, grid: 0 }), 0.2);
+    expect(result.dx).toBeCloseTo(6); // Right edge at 8, 3 m from the object at 11
+    expect(result.guides).toEqual([{ kind: 'AISLE', axis: 'x', start: 11, end: 8, cross: 0.5 }]);
+  });
+
+  it('does not offer aisles to objects that do not face the box', () => {
+    const result = snapMove(box(0, 0), 5.9, 0, [box(11, 5)], [], settings({ aisleSnap: true, grid: 0 }), 0.2);
+    expect(result.dx).toBe(5.9);
+  });
+
+  it('merges the guides of objects lined up on the same edge', () => {
+    const result = snapMove(box(0, 2), 2.95, 0, [box(5, 0), box(5, 6)], [], settings({ magnetic: true }), 0.2);
+    expect(result.guides).toEqual([{ kind: 'EDGE', axis: 'x', at: 5, from: 0, to: 7 }]);
+  });
+});
+
+describe('wallSegments', () => {
+  it('keeps only the axis-aligned walls', () => {
+    expect(wallSegments([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 5 }, { x: 5, y: 10 }, { x: 0, y: 10 }])).toEqual([
+      { x: 0, y: 0, width: 10, depth: 0 },
+      { x: 10, y: 0, width: 0, depth: 5 },
+      { x: 0, y: 10, width: 5, depth: 0 },
+      { x: 0, y: 0, width: 0, depth: 10 },
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+import { FloorPoint } from '../types';
+import { PlanBounds } from './footprint';
+
+// --- SNAPPING ---
+// Where a dragged object (or selection) lands. The grid comes first; magnetic targets within a
+// few pixels win on their axis: edges of other objects and walls, or a target aisle width away
+// from a facing object. Settings are a browser preference shared by every project.
+
+export interface SnapSettings {
+  grid: number; // Grid step (m); 0 = off
+  magnetic: boolean; // Edges to other objects' edges and to the walls
+  aisleSnap: boolean; // Stop `aisle` meters away from facing objects and walls
+  aisle: number;
+}
+
+export const GRID_STEPS = [0, 0.05, 0.1, 0.25, 0.5, 1];
+
+export const DEFAULT_SNAP: SnapSettings = { grid: 0.5, magnetic: true, aisleSnap: false, aisle: 3.5 };
+
+const SNAP_STORAGE_KEY = 'schema-snap-settings';
+
+export const loadSnapSettings = (): SnapSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SNAP_STORAGE_KEY) || '{}');
+    return {
+      grid: GRID_STEPS.includes(stored.grid) ? stored.grid : DEFAULT_SNAP.grid,
+      magnetic: typeof stored.magnetic === 'boolean' ? stored.magnetic : DEFAULT_SNAP.magnetic,
+      aisleSnap: typeof stored.aisleSnap === 'boolean' ? stored.aisleSnap : DEFAULT_SNAP.aisleSnap,
+      aisle: typeof stored.aisle === 'number' && stored.aisle > 0 ? stored.aisle : DEFAULT_SNAP.aisle,
+    };
+  } catch {
+    return { ...DEFAULT_SNAP };
+  }
+};
+
+export const saveSnapSettings = (settings: SnapSettings) => {
+  try {
+    localStorage.setItem(SNAP_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or blocked: the settings last for this session only
+  }
+};
+
+// Lines drawn on the plan while a snap is active. EDGE / WALL: a line at `at` along `axis`'s
+// perpendicular (axis 'x' → vertical line x = at) spanning from..to. AISLE: the gap start..end
+// measured along `axis`, drawn at `cross`.
+export type SnapGuide =
+  | { kind: 'EDGE' | 'WALL'; axis: 'x' | 'y'; at: number; from: number; to: number }
+  | { kind: 'AISLE'; axis: 'x' | 'y'; start: number; end: number; cross: number };
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SnapGuide[];
+}
+
+const EPSILON = 1e-6;
+
+// Axis-aligned stretches of the hall outline, as zero-thickness boxes
+export const wallSegments = (outline: FloorPoint[]): PlanBounds[] =>
+  outline.flatMap((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    if (Math.abs(p.x - q.x) < EPSILON) return [{ x: p.x, y: Math.min(p.y, q.y), width: 0, depth: Math.abs(q.y - p.y) }];
+    if (Math.abs(p.y - q.y) < EPSILON) return [{ x: Math.min(p.x, q.x), y: p.y, width: Math.abs(q.x - p.x), depth: 0 }];
+    return [];
+  });
+
+interface SnapCandidate {
+  delta: number;
+  kind: 'EDGE' | 'WALL' | 'AISLE';
+  target: PlanBounds;
+  at: number; // Target edge
+  to?: number; // AISLE: edge of the moved box
+}
+
+const AXES = {
+  x: { pos: 'x', size: 'width', crossPos: 'y', crossSize: 'depth' },
+  y: { pos: 'y', size: 'depth', crossPos: 'x', crossSize: 'width' },
+} as const;
+
+// Closest magnetic targets on one axis (all of them on a tie), none beyond `threshold`
+const snapAxis = (
+  box: PlanBounds, axis: 'x' | 'y', objects: PlanBounds[], walls: PlanBounds[],
+  settings: SnapSettings, threshold: number
+): SnapCandidate[] => {
+  const { pos, size, crossPos, crossSize } = AXES[axis];
+  const edges = [box[pos], box[pos] + box[size]];
+  let best: SnapCandidate[] = [];
+  const offer = (candidate: SnapCandidate) => {
+    const distance = Math.abs(candidate.delta);
+    if (distance > threshold) return;
+    const current = best.length > 0 ? Math.abs(best[0].delta) : Infinity;
+    if (distance < current - EPSILON) best = [candidate];
+    else if (Math.abs(candidate.delta - best[0].delta) < EPSILON) best.push(candidate);
+  };
+  const scan = (targets: PlanBounds[], kind: 'EDGE' | 'WALL') => targets.forEach(target => {
+    const targetEdges = [target[pos], target[pos] + target[size]];
+    if (settings.magnetic) {
+      edges.forEach(e => targetEdges.forEach(at => offer({ delta: at - e, kind, target, at })));
+    }
+    const facing = Math.min(box[crossPos] + box[crossSize], target[crossPos] + target[crossSize]) - Math.max(box[crossPos], target[crossPos]) > EPSILON;
+    if (settings.aisleSnap && settings.aisle > 0 && facing) {
+      offer({ delta: targetEdges[1] + settings.aisle - edges[0], kind: 'AISLE', target, at: targetEdges[1], to: targetEdges[1] + settings.aisle });
+      offer({ delta: targetEdges[0] - settings.aisle - edges[1], kind: 'AISLE', target, at: targetEdges[0], to: targetEdges[0] - settings.aisle });
+    }
+  });
+  scan(objects, 'EDGE');
+  scan(walls, 'WALL');
+  return best;
+};
+
+const guideFor = (candidate: SnapCandidate, box: PlanBounds, axis: 'x' | 'y'): SnapGuide => {
+  const { crossPos, crossSize } = AXES[axis];
+  const { target } = candidate;
+  if (candidate.kind === 'AISLE') {
+    const from = Math.max(box[crossPos], target[crossPos]);
+    const to = Math.min(box[crossPos] + box[crossSize], target[crossPos] + target[crossSize]);
+    return { kind: 'AISLE', axis, start: candidate.at, end: candidate.to!, cross: (from + to) / 2 };
+  }
+  return {
+    kind: candidate.kind,
+    axis,
+    at: candidate.at,
+    from: Math.min(box[crossPos], target[crossPos]),
+    to: Math.max(box[crossPos] + box[crossSize], target[crossPos] + target[crossSize]),
+  };
+};
+
+// Snaps the move of `box` by (dx, dy). `threshold` is the magnetic reach in meters (a few
+// pixels at the current zoom).
+export const snapMove = (
+  box: PlanBounds, dx: number, dy: number, objects: PlanBounds[], walls: PlanBounds[],
+  settings: SnapSettings, threshold: number
+): SnapResult => {
+  const moved = { ...box, x: box.x + dx, y: box.y + dy };
+  const toGrid = (v: number) => (settings.grid > 0 ? Math.round(v / settings.grid) * settings.grid : v);
+  const magnetic = settings.magnetic || settings.aisleSnap;
+  const onX = magnetic ? snapAxis(moved, 'x', objects, walls, settings, threshold) : [];
+  const onY = magnetic ? snapAxis(moved, 'y', objects, walls, settings, threshold) : [];
+  const result = {
+    dx: onX.length > 0 ? moved.x + onX[0].delta - box.x : toGrid(moved.x) - box.x,
+    dy: onY.length > 0 ? moved.y + onY[0].delta - box.y : toGrid(moved.y) - box.y,
+  };
+  const landed = { ...box, x: box.x + result.dx, y: box.y + result.dy };
+  // One line per snapped edge, spanning every object lined up on it
+  const guides = new Map<string, SnapGuide>();
+  [...onX.map(c => guideFor(c, landed, 'x')), ...onY.map(c => guideFor(c, landed, 'y'))].forEach(guide => {
+    if (guide.kind === 'AISLE') { guides.set(`A:${guide.axis}:${guide.start}:${guide.cross}`, guide); return; }
+    const key = `${guide.axis}:${guide.at.toFixed(3)}`;
+    const existing = guides.get(key);
+    if (existing && existing.kind !== 'AISLE') {
+      guides.set(key, { ...existing, from: Math.min(existing.from, guide.from), to: Math.max(existing.to, guide.to) });
+    } else if (!existing) {
+      guides.set(key, guide);
+    }
+  });
+  return { ...result, guides: [...guides.values()] };
+};
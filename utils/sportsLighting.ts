@@ -0,0 +1,197 @@
+import { FieldTemplateId, Floodlight, SportsLightingClass, SportsObject, SportsProjectData } from '../types';
+import { IlluminanceGrid, Obstacle, beamIntensityModel, gridSpacing, segmentHitsBox } from './illuminance';
+
+// --- SPORTS LIGHTING (EN 12193) ---
+// Floodlights sit at the top of the posts and are aimed by tilt (from the downward vertical) and
+// azimuth (in plan). The grid covers the playing area: horizontal illuminance on the surface,
+// vertical illuminance 1.5 m above it (average of the planes facing the four field directions).
+// U1 = Emin / Emax, U2 = Emin / Eavg. Coverings are opaque slabs that shade the floodlights.
+
+export const VERTICAL_HEIGHT = 1.5; // Vertical illuminance reference height (m)
+const AIM_REACH = 5; // Near-horizontal aiming lines stop at 5× the mounting height
+
+export interface LightingRequirement {
+  lux: number; // Minimum maintained Eh average
+  uniformity: number; // Minimum U2 (Emin / Eavg)
+}
+
+type RequirementTable = Record<SportsLightingClass, LightingRequirement>;
+
+// EN 12193 horizontal requirements by sport group
+const OUTDOOR_FIELD: RequirementTable = {
+  I: { lux: 500, uniformity: 0.7 },
+  II: { lux: 200, uniformity: 0.6 },
+  III: { lux: 75, uniformity: 0.5 },
+};
+const RACKET: RequirementTable = {
+  I: { lux: 500, uniformity: 0.7 },
+  II: { lux: 300, uniformity: 0.7 },
+  III: { lux: 200, uniformity: 0.6 },
+};
+const COURT: RequirementTable = {
+  I: { lux: 750, uniformity: 0.7 },
+  II: { lux: 500, uniformity: 0.7 },
+  III: { lux: 200, uniformity: 0.5 },
+};
+
+const REQUIREMENTS: Record<FieldTemplateId, RequirementTable> = {
+  FOOTBALL_11: OUTDOOR_FIELD,
+  FOOTBALL_7: OUTDOOR_FIELD,
+  FOOTBALL_5: OUTDOOR_FIELD,
+  FUTSAL: COURT,
+  BASKETBALL: COURT,
+  VOLLEYBALL: COURT,
+  HANDBALL: COURT,
+  TENNIS: RACKET,
+  PADEL: RACKET,
+};
+
+export const LIGHTING_CLASSES: { id: SportsLightingClass; label: string }[] = [
+  { id: 'I', label: 'Classe I — Competição de alto nível' },
+  { id: 'II', label: 'Classe II — Competição regional e clubes' },
+  { id: 'III', label: 'Classe III — Treino e lazer' },
+];
+
+// Custom fields follow the outdoor football values
+export const lightingRequirement = (data: SportsProjectData): LightingRequirement =>
+  (data.template ? REQUIREMENTS[data.template] : OUTDOOR_FIELD)[data.floodlighting.lightingClass];
+
+export interface LightingStats {
+  averageLux: number;
+  minLux: number;
+  maxLux: number;
+  u1: number; // Emin / Emax
+  u2: number; // Emin / Eavg
+}
+
+export interface SportsLightingResult {
+  floodlightCount: number;
+  installedWatts: number;
+  requirement: LightingRequirement;
+  horizontal: LightingStats & { grid: IlluminanceGrid };
+  vertical: LightingStats;
+  passes: boolean; // Eh average and U2 meet the class
+}
+
+const DEG = Math.PI / 180;
+
+// Floodlights hang from the center of the pole top
+export const floodlightMount = (post: SportsObject) => ({
+  x: post.x + post.width / 2,
+  y: post.y + post.depth / 2,
+  z: (post.elevation || 0) + post.height,
+});
+
+// Tilt / azimuth that aim a floodlight of `post` at (x, y) on the surface
+export const aimFloodlight = (post: SportsObject, x: number, y: number): Pick<Floodlight, 'tilt' | 'azimuth'> => {
+  const mount = floodlightMount(post);
+  const dx = x - mount.x;
+  const dy = y - mount.y;
+  const azimuth = ((Math.atan2(dy, dx) / DEG) % 360 + 360) % 360;
+  return {
+    tilt: Math.round((Math.atan2(Math.hypot(dx, dy), mount.z) / DEG) * 10) / 10,
+    azimuth: Math.round(azimuth * 10) / 10,
+  };
+};
+
+// Where the beam axis meets the surface (drawn as the aiming line)
+export const floodlightAimPoint = (post: SportsObject, floodlight: Floodlight) => {
+  const mount = floodlightMount(post);
+  const tilt = Math.min(Math.max(floodlight.tilt, 0), 90) * DEG;
+  const reach = tilt >= Math.PI / 2 ? mount.z * AIM_REACH : Math.min(mount.z * Math.tan(tilt), mount.z * AIM_REACH);
+  return {
+    x: mount.x + reach * Math.cos(floodlight.azimuth * DEG),
+    y: mount.y + reach * Math.sin(floodlight.azimuth * DEG),
+  };
+};
+
+const floodlightSources = (data: SportsProjectData) =>
+  data.objects.filter(o => o.type === 'POST').flatMap(post => {
+    const mount = floodlightMount(post);
+    return (post.floodlights || []).map(f => ({
+      ...mount,
+      axis: {
+        x: Math.sin(f.tilt * DEG) * Math.cos(f.azimuth * DEG),
+        y: Math.sin(f.tilt * DEG) * Math.sin(f.azimuth * DEG),
+        z: -Math.cos(f.tilt * DEG),
+      },
+    }));
+  });
+
+const coveringObstacles = (data: SportsProjectData): Obstacle[] =>
+  data.objects
+    .filter(o => o.type === 'COVERING' && o.height > 0)
+    .map(o => ({ x: o.x, y: o.y, width: o.width, depth: o.depth, bottom: o.elevation, top: o.elevation + o.height }));
+
+const statsOf = (values: number[]): LightingStats => {
+  if (values.length === 0) return { averageLux: 0, minLux: 0, maxLux: 0, u1: 0, u2: 0 };
+  let min = Infinity, max = -Infinity, sum = 0;
+  values.forEach(v => { sum += v; if (v < min) min = v; if (v > max) max = v; });
+  const averageLux = sum / values.length;
+  return { averageLux, minLux: min, maxLux: max, u1: max > 0 ? min / max : 0, u2: averageLux > 0 ? min / averageLux : 0 };
+};
+
+const VERTICAL_PLANES: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+export const computeSportsLighting = (
+  data: SportsProjectData,
+  { spacing }: { spacing?: number } = {}
+): SportsLightingResult | null => {
+  if (!(data.width > 0) || !(data.length > 0)) return null;
+  const sources = floodlightSources(data);
+  if (sources.length === 0) return null;
+
+  const { fixture, maintenanceFactor } = data.floodlighting;
+  const intensity = beamIntensityModel(fixture);
+  const obstacles = coveringObstacles(data);
+  const cols = Math.max(1, Math.ceil(data.width / (spacing || gridSpacing(data.width))));
+  const rows = Math.max(1, Math.ceil(data.length / (spacing || gridSpacing(data.length))));
+  const cellW = data.width / cols;
+  const cellH = data.length / rows;
+  const horizontal: number[] = [];
+  const vertical: number[] = [];
+
+  // Intensity towards (px, py, pz) and the unit vector from the point to the source
+  const reach = (s: typeof sources[number], px: number, py: number, pz: number) => {
+    const vx = px - s.x, vy = py - s.y, vz = pz - s.z;
+    const d2 = vx * vx + vy * vy + vz * vz;
+    const d = Math.sqrt(d2);
+    const cosGamma = (s.axis.x * vx + s.axis.y * vy + s.axis.z * vz) / d;
+    if (cosGamma <= 0 || obstacles.some(o => segmentHitsBox(s.x, s.y, s.z, px, py, pz, o))) return null;
+    return { intensity: intensity(Math.acos(Math.min(1, cosGamma)), 0), d2, toSource: { x: -vx / d, y: -vy / d, z: -vz / d } };
+  };
+
+  for (let r = 0; r < rows; r++) {
+    const py = (r + 0.5) * cellH;
+    for (let c = 0; c < cols; c++) {
+      const px = (c + 0.5) * cellW;
+      let eh = 0, ev = 0;
+      sources.forEach(s => {
+        const ground = reach(s, px, py, 0);
+        if (ground) eh += (ground.intensity * Math.max(0, ground.toSource.z)) / ground.d2;
+        const raised = reach(s, px, py, VERTICAL_HEIGHT);
+        if (raised) {
+          VERTICAL_PLANES.forEach(([nx, ny]) => {
+            ev += (raised.intensity * Math.max(0, nx * raised.toSource.x + ny * raised.toSource.y)) / raised.d2 / VERTICAL_PLANES.length;
+          });
+        }
+      });
+      horizontal.push(eh * maintenanceFactor);
+      vertical.push(ev * maintenanceFactor);
+    }
+  }
+
+  const requirement = lightingRequirement(data);
+  const horizontalStats = statsOf(horizontal);
+  return {
+    floodlightCount: sources.length,
+    installedWatts: sources.length * fixture.watts,
+    requirement,
+    horizontal: {
+      ...horizontalStats,
+      grid: { cols, rows, stepX: cellW, stepY: cellH, values: horizontal, covered: horizontal.map(() => false) },
+    },
+    vertical: statsOf(vertical),
+    passes: horizontalStats.averageLux >= requirement.lux && horizontalStats.u2 >= requirement.uniformity,
+  };
+};